@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeApiKey, getApiKeyStore, isAdminEnabled, isAdminRequest, revokeApiKey } from '@/lib/auth';
+
+const adminRequired = () => isAdminEnabled()
+  ? NextResponse.json({ error: 'Admin token required' }, { status: 401 })
+  : NextResponse.json({ error: 'Admin API is disabled: set ADMIN_TOKEN' }, { status: 403 });
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isAdminRequest(request)) {
+      return adminRequired();
+    }
+
+    const { id } = await params;
+    const record = await getApiKeyStore().get(id);
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(describeApiKey(record));
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load API key' },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoked keys are kept, with their usage, so past spend stays visible
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isAdminRequest(request)) {
+      return adminRequired();
+    }
+
+    const { id } = await params;
+    const record = await revokeApiKey(id);
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(describeApiKey(record));
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiKey, describeApiKey, getApiKeyStore, isAdminEnabled, isAdminRequest, NewApiKey } from '@/lib/auth';
+
+const MAX_QUOTA = 1_000_000_000;
+
+const adminRequired = () => isAdminEnabled()
+  ? NextResponse.json({ error: 'Admin token required' }, { status: 401 })
+  : NextResponse.json({ error: 'Admin API is disabled: set ADMIN_TOKEN' }, { status: 403 });
+
+const isLimit = (value: unknown, max: number) =>
+  value === undefined || (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max);
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return adminRequired();
+    }
+
+    const keys = await getApiKeyStore().list();
+    return NextResponse.json({ keys: keys.map(describeApiKey) });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+// Issue a key; the response is the only time the key itself is shown
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return adminRequired();
+    }
+
+    const { name, monthlyTokenQuota, rateLimitPerMinute }: NewApiKey = await request.json();
+
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+      return NextResponse.json(
+        { error: 'name must be a non-empty string of at most 100 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (!isLimit(monthlyTokenQuota, MAX_QUOTA) || !isLimit(rateLimitPerMinute, 10000)) {
+      return NextResponse.json(
+        { error: 'monthlyTokenQuota and rateLimitPerMinute must be non-negative integers' },
+        { status: 400 }
+      );
+    }
+
+    const { key, record } = await createApiKey({ name: name.trim(), monthlyTokenQuota, rateLimitPerMinute });
+    return NextResponse.json({ key, ...describeApiKey(record) }, { status: 201 });
+
+  } catch (error) {
+    console.error('API Error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { answerQuestion, validateAskRequest } from '@/lib/ask';
+import { authorizeRequest, recordUsage } from '@/lib/auth';
+import { describeGenerationError } from '@/lib/generation';
+import { getHandoffStore } from '@/lib/store';
+import { AskRequest } from '@/lib/types';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Answers call the model, so they count against the same limits and quota as generations
+    const apiKey = await authorizeRequest(request);
+    const { id } = await params;
+    const body: AskRequest = await request.json();
+
+    const invalid = validateAskRequest(body);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const store = getHandoffStore();
+    const handoff = await store.get(id);
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      );
+    }
+
+    // Handoffs generated without HANDOFF_SOURCES=on have nothing to answer from
+    const sources = handoff.sourcesId ? await store.getSources(handoff.sourcesId) : null;
+    if (!sources) {
+      return NextResponse.json(
+        { error: 'The transcript and code this handoff was generated from were not kept, so questions cannot be answered' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(await answerQuestion(handoff, sources, body, {
+      signal: request.signal,
+      ...(apiKey && { onUsage: usage => recordUsage(apiKey, usage.totalTokens) }),
+    }));
+
+  } catch (error) {
+    console.error('API Error:', error);
+    const { status, body, headers } = describeGenerationError(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffHandoffs, findEarlierHandoff } from '@/lib/handoff-diff';
+import { getHandoffStore } from '@/lib/store';
+
+// The changes from ?against=<id> (default: the generation before this one, else the handoff it updates) to this handoff
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const against = request.nextUrl.searchParams.get('against');
+    const store = getHandoffStore();
+
+    const handoff = await store.get(id);
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      );
+    }
+
+    const earlier = against ? await store.get(against) : await findEarlierHandoff(handoff);
+    if (!earlier) {
+      return NextResponse.json(
+        { error: against ? 'Handoff to compare against not found' : 'No earlier generation to compare with: pass ?against=<id>' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diffHandoffs(earlier, handoff));
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare handoffs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHandoffStore } from '@/lib/store';
+
+const MAX_LIMIT = 100;
+
+// Other generations of this handoff (same type, same inputs), newest first
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), MAX_LIMIT);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+    const store = getHandoffStore();
+
+    const handoff = await store.get(id);
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      );
+    }
+
+    const { handoffs, total } = await store.list({ generationsOf: handoff, limit, offset });
+    return NextResponse.json({ handoffs, total, limit, offset });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list generations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/auth';
+import { describeGenerationError } from '@/lib/generation';
+import { PublishError, PublishHandoffRequest, publishHandoff, validatePublishRequest } from '@/lib/publishers';
+import { getHandoffStore } from '@/lib/store';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Publishing writes with the server's tokens, so it needs the same key as generating
+    await authorizeRequest(request);
+    const { id } = await params;
+    const body: PublishHandoffRequest = await request.json();
+
+    const invalid = validatePublishRequest(body);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const handoff = await getHandoffStore().get(id);
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      );
+    }
+
+    const publication = await publishHandoff(handoff, body, new URL(`/handoff/${id}`, request.url).toString());
+    return NextResponse.json({ publication }, { status: 201 });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    if (error instanceof PublishError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    // Auth, rate limit and malformed JSON errors are answered as for generations
+    const { status, body, headers } = describeGenerationError(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
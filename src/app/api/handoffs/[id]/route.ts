@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/auth';
+import { describeGenerationError } from '@/lib/generation';
+import { createEditedHandoff, getHandoffStore } from '@/lib/store';
+import { EditHandoffRequest, EditHandoffResponse } from '@/lib/types';
+
+const MAX_OUTPUT_CHARS = 200_000;
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const handoff = await getHandoffStore().get(id);
+
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(handoff);
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load handoff' },
+      { status: 500 }
+    );
+  }
+}
+
+// Saves an edited document as a new handoff; the one edited is left as it was
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Stored handoffs are shared and published, so writing one needs the same key as generating
+    await authorizeRequest(request);
+    const { id } = await params;
+    const body: EditHandoffRequest = await request.json();
+
+    if (typeof body.output !== 'string' || !body.output.trim() || body.output.length > MAX_OUTPUT_CHARS) {
+      return NextResponse.json(
+        { error: `output must be a non-empty string of at most ${MAX_OUTPUT_CHARS} characters` },
+        { status: 400 }
+      );
+    }
+
+    const store = getHandoffStore();
+    const handoff = await store.get(id);
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      );
+    }
+
+    const edited = createEditedHandoff(handoff, body.output);
+    await store.save(edited);
+    const response: EditHandoffResponse = { id: edited.id };
+    return NextResponse.json(response, { status: 201 });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    // Auth, rate limit and malformed JSON errors are answered as for generations
+    const { status, body, headers } = describeGenerationError(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
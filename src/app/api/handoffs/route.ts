@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminEnabled, isAdminRequest } from '@/lib/auth';
+import { getHandoffStore } from '@/lib/store';
+
+const MAX_LIMIT = 100;
+
+const adminRequired = () => isAdminEnabled()
+  ? NextResponse.json({ error: 'Admin token required' }, { status: 401 })
+  : NextResponse.json({ error: 'Admin API is disabled: set ADMIN_TOKEN' }, { status: 403 });
+
+// Share links are the only access control on a handoff, so listing their ids is for admins only
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return adminRequired();
+    }
+
+    const { searchParams } = request.nextUrl;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), MAX_LIMIT);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const { handoffs, total } = await getHandoffStore().list({ limit, offset });
+    return NextResponse.json({ handoffs, total, limit, offset });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list handoffs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJobStore, toJobView } from '@/lib/jobs';
+
+// Job ids are unguessable, so like share links they are the only credential needed to poll or cancel
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const job = await getJobStore().get(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toJobView(job), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const job = await cancelJob(id);
+
+    if (job === null) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job === false) {
+      return NextResponse.json(
+        { error: 'Job has already finished or is running on another instance' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(toJobView(job));
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    );
+  }
+}
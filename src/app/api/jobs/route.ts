@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/auth';
+import { describeGenerationError, validateSummaryRequest } from '@/lib/generation';
+import { enqueueJob, toJobView } from '@/lib/jobs';
+import { SummaryRequest } from '@/lib/types';
+
+// Same body as /api/summary; answers right away with a job to poll at /api/jobs/[id]
+export async function POST(request: NextRequest) {
+  try {
+    const apiKey = await authorizeRequest(request);
+
+    const body: SummaryRequest = await request.json();
+
+    const invalid = validateSummaryRequest(body);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    // The job streams its own output, so the stream flag only applies to /api/summary
+    const job = await enqueueJob({
+      request: { ...body, stream: false },
+      baseUrl: request.url,
+      ...(apiKey && { apiKeyId: apiKey.id }),
+    });
+
+    return NextResponse.json(toJobView(job), {
+      status: 202,
+      headers: { Location: `/api/jobs/${job.id}` },
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    const { status, body, headers } = describeGenerationError(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getConfiguredPublishers, PUBLISH_MODES } from '@/lib/publishers';
+
+// The publishers this server has tokens for, so the page only offers those
+export async function GET() {
+  return NextResponse.json({
+    publishers: getConfiguredPublishers().map(({ name, label, targetHint }) => ({ name, label, targetHint })),
+    modes: PUBLISH_MODES,
+  });
+}
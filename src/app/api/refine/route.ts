@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, recordUsage } from '@/lib/auth';
+import { describeGenerationError } from '@/lib/generation';
+import { refineSection, validateRefineRequest } from '@/lib/refine';
+import { getHandoffStore } from '@/lib/store';
+import { RefineRequest } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Rewrites call the model, so they count against the same limits and quota as generations
+    const apiKey = await authorizeRequest(request);
+    const body: RefineRequest = await request.json();
+
+    const invalid = validateRefineRequest(body);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    // A stored handoff lends its artifact type and, when they were kept, its transcript and code
+    const store = getHandoffStore();
+    const handoff = body.handoffId ? await store.get(body.handoffId) : null;
+    if (body.handoffId && !handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      );
+    }
+    const sources = handoff?.sourcesId ? await store.getSources(handoff.sourcesId) : null;
+
+    return NextResponse.json(await refineSection({ ...body, type: body.type ?? handoff?.type }, sources, {
+      signal: request.signal,
+      ...(apiKey && { onUsage: usage => recordUsage(apiKey, usage.totalTokens) }),
+    }));
+
+  } catch (error) {
+    console.error('API Error:', error);
+    const { status, body, headers } = describeGenerationError(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
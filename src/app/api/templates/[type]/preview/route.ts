@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, AuthError } from '@/lib/auth';
+import { describeGenerationError } from '@/lib/generation';
+import {
+  DEFAULT_TEAM,
+  isTeamName,
+  isTemplateVariable,
+  renderTemplate,
+  resolveTemplate,
+  TEMPLATE_VARIABLE_DESCRIPTIONS,
+  TEMPLATE_VARIABLES,
+  TemplateVariables,
+  validateTemplate,
+  variablesIn,
+} from '@/lib/templates';
+import { ARTIFACT_TYPES, ArtifactType } from '@/lib/types';
+
+interface PreviewTemplateRequest {
+  team?: string;
+  // Unsaved template to preview; the team's active template otherwise
+  body?: string;
+  variables?: Partial<TemplateVariables>;
+}
+
+// Stand-ins that show where each variable lands in the prompt
+const SAMPLE_VARIABLES = Object.fromEntries(
+  TEMPLATE_VARIABLES.map(name => [name, `[${name}: ${TEMPLATE_VARIABLE_DESCRIPTIONS[name]}]`])
+) as TemplateVariables;
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ type: string }> }) {
+  try {
+    // Counts against the caller's rate limit like any other call
+    await authorizeRequest(request);
+    const { type } = await params;
+    const { team = DEFAULT_TEAM, body, variables = {} }: PreviewTemplateRequest = await request.json();
+
+    if (!ARTIFACT_TYPES.includes(type as ArtifactType)) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isTeamName(team)) {
+      return NextResponse.json(
+        { error: 'team must be lowercase letters, digits and dashes (at most 40 characters)' },
+        { status: 400 }
+      );
+    }
+
+    const templateError = body === undefined ? null : validateTemplate(body);
+    if (templateError) {
+      return NextResponse.json(
+        { error: templateError },
+        { status: 400 }
+      );
+    }
+
+    const template = body ?? (await resolveTemplate(type as ArtifactType, team)).body;
+    const provided = Object.fromEntries(
+      Object.entries(variables).filter(([name, value]) => isTemplateVariable(name) && typeof value === 'string')
+    );
+
+    return NextResponse.json({
+      prompt: renderTemplate(template, { ...SAMPLE_VARIABLES, ...provided }),
+      variables: variablesIn(template),
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+
+    if (error instanceof AuthError) {
+      const { status, body, headers } = describeGenerationError(error);
+      return NextResponse.json(body, { status, headers });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to preview template' },
+      { status: 500 }
+    );
+  }
+}
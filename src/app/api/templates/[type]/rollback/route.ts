@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, AuthError, isAdminEnabled, isAdminRequest, isAuthRequired } from '@/lib/auth';
+import { describeGenerationError } from '@/lib/generation';
+import { DEFAULT_TEAM, isTeamName, rollbackTemplate, templateVersionId } from '@/lib/templates';
+import { ARTIFACT_TYPES, ArtifactType } from '@/lib/types';
+
+interface RollbackTemplateRequest {
+  team?: string;
+  // Version to restore; 0 restores the built-in prompt
+  version: number;
+}
+
+const adminRequired = () => isAdminEnabled()
+  ? NextResponse.json({ error: 'Admin token required to change the default team\'s templates' }, { status: 401 })
+  : NextResponse.json({ error: 'The default team\'s templates are read-only: set ADMIN_TOKEN to change them' }, { status: 403 });
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ type: string }> }) {
+  try {
+    const { type } = await params;
+    const { team = DEFAULT_TEAM, version }: RollbackTemplateRequest = await request.json();
+
+    if (!ARTIFACT_TYPES.includes(type as ArtifactType)) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isTeamName(team)) {
+      return NextResponse.json(
+        { error: 'team must be lowercase letters, digits and dashes (at most 40 characters)' },
+        { status: 400 }
+      );
+    }
+
+    // Templates shape every later generation, so changing them takes the same key as generating. The default
+    // team's apply to every team without its own, so when keys are required only the admin token changes them.
+    if (team === DEFAULT_TEAM && isAuthRequired()) {
+      if (!isAdminRequest(request)) return adminRequired();
+    } else {
+      await authorizeRequest(request);
+    }
+
+    if (!Number.isInteger(version) || version < 0) {
+      return NextResponse.json(
+        { error: 'version must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const restored = await rollbackTemplate(type as ArtifactType, team, version);
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Template version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ...restored, versionId: templateVersionId(restored) }, { status: 201 });
+
+  } catch (error) {
+    console.error('API Error:', error);
+
+    if (error instanceof AuthError) {
+      const { status, body, headers } = describeGenerationError(error);
+      return NextResponse.json(body, { status, headers });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to roll back template' },
+      { status: 500 }
+    );
+  }
+}
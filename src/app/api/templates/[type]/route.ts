@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, AuthError, isAdminEnabled, isAdminRequest, isAuthRequired } from '@/lib/auth';
+import { describeGenerationError } from '@/lib/generation';
+import {
+  DEFAULT_TEAM,
+  getTemplateStore,
+  isTeamName,
+  resolveTemplate,
+  saveTemplate,
+  templateVersionId,
+  validateTemplate,
+} from '@/lib/templates';
+import { DEFAULT_TEMPLATES } from '@/lib/prompts';
+import { ARTIFACT_TYPES, ArtifactType } from '@/lib/types';
+
+interface SaveTemplateRequest {
+  team?: string;
+  body: string;
+  note?: string;
+}
+
+const adminRequired = () => isAdminEnabled()
+  ? NextResponse.json({ error: 'Admin token required to change the default team\'s templates' }, { status: 401 })
+  : NextResponse.json({ error: 'The default team\'s templates are read-only: set ADMIN_TOKEN to change them' }, { status: 403 });
+
+const TEAM_ERROR = 'team must be lowercase letters, digits and dashes (at most 40 characters)';
+
+// Active template, the team's version history and the built-in prompt to diff against
+export async function GET(request: NextRequest, { params }: { params: Promise<{ type: string }> }) {
+  try {
+    const { type } = await params;
+    const team = request.nextUrl.searchParams.get('team') || DEFAULT_TEAM;
+
+    if (!ARTIFACT_TYPES.includes(type as ArtifactType)) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isTeamName(team)) {
+      return NextResponse.json(
+        { error: TEAM_ERROR },
+        { status: 400 }
+      );
+    }
+
+    const versions = await getTemplateStore().versions(type as ArtifactType, team);
+    return NextResponse.json({
+      active: await resolveTemplate(type as ArtifactType, team),
+      versions: versions.reverse().map(version => ({ ...version, versionId: templateVersionId(version) })),
+      builtin: DEFAULT_TEMPLATES[type as ArtifactType],
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load template' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a new version for a team; earlier versions stay available for rollback
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ type: string }> }) {
+  try {
+    const { type } = await params;
+    const { team = DEFAULT_TEAM, body, note }: SaveTemplateRequest = await request.json();
+
+    if (!ARTIFACT_TYPES.includes(type as ArtifactType)) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isTeamName(team)) {
+      return NextResponse.json(
+        { error: TEAM_ERROR },
+        { status: 400 }
+      );
+    }
+
+    // Templates shape every later generation, so changing them takes the same key as generating. The default
+    // team's apply to every team without its own, so when keys are required only the admin token changes them.
+    if (team === DEFAULT_TEAM && isAuthRequired()) {
+      if (!isAdminRequest(request)) return adminRequired();
+    } else {
+      await authorizeRequest(request);
+    }
+
+    const templateError = validateTemplate(body);
+    if (templateError) {
+      return NextResponse.json(
+        { error: templateError },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && (typeof note !== 'string' || note.length > 200)) {
+      return NextResponse.json(
+        { error: 'note must be a string of at most 200 characters' },
+        { status: 400 }
+      );
+    }
+
+    const version = await saveTemplate(type as ArtifactType, team, body, note?.trim());
+    return NextResponse.json({ ...version, versionId: templateVersionId(version) }, { status: 201 });
+
+  } catch (error) {
+    console.error('API Error:', error);
+
+    if (error instanceof AuthError) {
+      const { status, body, headers } = describeGenerationError(error);
+      return NextResponse.json(body, { status, headers });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save template' },
+      { status: 500 }
+    );
+  }
+}
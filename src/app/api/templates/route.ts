@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_TEAM,
+  isTeamName,
+  resolveTemplate,
+  TEMPLATE_VARIABLE_DESCRIPTIONS,
+  TEMPLATE_VARIABLES,
+} from '@/lib/templates';
+import { ARTIFACT_TYPES } from '@/lib/types';
+
+// The template each artifact type currently resolves to for a team
+export async function GET(request: NextRequest) {
+  try {
+    const team = request.nextUrl.searchParams.get('team') || DEFAULT_TEAM;
+
+    if (!isTeamName(team)) {
+      return NextResponse.json(
+        { error: 'team must be lowercase letters, digits and dashes (at most 40 characters)' },
+        { status: 400 }
+      );
+    }
+
+    const templates = await Promise.all(ARTIFACT_TYPES.map(type => resolveTemplate(type, team)));
+    return NextResponse.json({
+      team,
+      templates,
+      variables: TEMPLATE_VARIABLES.map(name => ({ name, description: TEMPLATE_VARIABLE_DESCRIPTIONS[name] })),
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list templates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ChangeStatus, diffHandoffs, DiffSide, findEarlierHandoff, ItemDiff } from '@/lib/handoff-diff';
+import { getHandoffStore } from '@/lib/store';
+import { ArtifactType } from '@/lib/types';
+
+const LABELS: Record<ArtifactType, string> = {
+  summary: 'Summary',
+  readme: 'README.md',
+  cursor: 'Cursor Context',
+  update: 'Updated Handoff',
+};
+
+const STYLES: Record<ChangeStatus, { marker: string; border: string; item: string }> = {
+  added: { marker: '+', border: 'border-green-500/40', item: 'bg-green-900/30 border-green-500/40 text-green-100' },
+  removed: { marker: '−', border: 'border-red-500/40', item: 'bg-red-900/30 border-red-500/40 text-red-200 line-through decoration-red-400/60' },
+  changed: { marker: '~', border: 'border-yellow-500/40', item: 'bg-yellow-900/30 border-yellow-500/40 text-yellow-100' },
+  unchanged: { marker: ' ', border: 'border-gray-600/50', item: 'border-transparent text-gray-400' },
+};
+
+const describe = (side: DiffSide) =>
+  `${LABELS[side.type] ?? side.type} · ${new Date(side.createdAt).toLocaleString('en-US', { timeZone: 'UTC' })} UTC · ${side.model}`;
+
+const renderItem = (item: ItemDiff, key: number) => (
+  <div key={key} className={`border-l-2 rounded px-3 py-1 ${STYLES[item.status].item}`}>
+    {item.previousText && (
+      <pre className="text-xs text-gray-500 line-through whitespace-pre-wrap font-mono mb-1">{item.previousText}</pre>
+    )}
+    <pre className="text-sm whitespace-pre-wrap font-mono">
+      <span className="select-none mr-2 opacity-60">{STYLES[item.status].marker}</span>
+      {item.text}
+    </pre>
+  </div>
+);
+
+export default async function HandoffDiffPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ against?: string }>;
+}) {
+  const { id } = await params;
+  const { against } = await searchParams;
+  const store = getHandoffStore();
+
+  const handoff = await store.get(id);
+  if (!handoff) {
+    notFound();
+  }
+  const earlier = against ? await store.get(against) : await findEarlierHandoff(handoff);
+  if (!earlier) {
+    notFound();
+  }
+
+  const diff = diffHandoffs(earlier, handoff);
+  const { sections: sectionStats, items: itemStats } = diff.stats;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-black via-gray-900 to-green-900 flex flex-col">
+      <div className="flex-1 px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <Link href={`/handoff/${handoff.id}`} className="text-green-400 hover:text-green-300 font-mono tracking-wider">
+            ← {handoff.title || LABELS[handoff.type]}
+          </Link>
+
+          <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur space-y-4">
+            <h1 className="text-2xl font-semibold text-white flex items-center space-x-3">
+              <span>🔀</span>
+              <span className="text-green-400">What changed</span>
+            </h1>
+            <div className="text-sm text-gray-400 space-y-1">
+              <p>
+                <span className="text-red-300 font-mono mr-2">−</span>
+                <Link href={`/handoff/${earlier.id}`} className="text-green-400 hover:text-green-300">{describe(diff.from)}</Link>
+              </p>
+              <p>
+                <span className="text-green-300 font-mono mr-2">+</span>
+                <Link href={`/handoff/${handoff.id}`} className="text-green-400 hover:text-green-300">{describe(diff.to)}</Link>
+              </p>
+              <p>
+                {itemStats.added} item(s) added, {itemStats.removed} removed, {itemStats.changed} changed
+                {' '}across {diff.sections.filter(section => section.status !== 'unchanged').length} of {diff.sections.length} section(s)
+                {(sectionStats.added > 0 || sectionStats.removed > 0) &&
+                  ` · ${sectionStats.added} new and ${sectionStats.removed} dropped section(s)`}
+              </p>
+            </div>
+
+            {diff.sections.map((section, index) => (
+              <details
+                key={index}
+                open={section.status !== 'unchanged'}
+                className={`bg-black/50 border rounded-xl p-4 ${STYLES[section.status].border}`}
+              >
+                <summary className="cursor-pointer text-white font-semibold">
+                  <span className="font-mono mr-2 opacity-60">{STYLES[section.status].marker}</span>
+                  {section.heading || 'Introduction'}
+                  {section.previousHeading && (
+                    <span className="text-xs text-gray-500 font-normal ml-2">was “{section.previousHeading}”</span>
+                  )}
+                  {section.status === 'unchanged' && <span className="text-xs text-gray-500 font-normal ml-2">unchanged</span>}
+                </summary>
+                <div className="mt-3 space-y-1">
+                  {section.items.map(renderItem)}
+                </div>
+              </details>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
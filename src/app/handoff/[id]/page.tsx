@@ -0,0 +1,112 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import CopyButton from '@/components/CopyButton';
+import { getHandoffStore } from '@/lib/store';
+import { ArtifactType } from '@/lib/types';
+
+// Other generations linked for comparison
+const MAX_GENERATIONS = 10;
+
+const TITLES: Record<ArtifactType, { icon: string; label: string; color: string }> = {
+  summary: { icon: '📊', label: 'Summary', color: 'text-green-400' },
+  readme: { icon: '📄', label: 'README.md', color: 'text-blue-400' },
+  cursor: { icon: '🔄', label: 'Cursor Context', color: 'text-purple-400' },
+  update: { icon: '🔁', label: 'Updated Handoff', color: 'text-amber-400' },
+};
+
+export default async function HandoffPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const store = getHandoffStore();
+  const handoff = await store.get(id);
+
+  if (!handoff) {
+    notFound();
+  }
+  const { handoffs: generations } = await store.list({ generationsOf: handoff, limit: MAX_GENERATIONS });
+
+  const title = TITLES[handoff.type] ?? TITLES.readme;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-black via-gray-900 to-green-900 flex flex-col">
+      <div className="flex-1 px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <Link href="/" className="text-green-400 hover:text-green-300 font-mono tracking-wider">
+            ← Handoff.ai
+          </Link>
+
+          <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur">
+            <h1 className="text-2xl font-semibold text-white mb-2 flex items-center justify-between">
+              <span className="flex items-center space-x-3">
+                <span>{title.icon}</span>
+                <span className={title.color}>{handoff.title || title.label}</span>
+              </span>
+              <CopyButton text={handoff.output} />
+            </h1>
+            <p className="text-sm text-gray-400 mb-4">
+              {title.label} · generated {new Date(handoff.createdAt).toLocaleString('en-US', { timeZone: 'UTC' })} UTC
+              {' '}with <span className="font-mono">{handoff.model}</span>
+              {handoff.inputs.codeFiles.length > 0 && ` · ${handoff.inputs.codeFiles.length} code file(s)`}
+              {handoff.previousId && (
+                <>
+                  {' · revises '}
+                  <Link href={`/handoff/${handoff.previousId}`} className="text-green-400 hover:text-green-300">
+                    the previous handoff
+                  </Link>
+                  {' ('}
+                  <Link href={`/handoff/${handoff.id}/diff?against=${handoff.previousId}`} className="text-green-400 hover:text-green-300">
+                    what changed
+                  </Link>
+                  {')'}
+                </>
+              )}
+              {handoff.editedFrom && (
+                <>
+                  {' · edited from '}
+                  <Link href={`/handoff/${handoff.editedFrom}`} className="text-green-400 hover:text-green-300">
+                    an earlier version
+                  </Link>
+                  {' ('}
+                  <Link href={`/handoff/${handoff.id}/diff?against=${handoff.editedFrom}`} className="text-green-400 hover:text-green-300">
+                    what changed
+                  </Link>
+                  {')'}
+                </>
+              )}
+            </p>
+            {generations.length > 0 && (
+              <p className="text-sm text-gray-400 mb-4">
+                🔀 Compare with the generation from{' '}
+                {generations.map((generation, index) => (
+                  <span key={generation.id}>
+                    {index > 0 && ', '}
+                    <Link href={`/handoff/${handoff.id}/diff?against=${generation.id}`} className="text-green-400 hover:text-green-300">
+                      {new Date(generation.createdAt).toLocaleString('en-US', { timeZone: 'UTC' })} UTC ({generation.model})
+                    </Link>
+                  </span>
+                ))}
+              </p>
+            )}
+            {handoff.publications && handoff.publications.length > 0 && (
+              <p className="text-sm text-gray-400 mb-4">
+                Published to{' '}
+                {handoff.publications.map((publication, index) => (
+                  <span key={publication.publishedAt}>
+                    {index > 0 && ', '}
+                    <a href={publication.url} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:text-green-300 break-all">
+                      {publication.target}
+                    </a>
+                  </span>
+                ))}
+              </p>
+            )}
+            <div className="bg-black/50 border border-gray-600/50 rounded-xl p-4 backdrop-blur">
+              <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono">
+                {handoff.output}
+              </pre>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
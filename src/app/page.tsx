@@ -1,60 +1,179 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import AskPanel from '@/components/AskPanel';
+import PublishPanel, { PublisherOption } from '@/components/PublishPanel';
+import ResultEditor from '@/components/ResultEditor';
+import { isArchive, isCodeFile, isIgnoredPath } from '@/lib/code-files';
+import { EXPORT_TARGETS, ExportTarget, exportTargetLabel, renderExports } from '@/lib/export-targets';
+import { buildHandoffZip } from '@/lib/handoff-package';
+import type { JobProgress, JobView } from '@/lib/jobs/types';
+import { RedactionReport } from '@/lib/redaction';
+import { StructuredHandoff } from '@/lib/structured-handoff';
+import {
+  ArtifactType,
+  artifactTypesOf,
+  CacheMode,
+  CodeArchive,
+  CodeFile,
+  GenerationType,
+  RESULT_FIELDS,
+  SummaryResponse,
+} from '@/lib/types';
+import type { QualityReport } from '@/lib/verification';
 
-type GenerationType = 'summary' | 'cursor' | 'readme';
+type FileRole = 'chat' | 'code' | 'history' | 'archive';
+
+// A share link or bare id refers to a stored handoff; anything else is the handoff's text
+const previousHandoffField = (value: string) => {
+  const id = value.trim().match(/^(?:\S*\/handoff\/)?([A-Za-z0-9_-]{12})\/?$/)?.[1];
+  return id ? { previousId: id } : { previous: value.trim() };
+};
+
+const JOB_STORAGE_KEY = 'handoff-job';
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal aborts
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+interface UploadedFile {
+  file: File;
+  path: string;
+  role: FileRole;
+}
 
 export default function Home() {
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingType, setLoadingType] = useState<GenerationType | null>(null);
   const [results, setResults] = useState<{
     readme?: string;
     cursorLog?: string;
     summary?: string;
+    update?: string;
   }>({});
+  // Stored handoff ids, for share links
+  const [handoffIds, setHandoffIds] = useState<Partial<Record<ArtifactType, string>>>({});
+  // The previous generation of each artifact from the same inputs, for "What changed" links
+  const [earlierIds, setEarlierIds] = useState<Partial<Record<ArtifactType, string>>>({});
+  // Assistant context files the cursor context is exported to
+  const [exportTargets, setExportTargets] = useState<ExportTarget[]>(['cursor-rules']);
+  // What the server masked before prompting, and extra patterns to mask (one regex per line)
+  const [redaction, setRedaction] = useState<RedactionReport | null>(null);
+  const [redactPatterns, setRedactPatterns] = useState('');
+  // Needed when the server requires API keys; remembered in this browser only
+  const [apiKey, setApiKey] = useState('');
+  // Template team and the {{author}} / {{ticket}} template variables
+  const [details, setDetails] = useState({ team: '', author: '', ticket: '' });
+  // The handoff an update revises: its share link, id or text
+  const [previousHandoff, setPreviousHandoff] = useState('');
+  // Ask for the cursor context as validated JSON; the typed object is kept for download
+  const [structuredMode, setStructuredMode] = useState(false);
+  const [structured, setStructured] = useState<StructuredHandoff | null>(null);
+  // Claims in each artifact that were not found in the inputs, highlighted in the output
+  const [quality, setQuality] = useState<Partial<Record<ArtifactType, QualityReport>>>({});
+  // Set when the last generation was answered from the server's cache, so it can be regenerated
+  const [cachedResult, setCachedResult] = useState<{ type: GenerationType; cachedAt: string } | null>(null);
+  // Trackers this server can publish to, and the result whose "Publish to…" form is open
+  const [publishers, setPublishers] = useState<PublisherOption[]>([]);
+  const [publishingType, setPublishingType] = useState<ArtifactType | null>(null);
+  // Each stored handoff's output, to tell unsaved edits apart; edited once edits to it have been saved
+  const [savedOutputs, setSavedOutputs] = useState<Partial<Record<ArtifactType, { output: string; edited: boolean }>>>({});
+  // Which generation each result comes from; a new one resets its editor, publish panel and the questions asked
+  const [resultRuns, setResultRuns] = useState<Partial<Record<ArtifactType, number>>>({});
   const [error, setError] = useState('');
   const [isDragOver, setIsDragOver] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeJobRef = useRef<string | null>(null);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+
+  useEffect(() => {
+    setApiKey(localStorage.getItem('handoff-api-key') || '');
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/publishers')
+      .then(response => response.ok ? response.json() : { publishers: [] })
+      .then(data => setPublishers(data.publishers))
+      .catch(() => setPublishers([]));
+  }, []);
+
+  const updateApiKey = (value: string) => {
+    setApiKey(value);
+    if (value) {
+      localStorage.setItem('handoff-api-key', value);
+    } else {
+      localStorage.removeItem('handoff-api-key');
+    }
+  };
 
-  const acceptedFileTypes = ['.md', '.txt', '.js', '.ts'];
-  const acceptedMimeTypes = ['text/markdown', 'text/plain', 'text/javascript', 'application/javascript'];
+  // Chat exports: Cursor/Claude markdown, plain text, or Claude/ChatGPT conversations.json
+  const chatFileTypes = ['.md', '.txt', '.json'];
+  // Unified diffs, `git format-patch` and `git log -p` output
+  const historyFileTypes = ['.diff', '.patch'];
+  // Clicking a file's badge cycles through these roles
+  const roleCycle: FileRole[] = ['chat', 'code', 'history'];
 
   const getLoadingText = (type: GenerationType) => {
     switch (type) {
       case 'summary': return 'Generating summary...';
       case 'cursor': return 'Generating cursor context...';
       case 'readme': return 'Generating README...';
+      case 'package': return 'Generating handoff package...';
+      case 'update': return 'Updating handoff...';
       default: return 'Generating...';
     }
   };
 
-  const isValidFile = (file: File) => {
-    const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-    return acceptedFileTypes.includes(extension) || acceptedMimeTypes.includes(file.type);
-  };
+  const getExtension = (name: string) => '.' + name.split('.').pop()?.toLowerCase();
 
-  const hasRequiredFiles = () => {
-    const hasMarkdown = uploadedFiles.some(f => {
-      const ext = '.' + f.name.split('.').pop()?.toLowerCase();
-      return ['.md', '.txt'].includes(ext);
-    });
-    const hasCode = uploadedFiles.some(f => {
-      const ext = '.' + f.name.split('.').pop()?.toLowerCase();
-      return ['.js', '.ts'].includes(ext);
-    });
-    return hasMarkdown && hasCode;
-  };
+  const isValidFile = (file: File) =>
+    chatFileTypes.includes(getExtension(file.name)) || historyFileTypes.includes(getExtension(file.name)) ||
+    isCodeFile(file.name) || isArchive(file.name);
+
+  const hasChatFile = () => uploadedFiles.some(f => f.role === 'chat');
+  const hasCodeFiles = () => uploadedFiles.some(f => f.role === 'code' || f.role === 'archive');
+  const hasRequiredFiles = () => hasChatFile() && hasCodeFiles();
 
-  const handleFileSelect = (files: FileList | File[]) => {
+  // Chat-looking files default to CHAT until one is present; folder uploads are always code
+  const handleFileSelect = (files: FileList | File[], fromFolder = false) => {
     const fileArray = Array.from(files);
-    const validFiles = fileArray.filter(isValidFile);
-    
-    if (validFiles.length !== fileArray.length) {
-      setError('Some files were rejected. Please upload only .md, .txt, .js, or .ts files.');
+    const validFiles = fileArray.filter(file => isValidFile(file) && !isIgnoredPath(file.webkitRelativePath || file.name));
+
+    if (!fromFolder && validFiles.length !== fileArray.length) {
+      setError('Some files were rejected. Please upload chat exports (.md, .txt, .json), source files, git history (.diff, .patch), or a .zip/.tar.gz archive.');
       setTimeout(() => setError(''), 3000);
     }
-    
-    setUploadedFiles(prev => [...prev, ...validFiles]);
+
+    setUploadedFiles(prev => {
+      let chatAssigned = prev.some(f => f.role === 'chat');
+      const added = validFiles.map(file => {
+        let role: FileRole = 'code';
+        if (isArchive(file.name)) {
+          role = 'archive';
+        } else if (historyFileTypes.includes(getExtension(file.name))) {
+          role = 'history';
+        } else if (!fromFolder && !chatAssigned && chatFileTypes.includes(getExtension(file.name))) {
+          role = 'chat';
+          chatAssigned = true;
+        }
+        return { file, path: file.webkitRelativePath || file.name, role };
+      });
+      return [...prev, ...added];
+    });
+  };
+
+  const toggleFileRole = (index: number) => {
+    setUploadedFiles(prev => prev.map((f, i) =>
+      i === index && f.role !== 'archive' ? { ...f, role: roleCycle[(roleCycle.indexOf(f.role) + 1) % roleCycle.length] } : f
+    ));
   };
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -87,48 +206,210 @@ export default function Home() {
     });
   };
 
-  const generateContent = async (type: GenerationType) => {
-    if (!hasRequiredFiles()) {
-      setError('Please upload at least one chat file (.md or .txt) and one code file (.js or .ts).');
-      return;
+  const readFileBase64 = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      // Data URL: "data:<mime>;base64,<payload>"
+      reader.onload = (e) => resolve((e.target?.result as string).split(',')[1] || '');
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+  };
+
+  const applyResult = useCallback((data: SummaryResponse, type: GenerationType) => {
+    const artifactTypes = artifactTypesOf(type);
+    setResults(prev => ({
+      ...prev,
+      ...Object.fromEntries(artifactTypes.map(artifactType => [RESULT_FIELDS[artifactType], data[RESULT_FIELDS[artifactType]]])),
+    }));
+    const ids: Partial<Record<ArtifactType, string>> = (type === 'package' ? data.ids : { [type]: data.id }) ?? {};
+    setHandoffIds(prev => ({ ...prev, ...ids }));
+    setSavedOutputs(prev => ({
+      ...prev,
+      ...Object.fromEntries(artifactTypes.map(artifactType => [
+        artifactType,
+        ids[artifactType] ? { output: data[RESULT_FIELDS[artifactType]] ?? '', edited: false } : undefined,
+      ])),
+    }));
+    setEarlierIds(prev => ({ ...prev, ...Object.fromEntries(artifactTypes.map(artifactType => [artifactType, undefined])) }));
+    for (const [artifactType, id] of Object.entries(ids)) {
+      if (!id) continue;
+      fetch(`/api/handoffs/${id}/generations?limit=1`)
+        .then(response => response.ok ? response.json() : null)
+        .then(generations => {
+          const earlier = generations?.handoffs[0]?.id;
+          if (earlier) setEarlierIds(prev => ({ ...prev, [artifactType]: earlier }));
+        })
+        .catch(() => undefined);
     }
+    setRedaction(data.redaction ?? null);
+    setCachedResult(data.cached ? { type, cachedAt: data.cachedAt! } : null);
+    setPublishingType(null);
+    setResultRuns(prev => {
+      const run = Math.max(0, ...Object.values(prev)) + 1;
+      return { ...prev, ...Object.fromEntries(artifactTypes.map(artifactType => [artifactType, run])) };
+    });
+    if (artifactTypes.includes('cursor')) {
+      setStructured(data.structured ?? null);
+    }
+    setQuality(prev => ({
+      ...prev,
+      ...Object.fromEntries(artifactTypes.map(artifactType => [artifactType, data.quality?.[artifactType]])),
+    }));
+  }, []);
 
+  // Polls a generation job until it finishes, rendering partial output as it arrives. The job id is kept in
+  // localStorage so a closed or reloaded tab picks the job up again instead of losing the result.
+  const followJob = useCallback(async (id: string, type: GenerationType) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    activeJobRef.current = id;
+    localStorage.setItem(JOB_STORAGE_KEY, JSON.stringify({ id, type }));
     setIsLoading(true);
     setLoadingType(type);
-    setError('');
+    setJobProgress(null);
+
+    const artifactTypes = artifactTypesOf(type);
+    let started = false;
 
     try {
-      // Find the first markdown/txt file
-      const markdownFile = uploadedFiles.find(f => {
-        const ext = '.' + f.name.split('.').pop()?.toLowerCase();
-        return ['.md', '.txt'].includes(ext);
-      });
+      for (;;) {
+        const response = await fetch(`/api/jobs/${id}`, { signal: controller.signal, cache: 'no-store' });
+        if (response.status === 404) {
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          throw new Error('The generation job has expired. Please generate again.');
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
 
-      // Find the first js/ts file
-      const codeFile = uploadedFiles.find(f => {
-        const ext = '.' + f.name.split('.').pop()?.toLowerCase();
-        return ['.js', '.ts'].includes(ext);
-      });
+        const job: JobView = await response.json();
+        if (job.status !== 'queued' && job.status !== 'running') {
+          localStorage.removeItem(JOB_STORAGE_KEY);
+        }
+
+        if (job.status === 'succeeded') {
+          applyResult(job.result!, type);
+          return;
+        }
+        if (job.status === 'failed') {
+          throw new Error(job.error?.error || 'Generation failed');
+        }
+        if (job.status === 'cancelled') {
+          setError('Generation cancelled.');
+          return;
+        }
+
+        setJobProgress(job.progress);
+        // Render the documents progressively; a package generates its artifacts in turn
+        if (job.partial && Object.keys(job.partial).length) {
+          const partial = job.partial;
+          setResults(prev => ({
+            ...prev,
+            ...(!started && Object.fromEntries(artifactTypes.map(artifactType => [RESULT_FIELDS[artifactType], '']))),
+            ...Object.fromEntries(
+              (Object.keys(partial) as ArtifactType[]).map(artifactType => [RESULT_FIELDS[artifactType], partial[artifactType]])
+            ),
+          }));
+          if (!started) {
+            const cleared = Object.fromEntries(artifactTypes.map(artifactType => [artifactType, undefined]));
+            setQuality(prev => ({ ...prev, ...cleared }));
+            // Partial output is not an edit of the stored handoff
+            setSavedOutputs(prev => ({ ...prev, ...cleared }));
+          }
+          started = true;
+        }
 
-      if (!markdownFile || !codeFile) {
-        throw new Error('Required file types not found');
+        await wait(JOB_POLL_INTERVAL_MS, controller.signal);
       }
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        localStorage.removeItem(JOB_STORAGE_KEY);
+        setError('Generation cancelled.');
+      } else if (err instanceof TypeError) {
+        // The job keeps running on the server: a reload resumes it
+        setError('Lost connection while waiting for the generation. Reload the page to resume.');
+      } else {
+        console.error('Error:', err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      activeJobRef.current = null;
+      setJobProgress(null);
+      setIsLoading(false);
+      setLoadingType(null);
+    }
+  }, [applyResult]);
+
+  // Resume a job that was still running when the page was last closed
+  useEffect(() => {
+    const saved = localStorage.getItem(JOB_STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const { id, type } = JSON.parse(saved);
+      followJob(id, type);
+    } catch {
+      localStorage.removeItem(JOB_STORAGE_KEY);
+    }
+  }, [followJob]);
+
+  const generateContent = async (type: GenerationType, cacheMode: CacheMode = 'default') => {
+    // An update may cover a session that changed no code
+    if (type === 'update' ? !hasChatFile() : !hasRequiredFiles()) {
+      setError(type === 'update'
+        ? 'Please upload the chat file (.md, .txt or .json) of the session since the previous handoff.'
+        : 'Please upload at least one chat file (.md, .txt or .json) and at least one code file or archive.');
+      return;
+    }
+
+    const archives = uploadedFiles.filter(f => f.role === 'archive');
+    if (archives.length > 1) {
+      setError('Please upload a single archive per handoff.');
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadingType(type);
+    setError('');
+    setCachedResult(null);
 
+    try {
       // Read file contents
-      const [markdownContent, codeContent] = await Promise.all([
-        readFileContent(markdownFile),
-        readFileContent(codeFile)
+      const chatFiles = uploadedFiles.filter(f => f.role === 'chat');
+      const codeFiles = uploadedFiles.filter(f => f.role === 'code');
+      const historyFiles = uploadedFiles.filter(f => f.role === 'history');
+      const [chatContents, historyContents, files, archive] = await Promise.all([
+        Promise.all(chatFiles.map(f => readFileContent(f.file))),
+        Promise.all(historyFiles.map(f => readFileContent(f.file))),
+        Promise.all(codeFiles.map(async (f): Promise<CodeFile> => ({ path: f.path, content: await readFileContent(f.file) }))),
+        archives.length
+          ? readFileBase64(archives[0].file).then((data): CodeArchive => ({ name: archives[0].file.name, data }))
+          : Promise.resolve(undefined),
       ]);
 
-      const response = await fetch('/api/summary', {
+      // Queue the generation as a job so it keeps running if the tab is closed
+      const response = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(apiKey.trim() && { Authorization: `Bearer ${apiKey.trim()}` }),
         },
         body: JSON.stringify({
-          markdown: markdownContent.trim(),
-          code: codeContent.trim(),
-          type: type // Pass the type to the backend
+          markdown: chatContents.map(content => content.trim()).join('\n\n'),
+          files,
+          archive,
+          ...(historyContents.length && { history: historyContents.join('\n') }),
+          ...(details.team.trim() && { team: details.team.trim() }),
+          ...(details.author.trim() && { author: details.author.trim() }),
+          ...(details.ticket.trim() && { ticket: details.ticket.trim() }),
+          ...(redactPatterns.trim() && {
+            redactPatterns: redactPatterns.split('\n').map(pattern => pattern.trim()).filter(Boolean),
+          }),
+          type: type, // Pass the type to the backend
+          ...(structuredMode && type === 'cursor' && { format: 'structured' }),
+          ...(cacheMode === 'bypass' && { cache: 'bypass' }),
+          ...(type === 'update' && previousHandoffField(previousHandoff)),
         }),
       });
 
@@ -137,29 +418,161 @@ export default function Home() {
         throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json();
-      
-      // Update results based on type
-      setResults(prev => ({
-        ...prev,
-        ...(type === 'summary' && { summary: data.summary }),
-        ...(type === 'readme' && { readme: data.readme }),
-        ...(type === 'cursor' && { cursorLog: data.cursorLog })
-      }));
-      
+      const job: JobView = await response.json();
+      await followJob(job.id, type);
+
     } catch (err) {
       console.error('Error:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
-    } finally {
       setIsLoading(false);
       setLoadingType(null);
     }
   };
 
+  const cancelGeneration = () => {
+    const job = activeJobRef.current;
+    if (job) {
+      fetch(`/api/jobs/${job}`, { method: 'DELETE' }).catch(() => undefined);
+    }
+    abortControllerRef.current?.abort();
+  };
+
+  // The most detailed stored handoff answers best; they all share the same sources
+  const askHandoffId = handoffIds.update ?? handoffIds.readme ?? handoffIds.cursor ?? handoffIds.summary;
+  const latestRun = Math.max(0, ...Object.values(resultRuns));
+
+  const setResultText = (type: ArtifactType, text: string) => {
+    setResults(prev => ({ ...prev, [RESULT_FIELDS[type]]: text }));
+  };
+
+  const hasUnsavedEdits = (type: ArtifactType) => {
+    const saved = savedOutputs[type];
+    return Boolean(handoffIds[type] && saved && results[RESULT_FIELDS[type]] !== saved.output);
+  };
+
+  // Saved edits are a new stored handoff: the share link, publishing and questions switch to it
+  const applySavedEdits = (type: ArtifactType, id: string, text: string) => {
+    // "What changed" then compares the edits with the version they were made to
+    setEarlierIds(prev => ({ ...prev, [type]: handoffIds[type] }));
+    setHandoffIds(prev => ({ ...prev, [type]: id }));
+    setSavedOutputs(prev => ({ ...prev, [type]: { output: text, edited: true } }));
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
 
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleExportTarget = (target: ExportTarget) => {
+    setExportTargets(prev => prev.includes(target)
+      ? prev.filter(t => t !== target)
+      : EXPORT_TARGETS.filter(t => t === target || prev.includes(t)));
+  };
+
+  // Rendered on the client so changing the selection does not need another generation
+  const exportedFiles = results.cursorLog && !(isLoading && (loadingType === 'cursor' || loadingType === 'package'))
+    ? renderExports(exportTargets, results.cursorLog, {
+        ...(handoffIds.cursor && { url: `${window.location.origin}/handoff/${handoffIds.cursor}` }),
+      })
+    : [];
+
+  const downloadPackage = () => {
+    downloadBlob(new Blob([buildHandoffZip(results, exportedFiles)], { type: 'application/zip' }), 'handoff-package.zip');
+  };
+
+  const renderShareButton = (type: ArtifactType) => handoffIds[type] && (
+    <button
+      onClick={() => copyToClipboard(`${window.location.origin}/handoff/${handoffIds[type]}`)}
+      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+    >
+      🔗 Copy link
+    </button>
+  );
+
+  const renderCompareLink = (type: ArtifactType) => handoffIds[type] && earlierIds[type] && (
+    <a
+      href={`/handoff/${handoffIds[type]}/diff?against=${earlierIds[type]}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+    >
+      🔀 What changed
+    </a>
+  );
+
+  const renderPublishButton = (type: ArtifactType) => handoffIds[type] && publishers.length > 0 && (
+    <button
+      onClick={() => setPublishingType(publishingType === type ? null : type)}
+      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+    >
+      📤 Publish to…
+    </button>
+  );
+
+  const renderPublishPanel = (type: ArtifactType) => handoffIds[type] && (
+    <PublishPanel
+      key={resultRuns[type]}
+      handoffId={handoffIds[type]!}
+      publishers={publishers}
+      apiKey={apiKey}
+      open={publishingType === type}
+      onClose={() => setPublishingType(null)}
+    />
+  );
+
+  // The result as edited in this browser; the claim check and share link refer to the stored version
+  const renderResultEditor = (type: ArtifactType) => (
+    <ResultEditor
+      key={resultRuns[type]}
+      type={type}
+      text={results[RESULT_FIELDS[type]] ?? ''}
+      onChange={text => setResultText(type, text)}
+      handoffId={handoffIds[type]}
+      savedText={savedOutputs[type]?.output}
+      onSaved={(id, text) => applySavedEdits(type, id, text)}
+      unsupported={quality[type]?.unsupported}
+      apiKey={apiKey}
+    />
+  );
+
+  const renderQualityReport = (type: ArtifactType) => {
+    const report = quality[type];
+    if (!report) return null;
+    const unmentioned = report.coverage?.unmentioned ?? [];
+
+    return (
+      <div className="mt-3 text-sm text-gray-400 space-y-1">
+        <p>
+          {report.unsupported.length
+            ? <span className="text-amber-300">⚠ {report.unsupported.length} of {report.checkedClaims} checked claims not found in the inputs (highlighted)</span>
+            : <span className="text-green-400">✓ All {report.checkedClaims} checked claims found in the inputs</span>}
+          {report.coverage && ` · ${report.coverage.mentioned} of ${report.coverage.turns} key turns mentioned`}
+          {(savedOutputs[type]?.edited || hasUnsavedEdits(type)) && ' · checked as generated, before your edits'}
+        </p>
+        {unmentioned.length > 0 && (
+          <details>
+            <summary className="cursor-pointer hover:text-gray-200">Turns never mentioned</summary>
+            <ul className="mt-1 space-y-1">
+              {unmentioned.map(turn => (
+                <li key={turn.index}>
+                  <span className="font-mono text-gray-300">[#{turn.index}]</span> {turn.role}: {turn.preview}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-black via-gray-900 to-green-900 flex flex-col">
       <div className="flex-1 flex flex-col items-center justify-center px-4 py-8">
@@ -231,11 +644,18 @@ export default function Home() {
             <input
               type="file"
               multiple
-              accept=".md,.txt,.js,.ts"
               onChange={(e) => e.target.files && handleFileSelect(e.target.files)}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               id="file-upload"
             />
+            <input
+              type="file"
+              multiple
+              {...{ webkitdirectory: '' }}
+              onChange={(e) => e.target.files && handleFileSelect(e.target.files, true)}
+              className="hidden"
+              id="folder-upload"
+            />
             
             <div className="text-center">
               <div className="flex items-center justify-center space-x-3 mb-4">
@@ -247,68 +667,98 @@ export default function Home() {
                 </span>
               </div>
               <p className="text-gray-400 text-lg">
-                Supports .md, .txt (chat logs) and .js, .ts (code files)
+                Supports .md, .txt, .json (chat exports), source files in any language, .zip / .tar.gz project archives, and .diff / .patch git history
               </p>
+              <label
+                htmlFor="folder-upload"
+                className="relative inline-block mt-3 text-sm text-green-400 hover:text-green-300 underline cursor-pointer"
+              >
+                or upload a whole project folder
+              </label>
             </div>
 
             {/* Uploaded Files */}
             {uploadedFiles.length > 0 && (
-              <div className="mt-6 space-y-2">
-                {uploadedFiles.map((file, index) => {
-                  const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-                  const isChat = ['.md', '.txt'].includes(extension);
-                  const isCode = ['.js', '.ts'].includes(extension);
-                  
-                  return (
-                    <div key={index} className="flex items-center justify-between bg-gray-700/50 border border-gray-600 rounded-lg p-3">
-                      <div className="flex items-center space-x-3">
-                        <span className={`text-xs px-3 py-1 rounded-full font-medium ${
-                          isChat ? 'bg-blue-600/20 text-blue-300 border border-blue-500/30' :
-                          isCode ? 'bg-green-600/20 text-green-300 border border-green-500/30' :
-                          'bg-gray-600/20 text-gray-300 border border-gray-500/30'
-                        }`}>
-                          {isChat ? 'CHAT' : isCode ? 'CODE' : 'FILE'}
-                        </span>
-                        <span className="text-white font-medium">{file.name}</span>
-                        <span className="text-gray-400 text-sm">({(file.size / 1024).toFixed(1)} KB)</span>
-                      </div>
+              <div className="relative mt-6 space-y-2 max-h-80 overflow-y-auto">
+                {uploadedFiles.map(({ file, path, role }, index) => (
+                  <div key={index} className="flex items-center justify-between bg-gray-700/50 border border-gray-600 rounded-lg p-3">
+                    <div className="flex items-center space-x-3 min-w-0">
                       <button
                         type="button"
-                        onClick={() => removeFile(index)}
-                        className="text-red-400 hover:text-red-300 transition-colors p-1 rounded-full hover:bg-red-500/10"
+                        onClick={() => toggleFileRole(index)}
+                        disabled={role === 'archive'}
+                        title={role === 'archive' ? undefined : 'Click to switch between chat, code and git history'}
+                        className={`text-xs px-3 py-1 rounded-full font-medium ${
+                          role === 'chat' ? 'bg-blue-600/20 text-blue-300 border border-blue-500/30' :
+                          role === 'code' ? 'bg-green-600/20 text-green-300 border border-green-500/30' :
+                          role === 'history' ? 'bg-amber-600/20 text-amber-300 border border-amber-500/30' :
+                          'bg-gray-600/20 text-gray-300 border border-gray-500/30'
+                        }`}
                       >
-                        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
-                        </svg>
+                        {role === 'chat' ? 'CHAT' : role === 'code' ? 'CODE' : role === 'history' ? 'HISTORY' : 'ARCHIVE'}
                       </button>
+                      <span className="text-white font-medium truncate">{path}</span>
+                      <span className="text-gray-400 text-sm">({(file.size / 1024).toFixed(1)} KB)</span>
                     </div>
-                  );
-                })}
+                    <button
+                      type="button"
+                      onClick={() => removeFile(index)}
+                      className="text-red-400 hover:text-red-300 transition-colors p-1 rounded-full hover:bg-red-500/10"
+                    >
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
               </div>
             )}
 
             {/* Requirements Status */}
             <div className="mt-6 flex items-center justify-center space-x-8 text-sm">
               <div className={`flex items-center space-x-2 ${
-                uploadedFiles.some(f => ['.md', '.txt'].includes('.' + f.name.split('.').pop()?.toLowerCase()))
-                  ? 'text-green-400' : 'text-gray-500'
+                hasChatFile() ? 'text-green-400' : 'text-gray-500'
               }`}>
                 <span>📝</span>
                 <span>Chat file</span>
-                {uploadedFiles.some(f => ['.md', '.txt'].includes('.' + f.name.split('.').pop()?.toLowerCase())) && <span>✓</span>}
+                {hasChatFile() && <span>✓</span>}
               </div>
               <div className={`flex items-center space-x-2 ${
-                uploadedFiles.some(f => ['.js', '.ts'].includes('.' + f.name.split('.').pop()?.toLowerCase()))
-                  ? 'text-green-400' : 'text-gray-500'
+                hasCodeFiles() ? 'text-green-400' : 'text-gray-500'
               }`}>
                 <span>💻</span>
-                <span>Code file</span>
-                {uploadedFiles.some(f => ['.js', '.ts'].includes('.' + f.name.split('.').pop()?.toLowerCase())) && <span>✓</span>}
+                <span>Code files</span>
+                {hasCodeFiles() && <span>✓</span>}
+              </div>
+              <div className={`flex items-center space-x-2 ${
+                uploadedFiles.some(f => f.role === 'history') ? 'text-green-400' : 'text-gray-500'
+              }`}>
+                <span>🕓</span>
+                <span>Git history (optional)</span>
+                {uploadedFiles.some(f => f.role === 'history') && <span>✓</span>}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Handoff Details */}
+        <div className="w-full max-w-3xl mb-6 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          {([
+            ['author', 'Your name'],
+            ['ticket', 'Ticket, e.g. PROJ-123'],
+            ['team', 'Template team (optional)'],
+          ] as const).map(([field, placeholder]) => (
+            <input
+              key={field}
+              value={details[field]}
+              onChange={(e) => setDetails(prev => ({ ...prev, [field]: field === 'team' ? e.target.value.toLowerCase() : e.target.value }))}
+              placeholder={placeholder}
+              maxLength={200}
+              className="bg-gray-800/50 border border-gray-600/50 rounded-xl px-4 py-2 text-gray-200 placeholder-gray-500 focus:outline-none focus:border-green-500/50 backdrop-blur"
+            />
+          ))}
+        </div>
+
         {/* Action Buttons */}
         <div className="flex flex-wrap items-center justify-center gap-4 mb-8">
           <button
@@ -373,8 +823,116 @@ export default function Home() {
               </React.Fragment>
             )}
           </button>
+
+          <button
+            onClick={() => generateContent('package')}
+            disabled={isLoading || !hasRequiredFiles()}
+            className="bg-green-900/40 hover:bg-green-800/50 disabled:bg-gray-800/40 text-white font-medium py-3 px-6 rounded-xl transition-all duration-200 flex items-center space-x-2 border border-green-500/40 hover:border-green-400/60 backdrop-blur"
+          >
+            {isLoading && loadingType === 'package' ? (
+              <React.Fragment>
+                <svg className="animate-spin h-5 w-5 text-green-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <span>{getLoadingText('package')}</span>
+              </React.Fragment>
+            ) : (
+              <React.Fragment>
+                <span>📦</span>
+                <span>Full Package</span>
+              </React.Fragment>
+            )}
+          </button>
+
+          {isLoading && (
+            <button
+              onClick={cancelGeneration}
+              className="bg-red-900/30 hover:bg-red-800/40 text-red-200 font-medium py-3 px-6 rounded-xl transition-all duration-200 flex items-center space-x-2 border border-red-500/30 hover:border-red-400/50 backdrop-blur"
+            >
+              <span>⏹</span>
+              <span>Cancel</span>
+            </button>
+          )}
         </div>
 
+        {/* Job Progress */}
+        {jobProgress && (
+          <p className="w-full max-w-3xl mb-4 text-sm text-gray-400">
+            {jobProgress.stage === 'queued' && 'Queued, waiting for a free worker…'}
+            {jobProgress.stage === 'preparing' && 'Preparing the conversation and code…'}
+            {jobProgress.stage === 'generating' && (
+              `Generating ${Math.min(jobProgress.completedArtifacts + 1, jobProgress.totalArtifacts)} of ${jobProgress.totalArtifacts}` +
+              ` · ${jobProgress.generatedCharacters.toLocaleString()} characters. You can close this tab and come back later.`
+            )}
+          </p>
+        )}
+
+        {/* Output Format */}
+        <label className="w-full max-w-3xl mb-4 flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={structuredMode}
+            onChange={(e) => setStructuredMode(e.target.checked)}
+            className="accent-green-500"
+          />
+          <span>Structured cursor context: validated JSON with typed TODOs and open issues (not streamed)</span>
+        </label>
+
+        {/* Update a Previous Handoff */}
+        <details className="w-full max-w-3xl mb-4 text-sm text-gray-400">
+          <summary className="cursor-pointer hover:text-gray-200">🔁 Update a previous handoff</summary>
+          <p className="mt-2">
+            Continuing from someone else&apos;s handoff? Paste its share link or its text, and upload only the chat and changed files since then. The revised handoff marks what changed, which TODOs were closed and which issues are new.
+          </p>
+          <textarea
+            value={previousHandoff}
+            onChange={(e) => setPreviousHandoff(e.target.value)}
+            placeholder="https://…/handoff/AbC123xYz_-q or the previous handoff's markdown"
+            rows={4}
+            className="mt-2 w-full bg-black/50 border border-gray-600/50 rounded-xl p-3 font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-green-500/50"
+          />
+          <button
+            onClick={() => generateContent('update')}
+            disabled={isLoading || !hasChatFile() || !previousHandoff.trim()}
+            className="mt-2 bg-amber-900/30 hover:bg-amber-800/40 disabled:bg-gray-800/40 text-white font-medium py-2 px-5 rounded-xl transition-all duration-200 flex items-center space-x-2 border border-amber-500/40 hover:border-amber-400/60 backdrop-blur"
+          >
+            <span>🔁</span>
+            <span>{isLoading && loadingType === 'update' ? getLoadingText('update') : 'Generate Update'}</span>
+          </button>
+        </details>
+
+        {/* Redaction Settings */}
+        <details className="w-full max-w-3xl mb-8 text-sm text-gray-400">
+          <summary className="cursor-pointer hover:text-gray-200">🛡 Redaction</summary>
+          <p className="mt-2">
+            API keys, tokens, private keys, passwords, emails, IP addresses, internal hostnames and other high-entropy strings are masked before anything is sent to the model. Add your own patterns below, one regular expression per line.
+          </p>
+          <textarea
+            value={redactPatterns}
+            onChange={(e) => setRedactPatterns(e.target.value)}
+            placeholder={'ACME-\\d{4}\ncustomer-[a-z]+'}
+            rows={3}
+            className="mt-2 w-full bg-black/50 border border-gray-600/50 rounded-xl p-3 font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-green-500/50"
+          />
+        </details>
+
+        {/* API Key */}
+        <details className="w-full max-w-3xl mb-8 text-sm text-gray-400">
+          <summary className="cursor-pointer hover:text-gray-200">🔑 API key</summary>
+          <p className="mt-2">
+            Required when this deployment has API keys enabled. Ask an administrator for one; it is stored in this browser only.
+          </p>
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => updateApiKey(e.target.value)}
+            placeholder="hk_..."
+            autoComplete="off"
+            className="mt-2 w-full bg-black/50 border border-gray-600/50 rounded-xl px-3 py-2 font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-green-500/50"
+          />
+        </details>
+
         {/* Error Display */}
         {error && (
           <div className="mb-8 max-w-2xl w-full">
@@ -391,9 +949,97 @@ export default function Home() {
       </div>
 
       {/* Results Display */}
-      {(results.readme || results.cursorLog || results.summary) && (
+      {(results.readme || results.cursorLog || results.summary || results.update) && (
         <div className="px-4 pb-8">
           <div className="max-w-6xl mx-auto space-y-6">
+            <div className="flex justify-end">
+              <button
+                onClick={downloadPackage}
+                disabled={isLoading}
+                className="text-sm bg-gray-700/50 hover:bg-gray-600/50 disabled:opacity-50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+              >
+                📦 Download .zip
+              </button>
+            </div>
+
+            {/* Cache Notice */}
+            {cachedResult && (
+              <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl px-6 py-4 backdrop-blur flex flex-wrap items-center justify-between gap-4">
+                <span className="text-sm text-gray-300">
+                  ⚡ Same inputs as a generation from {new Date(cachedResult.cachedAt).toLocaleString()}: served from cache.
+                </span>
+                <button
+                  onClick={() => generateContent(cachedResult.type, 'bypass')}
+                  disabled={isLoading}
+                  className="text-sm bg-gray-700/50 hover:bg-gray-600/50 disabled:opacity-50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+                >
+                  ↻ Regenerate
+                </button>
+              </div>
+            )}
+
+            {/* Redaction Report */}
+            {redaction && (
+              <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur">
+                <h2 className="text-lg font-semibold text-white mb-2 flex items-center space-x-3">
+                  <span>🛡</span>
+                  <span className="text-amber-300">
+                    {redaction.total ? `Masked ${redaction.total} sensitive value${redaction.total === 1 ? '' : 's'} before prompting` : 'Nothing needed masking'}
+                  </span>
+                </h2>
+                {redaction.findings.length > 0 && (
+                  <div className="max-h-64 overflow-y-auto">
+                    <table className="w-full text-sm text-left text-gray-300">
+                      <thead className="text-gray-500">
+                        <tr>
+                          <th className="py-1 pr-4 font-medium">Placeholder</th>
+                          <th className="py-1 pr-4 font-medium">Original</th>
+                          <th className="py-1 pr-4 font-medium">Count</th>
+                          <th className="py-1 font-medium">Found in</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {redaction.findings.map(finding => (
+                          <tr key={finding.placeholder} className="border-t border-gray-700/50">
+                            <td className="py-1 pr-4 font-mono text-amber-200">{finding.placeholder}</td>
+                            <td className="py-1 pr-4 font-mono">{finding.preview}</td>
+                            <td className="py-1 pr-4">{finding.occurrences}</td>
+                            <td className="py-1 break-all">{finding.locations.join(', ')}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Updated Handoff Section */}
+            {results.update && (
+              <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur">
+                <h2 className="text-2xl font-semibold text-white mb-4 flex items-center justify-between">
+                  <span className="flex items-center space-x-3">
+                    <span>🔁</span>
+                    <span className="text-amber-400">Updated Handoff</span>
+                  </span>
+                  <span className="flex items-center space-x-2">
+                    {renderShareButton('update')}
+                    {renderCompareLink('update')}
+                    {renderPublishButton('update')}
+                    <button
+                      onClick={() => copyToClipboard(results.update!)}
+                      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+                    >
+                      📋 Copy
+                    </button>
+                  </span>
+                </h2>
+                {renderPublishPanel('update')}
+                {renderResultEditor('update')}
+                {renderQualityReport('update')}
+              </div>
+            )}
+
             {/* Summary Section */}
             {results.summary && (
               <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur">
@@ -402,18 +1048,21 @@ export default function Home() {
                     <span>📊</span>
                     <span className="text-green-400">Summary</span>
                   </span>
-                  <button
-                    onClick={() => copyToClipboard(results.summary!)}
-                    className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
-                  >
-                    📋 Copy
-                  </button>
+                  <span className="flex items-center space-x-2">
+                    {renderShareButton('summary')}
+                    {renderCompareLink('summary')}
+                    {renderPublishButton('summary')}
+                    <button
+                      onClick={() => copyToClipboard(results.summary!)}
+                      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+                    >
+                      📋 Copy
+                    </button>
+                  </span>
                 </h2>
-                <div className="bg-black/50 border border-gray-600/50 rounded-xl p-4 max-h-96 overflow-y-auto backdrop-blur">
-                  <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono">
-                    {results.summary}
-                  </pre>
-                </div>
+                {renderPublishPanel('summary')}
+                {renderResultEditor('summary')}
+                {renderQualityReport('summary')}
               </div>
             )}
 
@@ -425,18 +1074,21 @@ export default function Home() {
                     <span>📄</span>
                     <span className="text-blue-400">README.md</span>
                   </span>
-                  <button
-                    onClick={() => copyToClipboard(results.readme!)}
-                    className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
-                  >
-                    📋 Copy
-                  </button>
+                  <span className="flex items-center space-x-2">
+                    {renderShareButton('readme')}
+                    {renderCompareLink('readme')}
+                    {renderPublishButton('readme')}
+                    <button
+                      onClick={() => copyToClipboard(results.readme!)}
+                      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+                    >
+                      📋 Copy
+                    </button>
+                  </span>
                 </h2>
-                <div className="bg-black/50 border border-gray-600/50 rounded-xl p-4 max-h-96 overflow-y-auto backdrop-blur">
-                  <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono">
-                    {results.readme}
-                  </pre>
-                </div>
+                {renderPublishPanel('readme')}
+                {renderResultEditor('readme')}
+                {renderQualityReport('readme')}
               </div>
             )}
 
@@ -448,20 +1100,85 @@ export default function Home() {
                     <span>🔄</span>
                     <span className="text-purple-400">Cursor Context</span>
                   </span>
-                  <button
-                    onClick={() => copyToClipboard(results.cursorLog!)}
-                    className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
-                  >
-                    📋 Copy
-                  </button>
+                  <span className="flex items-center space-x-2">
+                    {renderShareButton('cursor')}
+                    {renderCompareLink('cursor')}
+                    {renderPublishButton('cursor')}
+                    {structured && (
+                      <button
+                        onClick={() => downloadBlob(new Blob([JSON.stringify(structured, null, 2)], { type: 'application/json' }), 'handoff.json')}
+                        className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+                      >
+                        ⬇ JSON
+                      </button>
+                    )}
+                    <button
+                      onClick={() => copyToClipboard(results.cursorLog!)}
+                      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+                    >
+                      📋 Copy
+                    </button>
+                  </span>
                 </h2>
-                <div className="bg-black/50 border border-gray-600/50 rounded-xl p-4 max-h-96 overflow-y-auto backdrop-blur">
-                  <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono">
-                    {results.cursorLog}
-                  </pre>
+                {renderPublishPanel('cursor')}
+                {renderResultEditor('cursor')}
+                {renderQualityReport('cursor')}
+
+                {/* Export Targets */}
+                <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-400">Export for:</span>
+                  {EXPORT_TARGETS.map(target => (
+                    <button
+                      key={target}
+                      type="button"
+                      onClick={() => toggleExportTarget(target)}
+                      className={`px-3 py-1 rounded-full border transition-colors ${
+                        exportTargets.includes(target)
+                          ? 'bg-purple-600/20 text-purple-300 border-purple-500/40'
+                          : 'bg-gray-700/30 text-gray-400 border-gray-600/50 hover:text-gray-200'
+                      }`}
+                    >
+                      {exportTargetLabel(target)}
+                    </button>
+                  ))}
                 </div>
+                {exportedFiles.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {exportedFiles.map(file => (
+                      <div key={file.target} className="flex items-center justify-between bg-gray-700/30 border border-gray-600/50 rounded-lg px-3 py-2">
+                        <span className="flex items-center space-x-3 min-w-0">
+                          <span className="text-gray-200 font-mono text-sm truncate">{file.path}</span>
+                          {file.truncated && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-amber-600/20 text-amber-300 border border-amber-500/30" title="Shortened to fit this assistant's size limit">
+                              TRUNCATED
+                            </span>
+                          )}
+                        </span>
+                        <span className="flex items-center space-x-2">
+                          <button
+                            onClick={() => copyToClipboard(file.content)}
+                            className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-3 py-1 rounded-lg transition-colors"
+                          >
+                            📋 Copy
+                          </button>
+                          <button
+                            onClick={() => downloadBlob(new Blob([file.content], { type: 'text/markdown' }), file.path.split('/').pop()!)}
+                            className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-3 py-1 rounded-lg transition-colors"
+                          >
+                            ⬇ Download
+                          </button>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
+
+            {/* Ask the Previous Engineer */}
+            {askHandoffId && !isLoading && (
+              <AskPanel key={latestRun} handoffId={askHandoffId} apiKey={apiKey} />
+            )}
           </div>
         </div>
       )}
@@ -469,6 +1186,9 @@ export default function Home() {
       {/* Footer */}
       <footer className="text-center text-gray-500 text-sm py-6">
         <p>Built with Next.js, TailwindCSS, and <span className="text-green-400 font-medium">NVIDIA NIM</span> • Powered by AI</p>
+        <p className="mt-2">
+          <Link href="/settings/templates" className="hover:text-gray-300 underline">Prompt templates</Link>
+        </p>
       </footer>
     </div>
   );
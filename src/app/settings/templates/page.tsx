@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ResolvedTemplate, TemplateVersion } from '@/lib/templates/types';
+import { ARTIFACT_TYPES, ArtifactType } from '@/lib/types';
+
+interface TemplateDetails {
+  active: ResolvedTemplate;
+  versions: (TemplateVersion & { versionId: string })[];
+  builtin: string;
+}
+
+const TYPE_LABELS: Record<ArtifactType, string> = {
+  summary: '📊 Summary',
+  cursor: '🔄 Cursor Context',
+  readme: '📄 README',
+  update: '🔁 Update',
+};
+
+// Saving, previewing and rolling back take the API key set on the main page; when keys are required, the
+// default team's templates are saved and rolled back with the admin token instead
+const request = async (url: string, init?: RequestInit) => {
+  const apiKey = localStorage.getItem('handoff-api-key')?.trim();
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return data;
+};
+
+const buttonClass = 'text-sm bg-gray-700/50 hover:bg-gray-600/50 disabled:opacity-50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur';
+
+export default function TemplateSettings() {
+  const [team, setTeam] = useState('default');
+  // Applied on blur or Enter, so the page does not reload on every keystroke
+  const [teamInput, setTeamInput] = useState('default');
+  const [type, setType] = useState<ArtifactType>('readme');
+  const [details, setDetails] = useState<TemplateDetails | null>(null);
+  const [variables, setVariables] = useState<{ name: string; description: string }[]>([]);
+  const [body, setBody] = useState('');
+  const [note, setNote] = useState('');
+  const [preview, setPreview] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setError('');
+    setPreview('');
+    try {
+      const [data, list] = await Promise.all([
+        request(`/api/templates/${type}?team=${encodeURIComponent(team)}`) as Promise<TemplateDetails>,
+        request(`/api/templates?team=${encodeURIComponent(team)}`),
+      ]);
+      setDetails(data);
+      setVariables(list.variables);
+      setBody(data.active.body);
+    } catch (err) {
+      setDetails(null);
+      setError(err instanceof Error ? err.message : 'Failed to load template');
+    }
+  }, [team, type]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const save = () => run(async () => {
+    const saved = await request(`/api/templates/${type}`, {
+      method: 'PUT',
+      body: JSON.stringify({ team, body, ...(note.trim() && { note: note.trim() }) }),
+    });
+    setNote('');
+    setMessage(`Saved ${saved.versionId}`);
+    await load();
+  });
+
+  const showPreview = () => run(async () => {
+    const data = await request(`/api/templates/${type}/preview`, {
+      method: 'POST',
+      body: JSON.stringify({ team, body }),
+    });
+    setPreview(data.prompt);
+  });
+
+  const rollback = (version: number) => run(async () => {
+    const restored = await request(`/api/templates/${type}/rollback`, {
+      method: 'POST',
+      body: JSON.stringify({ team, version }),
+    });
+    setMessage(`Restored as ${restored.versionId}`);
+    await load();
+  });
+
+  const isDirty = details !== null && body !== details.active.body;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-black via-gray-900 to-green-900 flex flex-col">
+      <div className="flex-1 px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <Link href="/" className="text-green-400 hover:text-green-300 font-mono tracking-wider">
+            ← Handoff.ai
+          </Link>
+
+          <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h1 className="text-2xl font-semibold text-white">Prompt Templates</h1>
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <span>Team</span>
+                <input
+                  value={teamInput}
+                  onChange={(e) => setTeamInput(e.target.value.toLowerCase())}
+                  onBlur={() => setTeam(teamInput.trim() || 'default')}
+                  onKeyDown={(e) => e.key === 'Enter' && setTeam(teamInput.trim() || 'default')}
+                  className="bg-black/50 border border-gray-600/50 rounded-lg px-3 py-1 font-mono text-gray-200 focus:outline-none focus:border-green-500/50"
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {ARTIFACT_TYPES.map(artifactType => (
+                <button
+                  key={artifactType}
+                  onClick={() => setType(artifactType)}
+                  className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+                    type === artifactType
+                      ? 'bg-green-900/40 border-green-500/40 text-white'
+                      : 'bg-gray-700/30 border-gray-600/50 text-gray-400 hover:text-gray-200'
+                  }`}
+                >
+                  {TYPE_LABELS[artifactType]}
+                </button>
+              ))}
+            </div>
+
+            {details && (
+              <p className="text-sm text-gray-400">
+                Active: <span className="font-mono text-gray-200">{details.active.versionId}</span>
+                {details.active.source === 'default' && team !== 'default' && ' (inherited from the default team)'}
+                {details.active.source === 'builtin' && ' (built-in prompt)'}
+              </p>
+            )}
+
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={24}
+              spellCheck={false}
+              className="w-full bg-black/50 border border-gray-600/50 rounded-xl p-4 font-mono text-sm text-gray-200 focus:outline-none focus:border-green-500/50"
+            />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="What changed (optional)"
+                maxLength={200}
+                className="flex-1 min-w-[12rem] bg-black/50 border border-gray-600/50 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-green-500/50"
+              />
+              <button onClick={save} disabled={isBusy || !isDirty} className={buttonClass}>💾 Save new version</button>
+              <button onClick={showPreview} disabled={isBusy} className={buttonClass}>👁 Preview</button>
+              <button onClick={() => details && setBody(details.builtin)} disabled={isBusy || !details} className={buttonClass}>
+                ↺ Load built-in
+              </button>
+            </div>
+
+            {message && <p className="text-sm text-green-400">{message}</p>}
+            {error && <p className="text-sm text-red-300">{error}</p>}
+
+            {variables.length > 0 && (
+              <div className="text-sm text-gray-400">
+                <p className="mb-1">
+                  Variables (write <span className="font-mono">{'{{name}}'}</span>, or <span className="font-mono">{'{{name|fallback}}'}</span> for values that may be empty):
+                </p>
+                <ul className="grid md:grid-cols-2 gap-x-6">
+                  {variables.map(variable => (
+                    <li key={variable.name}>
+                      <span className="font-mono text-gray-200">{variable.name}</span> – {variable.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {preview && (
+            <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur">
+              <h2 className="text-lg font-semibold text-white mb-4">Preview</h2>
+              <div className="bg-black/50 border border-gray-600/50 rounded-xl p-4 max-h-96 overflow-y-auto">
+                <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono">{preview}</pre>
+              </div>
+            </div>
+          )}
+
+          {details && (
+            <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur">
+              <h2 className="text-lg font-semibold text-white mb-4">History for {team}</h2>
+              <ul className="space-y-2 text-sm">
+                {details.versions.map(version => (
+                  <li key={version.version} className="flex items-center justify-between bg-gray-700/30 border border-gray-600/50 rounded-lg px-3 py-2">
+                    <span className="text-gray-300">
+                      <span className="font-mono text-gray-100">v{version.version}</span>
+                      {' · '}{new Date(version.createdAt).toLocaleString()}
+                      {version.note && <span className="text-gray-400"> · {version.note}</span>}
+                    </span>
+                    <span className="flex items-center space-x-2">
+                      <button onClick={() => setBody(version.body)} disabled={isBusy} className={buttonClass}>Load</button>
+                      <button onClick={() => rollback(version.version)} disabled={isBusy} className={buttonClass}>Roll back</button>
+                    </span>
+                  </li>
+                ))}
+                <li className="flex items-center justify-between bg-gray-700/30 border border-gray-600/50 rounded-lg px-3 py-2">
+                  <span className="text-gray-300"><span className="font-mono text-gray-100">built-in</span> · ships with Handoff.ai</span>
+                  <button onClick={() => rollback(0)} disabled={isBusy || !details.versions.length} className={buttonClass}>Roll back</button>
+                </li>
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
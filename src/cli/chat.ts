@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const CHAT_EXTENSIONS = ['.md', '.txt', '.json'];
+
+interface Location {
+  directory: string;
+  pattern: RegExp;
+}
+
+// Where chat exports usually end up: SpecStory's history for Cursor, Cursor's "Export Chat" files
+// (cursor_<title>.md) in the repo or Downloads, and Claude/ChatGPT data exports
+const knownLocations = (root: string): Location[] => {
+  const downloads = path.join(os.homedir(), 'Downloads');
+  return [
+    { directory: path.join(root, '.specstory', 'history'), pattern: /\.md$/ },
+    { directory: root, pattern: /^cursor_.*\.md$/ },
+    { directory: downloads, pattern: /^cursor_.*\.md$/ },
+    { directory: downloads, pattern: /^(claude|chatgpt).*\.(md|txt)$/i },
+    { directory: downloads, pattern: /^conversations\.json$/ },
+  ];
+};
+
+const newest = async (directory: string, matches: (name: string) => boolean) => {
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch {
+    return [];
+  }
+  const candidates = await Promise.all(names.filter(matches).map(async name => {
+    const file = path.join(directory, name);
+    const stats = await fs.stat(file);
+    return stats.isFile() ? { file, modified: stats.mtimeMs } : null;
+  }));
+  return candidates.filter((candidate): candidate is { file: string; modified: number } => candidate !== null);
+};
+
+// The given chat file, the newest export in the given directory, or the newest export in the known locations
+export const findChatExport = async (root: string, given?: string) => {
+  const isChatFile = (name: string) => CHAT_EXTENSIONS.includes(path.extname(name).toLowerCase());
+
+  if (given) {
+    const resolved = path.resolve(given);
+    const stats = await fs.stat(resolved).catch(() => null);
+    if (!stats) throw new Error(`Chat export not found: ${given}`);
+    if (stats.isFile()) return resolved;
+    const [latest] = (await newest(resolved, isChatFile)).sort((a, b) => b.modified - a.modified);
+    if (!latest) throw new Error(`No .md, .txt or .json chat export in ${given}`);
+    return latest.file;
+  }
+
+  const found = await Promise.all(knownLocations(root).map(({ directory, pattern }) => newest(directory, name => pattern.test(name))));
+  const [latest] = found.flat().sort((a, b) => b.modified - a.modified);
+  if (!latest) {
+    throw new Error('No chat export found in .specstory/history, the repository or ~/Downloads: pass --chat <path>');
+  }
+  return latest.file;
+};
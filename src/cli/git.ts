@@ -0,0 +1,84 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { isCodeFile, isIgnoredPath } from '../lib/code-files';
+import type { CodeFile } from '../lib/types';
+
+const run = promisify(execFile);
+
+// Changed files past this size are skipped; they are almost always generated
+const MAX_FILE_BYTES = 512 * 1024;
+
+export const git = async (cwd: string, args: string[]) => {
+  const { stdout } = await run('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+  return stdout.trim();
+};
+
+const tryGit = (cwd: string, args: string[]) => git(cwd, args).catch(() => '');
+
+export const repoRoot = (cwd: string) => git(cwd, ['rev-parse', '--show-toplevel']).catch(() => {
+  throw new Error('Not inside a git repository');
+});
+
+// The remote's default branch when known, else a local main or master
+export const defaultBaseBranch = async (root: string) => {
+  const remoteHead = await tryGit(root, ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD']);
+  if (remoteHead) return remoteHead;
+  for (const branch of ['main', 'master']) {
+    if (await tryGit(root, ['rev-parse', '--verify', '--quiet', branch])) return branch;
+  }
+  throw new Error('Could not find a base branch: pass --base');
+};
+
+export interface Changes {
+  mergeBase: string;
+  files: CodeFile[];
+  skipped: { path: string; reason: string }[];
+  // `git log -p` of the commits since the base, when there are any
+  history?: string;
+}
+
+// Files changed since the branch left `base`, committed or not, plus untracked files. `exclude` lists paths
+// relative to the root that are never sent, such as the chat export and files written by earlier runs.
+export const collectChanges = async (
+  root: string,
+  base: string,
+  { includeHistory, exclude }: { includeHistory: boolean; exclude: string[] }
+): Promise<Changes> => {
+  const mergeBase = await git(root, ['merge-base', base, 'HEAD']).catch(() => {
+    throw new Error(`Unknown base branch: ${base}`);
+  });
+  const [changed, untracked] = await Promise.all([
+    git(root, ['diff', '--name-only', '--diff-filter=d', mergeBase]),
+    git(root, ['ls-files', '--others', '--exclude-standard']),
+  ]);
+  const paths = [...new Set([...changed.split('\n'), ...untracked.split('\n')].filter(Boolean))].sort();
+
+  const files: CodeFile[] = [];
+  const skipped: Changes['skipped'] = [];
+  for (const filePath of paths) {
+    if (exclude.includes(filePath)) {
+      skipped.push({ path: filePath, reason: 'handoff input or output' });
+      continue;
+    }
+    if (isIgnoredPath(filePath)) {
+      skipped.push({ path: filePath, reason: 'ignored' });
+      continue;
+    }
+    if (!isCodeFile(filePath)) {
+      skipped.push({ path: filePath, reason: 'unsupported' });
+      continue;
+    }
+    const absolute = path.join(root, filePath);
+    const { size } = await fs.stat(absolute);
+    if (size > MAX_FILE_BYTES) {
+      skipped.push({ path: filePath, reason: 'too large' });
+      continue;
+    }
+    files.push({ path: filePath, content: await fs.readFile(absolute, 'utf8') });
+  }
+
+  const history = includeHistory ? await git(root, ['log', '-p', '--no-color', `${mergeBase}..HEAD`]) : '';
+  return { mergeBase, files, skipped, ...(history && { history }) };
+};
@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { EXPORT_TARGETS, exportTargetPath, isExportTarget } from '../lib/export-targets';
+import { readSSE } from '../lib/sse';
+import { artifactTypesOf, GENERATION_TYPES, RESULT_FIELDS } from '../lib/types';
+import type { ArtifactType, GenerationType, SummaryRequest, SummaryResponse } from '../lib/types';
+import { findChatExport } from './chat';
+import { collectChanges, defaultBaseBranch, git, repoRoot } from './git';
+
+const DEFAULT_SERVER_URL = 'http://localhost:3000';
+
+// Where each artifact is written, relative to --out
+const OUTPUT_FILES: Record<ArtifactType, string> = {
+  summary: 'HANDOFF.md',
+  cursor: '.cursorrules',
+  readme: 'HANDOFF_README.md',
+  // An update replaces the handoff it revises
+  update: 'HANDOFF.md',
+};
+
+const USAGE = `Usage: handoff [options]
+
+Generates a handoff from the latest chat export and the files changed on this branch,
+and writes it into the repository.
+
+Options:
+  -t, --type <type>      ${GENERATION_TYPES.join(', ')} (default: summary)
+  -c, --chat <path>      Chat export file, or a directory to take the newest export from
+                         (default: newest in .specstory/history, ./cursor_*.md or ~/Downloads)
+  -b, --base <branch>    Branch to diff against (default: origin's default branch, main or master)
+  -o, --out <dir>        Directory to write files to (default: repository root)
+      --target <name>    Also write an assistant context file: ${EXPORT_TARGETS.join(', ')} (repeatable;
+                         with --type cursor or package)
+  -s, --server <url>     Handoff.ai server (default: $HANDOFF_SERVER_URL or ${DEFAULT_SERVER_URL})
+  -k, --api-key <key>    API key (default: $HANDOFF_API_KEY)
+      --team <team>      Team whose prompt templates are used
+      --author <name>    Author (default: git config user.name)
+      --ticket <id>      Ticket the work belongs to
+      --previous <ref>   With --type update: the handoff to revise, as a file, stored handoff id or share link
+                         (default: HANDOFF.md in the output directory)
+      --no-history       Do not send the branch's commits
+      --regenerate       Skip the server's generation cache
+      --dry-run          Show what would be sent, without generating
+  -h, --help             Show this help`;
+
+const parseOptions = () => {
+  const { values } = parseArgs({
+    options: {
+      type: { type: 'string', short: 't', default: 'summary' },
+      chat: { type: 'string', short: 'c' },
+      base: { type: 'string', short: 'b' },
+      out: { type: 'string', short: 'o' },
+      target: { type: 'string', multiple: true, default: [] },
+      server: { type: 'string', short: 's' },
+      'api-key': { type: 'string', short: 'k' },
+      team: { type: 'string' },
+      author: { type: 'string' },
+      ticket: { type: 'string' },
+      previous: { type: 'string' },
+      'no-history': { type: 'boolean', default: false },
+      regenerate: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (!GENERATION_TYPES.includes(values.type as GenerationType)) {
+    throw new Error(`--type must be one of: ${GENERATION_TYPES.join(', ')}`);
+  }
+  const unknownTarget = values.target.find(target => !isExportTarget(target));
+  if (unknownTarget) {
+    throw new Error(`Unknown --target ${unknownTarget}; expected one of: ${EXPORT_TARGETS.join(', ')}`);
+  }
+  return values;
+};
+
+// Streams the generation, reporting progress on stderr, and returns the final response
+const generate = async (server: string, apiKey: string | undefined, body: SummaryRequest): Promise<SummaryResponse> => {
+  const response = await fetch(new URL('/api/summary', server), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+    body: JSON.stringify(body),
+  }).catch(() => {
+    throw new Error(`Could not reach ${server}: is the server running? Set --server or HANDOFF_SERVER_URL`);
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  // Structured output and cache hits arrive as one JSON response
+  if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return response.json();
+  }
+
+  let characters = 0;
+  try {
+    for await (const message of readSSE(response.body)) {
+      const data = JSON.parse(message.data);
+      if (message.event === 'delta') {
+        characters += data.text.length;
+        process.stderr.write(`\rGenerating ${data.type}… ${characters.toLocaleString()} characters`);
+      } else if (message.event === 'done') {
+        return data;
+      } else if (message.event === 'error') {
+        throw new Error(data.error);
+      }
+    }
+  } finally {
+    if (characters) process.stderr.write('\n');
+  }
+  throw new Error('The server closed the stream before the handoff was finished');
+};
+
+// The handoff an update revises: a file, else a stored handoff id or share link
+const previousHandoff = async (given: string | undefined, outDir: string) => {
+  const file = path.resolve(given || path.join(outDir, OUTPUT_FILES.update));
+  const text = await fs.readFile(file, 'utf8').catch(() => null);
+  if (text !== null) return { file, fields: { previous: text } };
+
+  const id = given?.match(/^(?:\S*\/handoff\/)?([A-Za-z0-9_-]{12})\/?$/)?.[1];
+  if (id) return { fields: { previousId: id } };
+  throw new Error(given
+    ? `Previous handoff not found: ${given}`
+    : `No ${OUTPUT_FILES.update} to update: pass --previous <file, id or share link>`);
+};
+
+const writeFile = async (file: string, content: string) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content.endsWith('\n') ? content : content + '\n');
+};
+
+const main = async () => {
+  const options = parseOptions();
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const type = options.type as GenerationType;
+  const root = await repoRoot(process.cwd());
+  const base = options.base || await defaultBaseBranch(root);
+  const outDir = path.resolve(options.out || root);
+  const chatFile = await findChatExport(root, options.chat);
+  const previous = type === 'update' ? await previousHandoff(options.previous, outDir) : null;
+  // Never send the chat export, the previous handoff or earlier handoff output back as changed code
+  const exclude = [
+    chatFile,
+    ...(previous?.file ? [previous.file] : []),
+    ...Object.values(OUTPUT_FILES).map(file => path.join(outDir, file)),
+    ...EXPORT_TARGETS.map(target => path.join(outDir, exportTargetPath(target))),
+  ].map(file => path.relative(root, file).split(path.sep).join('/'));
+  const [changes, gitAuthor] = await Promise.all([
+    collectChanges(root, base, { includeHistory: !options['no-history'], exclude }),
+    options.author ? Promise.resolve(options.author) : git(root, ['config', 'user.name']).catch(() => ''),
+  ]);
+
+  console.error(`Chat export: ${path.relative(process.cwd(), chatFile) || chatFile}`);
+  if (previous) {
+    console.error(`Revising: ${previous.file ? path.relative(process.cwd(), previous.file) : `stored handoff ${previous.fields.previousId}`}`);
+  }
+  console.error(`Changed files since ${base}: ${changes.files.length}${changes.skipped.length ? ` (${changes.skipped.length} skipped)` : ''}`);
+  // An update may cover a session that changed no code
+  if (!changes.files.length && type !== 'update') {
+    throw new Error(`No changed code files since ${base}: pass --base to compare with another branch`);
+  }
+
+  const body: SummaryRequest = {
+    markdown: await fs.readFile(chatFile, 'utf8'),
+    files: changes.files,
+    ...(changes.history && { history: changes.history }),
+    type,
+    ...(options.team && { team: options.team }),
+    ...(gitAuthor && { author: gitAuthor }),
+    ...(options.ticket && { ticket: options.ticket }),
+    ...(options.target.length && { targets: options.target as SummaryRequest['targets'] }),
+    ...previous?.fields,
+    ...(options.regenerate && { cache: 'bypass' as const }),
+    stream: true,
+  };
+
+  if (options['dry-run']) {
+    for (const file of changes.files) console.log(`  ${file.path}`);
+    for (const { path: skippedPath, reason } of changes.skipped) console.log(`  ${skippedPath} (skipped: ${reason})`);
+    if (changes.history) console.log(`Commits since ${base}: ${changes.history.split('\n').filter(line => line.startsWith('commit ')).length}`);
+    return;
+  }
+
+  const server = options.server || process.env.HANDOFF_SERVER_URL || DEFAULT_SERVER_URL;
+  const result = await generate(server, options['api-key'] || process.env.HANDOFF_API_KEY, body);
+
+  const written: string[] = [];
+  for (const artifactType of artifactTypesOf(type)) {
+    const content = result[RESULT_FIELDS[artifactType]];
+    if (content) {
+      const file = path.join(outDir, OUTPUT_FILES[artifactType]);
+      await writeFile(file, content);
+      written.push(file);
+    }
+  }
+  for (const exported of result.exports ?? []) {
+    const file = path.join(outDir, exported.path);
+    await writeFile(file, exported.content);
+    written.push(file);
+  }
+
+  for (const file of written) console.log(`Wrote ${path.relative(process.cwd(), file) || file}`);
+  if (result.cached) console.error(`Served from the cache (generated ${result.cachedAt}); pass --regenerate for a fresh one`);
+  const ids = result.ids ?? (result.id ? { [type]: result.id } : {});
+  for (const [artifactType, id] of Object.entries(ids)) {
+    console.error(`Share link (${artifactType}): ${new URL(`/handoff/${id}`, server)}`);
+  }
+};
+
+main().catch(error => {
+  console.error(`handoff: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
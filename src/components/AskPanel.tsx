@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AskCitation, AskResponse } from '@/lib/types';
+
+interface AskPanelProps {
+  // The stored handoff questions are about; its kept transcript and code answer them
+  handoffId: string;
+  apiKey: string;
+}
+
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: AskCitation[];
+}
+
+// Earlier questions and answers sent with each question, so follow-ups can refer back
+const ASK_CONVERSATION_MESSAGES = 10;
+
+// Each cited turn or code range with what it points at; citations that match nothing are flagged
+const renderCitations = (citations: AskCitation[]) => citations.length > 0 && (
+  <details className="mt-2 text-sm text-gray-400">
+    <summary className="cursor-pointer hover:text-gray-200">
+      Sources: {citations.map(citation => citation.text).join(', ')}
+    </summary>
+    <ul className="mt-2 space-y-2">
+      {citations.map(citation => (
+        <li key={`${citation.kind}:${citation.text}`}>
+          <span className={`font-mono ${citation.excerpt ? 'text-gray-300' : 'text-amber-300'}`}>
+            {citation.kind === 'turn' ? `[${citation.text}]` : citation.text}
+          </span>
+          {citation.excerpt
+            ? (citation.kind === 'file'
+              ? <pre className="mt-1 bg-black/50 border border-gray-700/50 rounded-lg p-2 text-xs text-gray-300 overflow-x-auto">{citation.excerpt}</pre>
+              : <span> {citation.excerpt}</span>)
+            : <span className="text-amber-300"> ⚠ not found in the chat or code</span>}
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+// "Ask the Previous Engineer": follow-up questions about a stored handoff, answered from its transcript and code
+export default function AskPanel({ handoffId, apiKey }: AskPanelProps) {
+  const [conversation, setConversation] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [askError, setAskError] = useState('');
+
+  const askQuestion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const asked = question.trim();
+    if (!asked) return;
+
+    setIsAsking(true);
+    setAskError('');
+    try {
+      const response = await fetch(`/api/handoffs/${handoffId}/ask`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey.trim() && { Authorization: `Bearer ${apiKey.trim()}` }),
+        },
+        body: JSON.stringify({
+          question: asked,
+          conversation: conversation.slice(-ASK_CONVERSATION_MESSAGES).map(({ role, content }) => ({ role, content })),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data: AskResponse = await response.json();
+      setConversation(prev => [
+        ...prev,
+        { role: 'user', content: asked },
+        { role: 'assistant', content: data.answer, citations: data.citations },
+      ]);
+      setQuestion('');
+    } catch (err) {
+      console.error('Error:', err);
+      setAskError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700/50 rounded-2xl p-6 backdrop-blur">
+      <h2 className="text-2xl font-semibold text-white mb-2 flex items-center space-x-3">
+        <span>💬</span>
+        <span className="text-teal-400">Ask the Previous Engineer</span>
+      </h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Follow-up questions are answered from the chat, code and history this handoff was generated from, citing the turns and lines used.
+      </p>
+      {conversation.length > 0 && (
+        <div className="space-y-3 mb-4 max-h-[32rem] overflow-y-auto">
+          {conversation.map((message, index) => (
+            <div
+              key={index}
+              className={message.role === 'user'
+                ? 'ml-12 bg-teal-900/20 border border-teal-500/30 rounded-xl p-3'
+                : 'mr-12 bg-black/50 border border-gray-600/50 rounded-xl p-3'}
+            >
+              <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono">{message.content}</pre>
+              {message.citations && renderCitations(message.citations)}
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={askQuestion} className="flex items-center gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Why was the upload retry removed?"
+          disabled={isAsking}
+          className="flex-1 bg-black/50 border border-gray-600/50 rounded-xl px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-teal-500/50"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !question.trim()}
+          className="bg-teal-900/30 hover:bg-teal-800/40 disabled:bg-gray-800/40 text-white font-medium py-2 px-5 rounded-xl transition-all duration-200 border border-teal-500/40 hover:border-teal-400/60"
+        >
+          {isAsking ? 'Asking...' : 'Ask'}
+        </button>
+      </form>
+      {askError && <p className="mt-2 text-sm text-red-300">{askError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import React, { useState } from 'react';
+
+interface CopyButtonProps {
+  text: string;
+  label?: string;
+}
+
+export default function CopyButton({ text, label = '📋 Copy' }: CopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <button
+      onClick={copy}
+      className="text-sm bg-gray-700/50 hover:bg-gray-600/50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur"
+    >
+      {copied ? '✓ Copied' : label}
+    </button>
+  );
+}
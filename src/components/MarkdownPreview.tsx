@@ -0,0 +1,143 @@
+'use client';
+
+import React from 'react';
+import { InlineToken, ListItem, MarkdownBlock, MarkdownSection, parseBlocks, parseInline, splitSections } from '@/lib/markdown';
+
+interface MarkdownPreviewProps {
+  markdown: string;
+  // Post-processes plain text runs, e.g. to highlight unsupported claims
+  renderText?: (text: string) => React.ReactNode;
+  // Makes each section clickable; the selected one is outlined
+  onSelectSection?: (section: MarkdownSection) => void;
+  selected?: { start: number; end: number } | null;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold text-white mt-4 mb-2',
+  'text-xl font-semibold text-white mt-4 mb-2',
+  'text-lg font-semibold text-gray-100 mt-3 mb-1',
+  'text-base font-semibold text-gray-100 mt-3 mb-1',
+  'text-sm font-semibold text-gray-200 mt-2 mb-1',
+  'text-sm font-semibold text-gray-300 mt-2 mb-1',
+];
+
+export default function MarkdownPreview({ markdown, renderText = text => text, onSelectSection, selected }: MarkdownPreviewProps) {
+  const renderInline = (tokens: InlineToken[]): React.ReactNode[] => tokens.map((token, index) => {
+    switch (token.kind) {
+      case 'text':
+        return <React.Fragment key={index}>{renderText(token.text)}</React.Fragment>;
+      case 'code':
+        return <code key={index} className="bg-gray-700/50 text-green-300 rounded px-1 font-mono text-[0.9em]">{renderText(token.text)}</code>;
+      case 'strong':
+        return <strong key={index} className="font-semibold text-white">{renderInline(token.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(token.children)}</em>;
+      case 'strike':
+        return <s key={index} className="text-gray-500">{renderInline(token.children)}</s>;
+      case 'link':
+        return (
+          <a key={index} href={token.href} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:text-green-300 underline">
+            {renderInline(token.children)}
+          </a>
+        );
+    }
+  });
+
+  const renderMarkdownText = (text: string) => renderInline(parseInline(text));
+
+  const renderItem = (item: ListItem, index: number) => {
+    // Tight items: the first paragraph sits on the marker's line
+    const [first, ...rest] = item.blocks;
+    const lead = first?.kind === 'paragraph' ? renderMarkdownText(first.text) : null;
+    return (
+      <li key={index} className={item.checked === null ? '' : 'list-none -ml-5'}>
+        {item.checked !== null && (
+          <input type="checkbox" checked={item.checked} readOnly className="mr-2 align-middle accent-green-500" />
+        )}
+        {lead}
+        {(lead ? rest : item.blocks).map(renderBlock)}
+      </li>
+    );
+  };
+
+  const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+    switch (block.kind) {
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return <Heading key={index} className={HEADING_CLASSES[block.level - 1]}>{renderMarkdownText(block.text)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={index} className="my-2 whitespace-pre-line">{renderMarkdownText(block.text)}</p>;
+      case 'code':
+        return (
+          <pre key={index} className="my-2 bg-black/60 border border-gray-700/50 rounded-lg p-3 overflow-x-auto text-xs font-mono text-gray-200">
+            <code>{renderText(block.text)}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="my-2 border-l-2 border-gray-500 pl-3 text-gray-400">
+            {block.blocks.map(renderBlock)}
+          </blockquote>
+        );
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={index} className={`my-2 pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map(renderItem)}
+          </List>
+        );
+      }
+      case 'table':
+        return (
+          <div key={index} className="my-2 overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, cellIndex) => (
+                    <th key={cellIndex} className="border border-gray-700 px-2 py-1 text-left text-gray-100">{renderMarkdownText(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="border border-gray-700 px-2 py-1">{renderMarkdownText(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={index} className="my-4 border-gray-700" />;
+    }
+  };
+
+  const sections = splitSections(markdown);
+
+  return (
+    <div className="text-sm text-gray-200 leading-relaxed">
+      {sections.map(section => {
+        const blocks = parseBlocks(markdown.slice(section.start, section.end)).map(renderBlock);
+        if (!onSelectSection) return <React.Fragment key={section.start}>{blocks}</React.Fragment>;
+
+        const isSelected = selected?.start === section.start && selected.end === section.end;
+        return (
+          <div
+            key={section.start}
+            onClick={() => onSelectSection(section)}
+            title="Select this section to refine it"
+            className={`-mx-2 px-2 rounded-lg border cursor-pointer transition-colors ${
+              isSelected ? 'border-green-500/50 bg-green-900/10' : 'border-transparent hover:border-gray-600/50'
+            }`}
+          >
+            {blocks}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
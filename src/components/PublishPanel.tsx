@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { Publication, Publisher, PublisherName, PublishMode } from '@/lib/publishers/types';
+
+// What GET /api/publishers lists for each tracker the server has a token for
+export type PublisherOption = Pick<Publisher, 'name' | 'label' | 'targetHint'>;
+
+interface PublishPanelProps {
+  // The stored handoff to publish; publishing always sends it as stored
+  handoffId: string;
+  publishers: PublisherOption[];
+  apiKey: string;
+  // Whether the "Publish to…" form is shown; links to earlier publications always are
+  open: boolean;
+  onClose: () => void;
+}
+
+interface PublishFormProps {
+  handoffId: string;
+  publishers: PublisherOption[];
+  apiKey: string;
+  onPublished: (publication: Publication) => void;
+}
+
+// Mounted only while open, so closing the form clears it
+function PublishForm({ handoffId, publishers, apiKey, onPublished }: PublishFormProps) {
+  const [publisher, setPublisher] = useState<PublisherName>(publishers[0].name);
+  const [target, setTarget] = useState('');
+  const [mode, setMode] = useState<PublishMode>('comment');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishError, setPublishError] = useState('');
+
+  const publishHandoff = async () => {
+    if (!target.trim()) return;
+
+    setIsPublishing(true);
+    setPublishError('');
+    try {
+      const response = await fetch(`/api/handoffs/${handoffId}/publish`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey.trim() && { Authorization: `Bearer ${apiKey.trim()}` }),
+        },
+        body: JSON.stringify({ publisher, target: target.trim(), mode }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const { publication }: { publication: Publication } = await response.json();
+      onPublished(publication);
+    } catch (err) {
+      console.error('Error:', err);
+      setPublishError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={publisher}
+          onChange={(e) => setPublisher(e.target.value as PublisherName)}
+          className="bg-black/50 border border-gray-600/50 rounded-lg px-2 py-2 text-gray-200"
+        >
+          {publishers.map(option => (
+            <option key={option.name} value={option.name}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={publishers.find(option => option.name === publisher)?.targetHint}
+          className="flex-1 min-w-[16rem] bg-black/50 border border-gray-600/50 rounded-lg px-3 py-2 font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-green-500/50"
+        />
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as PublishMode)}
+          className="bg-black/50 border border-gray-600/50 rounded-lg px-2 py-2 text-gray-200"
+        >
+          <option value="comment">As a comment</option>
+          <option value="description">In the description</option>
+        </select>
+        <button
+          onClick={publishHandoff}
+          disabled={isPublishing || !target.trim()}
+          className="bg-green-900/30 hover:bg-green-800/40 disabled:bg-gray-800/40 text-white px-4 py-2 rounded-lg border border-green-500/40 transition-colors"
+        >
+          {isPublishing ? 'Publishing...' : 'Publish'}
+        </button>
+      </div>
+      {publishError && <p className="text-red-300">{publishError}</p>}
+    </>
+  );
+}
+
+// The "Publish to…" form for one result when it is open, and links to where it was published
+export default function PublishPanel({ handoffId, publishers, apiKey, open, onClose }: PublishPanelProps) {
+  const [publications, setPublications] = useState<Publication[]>([]);
+
+  const showForm = open && publishers.length > 0;
+  if (!showForm && !publications.length) return null;
+
+  return (
+    <div className="mb-4 text-sm text-gray-400 space-y-2">
+      {showForm && (
+        <PublishForm
+          handoffId={handoffId}
+          publishers={publishers}
+          apiKey={apiKey}
+          onPublished={publication => {
+            setPublications(prev => [...prev, publication]);
+            onClose();
+          }}
+        />
+      )}
+      {publications.map(publication => (
+        <p key={publication.publishedAt}>
+          ✓ Published to{' '}
+          <a href={publication.url} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:text-green-300 underline break-all">
+            {publication.url}
+          </a>
+        </p>
+      ))}
+    </div>
+  );
+}
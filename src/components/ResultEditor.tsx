@@ -0,0 +1,278 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import MarkdownPreview from '@/components/MarkdownPreview';
+import { ArtifactType, EditHandoffResponse, RefineAction, RefineResponse } from '@/lib/types';
+import type { ClaimKind, UnsupportedClaim } from '@/lib/verification';
+
+interface ResultEditorProps {
+  type: ArtifactType;
+  text: string;
+  onChange: (text: string) => void;
+  // The stored handoff shown; refinements are grounded in its kept sources and edits are saved as a copy of it
+  handoffId?: string;
+  // The stored handoff's output, to tell unsaved edits apart
+  savedText?: string;
+  onSaved: (id: string, text: string) => void;
+  // Claims not found in the inputs when the text was generated, highlighted in the preview
+  unsupported?: UnsupportedClaim[];
+  apiKey: string;
+}
+
+const CLAIM_LABELS: Record<ClaimKind, string> = {
+  file: 'file path',
+  identifier: 'identifier',
+  error: 'error message',
+  timestamp: 'timestamp',
+  turn: 'turn number',
+};
+
+// Edits (typing sessions and refinements) that can be undone
+const MAX_UNDO_STEPS = 50;
+
+const REFINE_LABELS: Record<RefineAction, string> = {
+  'expand': '➕ Expand',
+  'shorten': '➖ Shorten',
+  'add-code': '💻 Add code snippet',
+  'fix': '🩹 Fix this',
+};
+
+const BUTTON_CLASS = 'text-sm bg-gray-700/50 hover:bg-gray-600/50 disabled:opacity-50 border border-gray-600/50 text-gray-200 px-4 py-2 rounded-lg transition-colors backdrop-blur';
+
+// A result rendered, or as editable source, with undo; a selected section or text range can be refined by the model
+export default function ResultEditor({ type, text, onChange, handoffId, savedText, onSaved, unsupported = [], apiKey }: ResultEditorProps) {
+  const [sourceMode, setSourceMode] = useState(false);
+  // Earlier versions of the text, newest last
+  const [undoStack, setUndoStack] = useState<string[]>([]);
+  // The part selected for refinement: a section in the preview, or a text selection in the source
+  const [refineTarget, setRefineTarget] = useState<{ start: number; end: number } | null>(null);
+  const [refineInstructions, setRefineInstructions] = useState('');
+  const [refiningAction, setRefiningAction] = useState<RefineAction | null>(null);
+  const [refineError, setRefineError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+  // Set when the source editor gains focus, so the text before the first keystroke can be undone to
+  const pendingUndoRef = useRef(false);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    ...(apiKey.trim() && { Authorization: `Bearer ${apiKey.trim()}` }),
+  };
+
+  // Edits stay in the browser until saved; the share link, publishing and questions use the stored handoff
+  const hasUnsavedEdits = Boolean(handoffId && savedText !== undefined && text !== savedText);
+
+  const pushUndo = (previous: string) => {
+    setUndoStack(prev => [...prev, previous].slice(-MAX_UNDO_STEPS));
+  };
+
+  const editText = (value: string) => {
+    if (pendingUndoRef.current) {
+      pushUndo(text);
+      pendingUndoRef.current = false;
+    }
+    onChange(value);
+  };
+
+  const undoEdit = () => {
+    if (!undoStack.length) return;
+    onChange(undoStack[undoStack.length - 1]);
+    setUndoStack(prev => prev.slice(0, -1));
+    setRefineTarget(null);
+  };
+
+  // Rewrites the selected part with the model and puts the rewrite in its place
+  const refineSelection = async (action: RefineAction) => {
+    const target = refineTarget;
+    if (!target || !text) return;
+    // Keep the blank lines between the section and the next heading
+    const section = text.slice(target.start, target.end).trimEnd();
+    if (!section.trim()) return;
+
+    setRefiningAction(action);
+    setRefineError('');
+    try {
+      const response = await fetch('/api/refine', {
+        method: 'POST',
+        headers: authHeaders,
+        body: JSON.stringify({
+          document: text,
+          section,
+          action,
+          ...(refineInstructions.trim() && { instructions: refineInstructions.trim() }),
+          type,
+          ...(handoffId && { handoffId }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data: RefineResponse = await response.json();
+      pushUndo(text);
+      onChange(text.slice(0, target.start) + data.section + text.slice(target.start + section.length));
+      setRefineTarget(null);
+      setRefineInstructions('');
+    } catch (err) {
+      console.error('Error:', err);
+      setRefineError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setRefiningAction(null);
+    }
+  };
+
+  // Stores the edited text as a new handoff, for the share link, publishing and questions to use
+  const saveEdits = async () => {
+    if (!handoffId || !text.trim()) return;
+
+    setIsSaving(true);
+    setSaveError('');
+    try {
+      const response = await fetch(`/api/handoffs/${handoffId}`, {
+        method: 'PUT',
+        headers: authHeaders,
+        body: JSON.stringify({ output: text }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data: EditHandoffResponse = await response.json();
+      onSaved(data.id, text);
+    } catch (err) {
+      console.error('Error:', err);
+      setSaveError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Marks each unsupported claim in place; hovering it says what could not be found in the inputs
+  const renderChecked = (part: string) => {
+    if (!unsupported.length) return part;
+
+    const kinds = new Map(unsupported.map(claim => [claim.text, claim.kind]));
+    const pattern = new RegExp(`(${[...kinds.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(claim => claim.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') + (/\w$/.test(claim) ? '(?!\\w)' : ''))
+      .join('|')})`, 'g');
+
+    return part.split(pattern).map((piece, index) => index % 2 === 1 ? (
+      <mark
+        key={index}
+        title={`Not found in the chat or code: ${CLAIM_LABELS[kinds.get(piece)!]}`}
+        className="bg-amber-500/20 text-amber-200 underline decoration-dotted decoration-amber-400 rounded-sm"
+      >
+        {piece}
+      </mark>
+    ) : piece);
+  };
+
+  const selectedText = refineTarget ? text.slice(refineTarget.start, refineTarget.end).trim() : '';
+
+  return (
+    <>
+      <div className="mb-2 flex flex-wrap items-center justify-end gap-2">
+        {hasUnsavedEdits && (
+          <span className="mr-auto text-sm text-amber-300">
+            ✎ Unsaved edits: Copy and the .zip include them, but the share link, publishing and questions use the saved version until you save.
+          </span>
+        )}
+        {hasUnsavedEdits && (
+          <button
+            onClick={saveEdits}
+            disabled={isSaving || refiningAction !== null}
+            title="Store the edits as a new handoff, for the share link, publishing and questions"
+            className="text-sm bg-green-900/30 hover:bg-green-800/40 disabled:opacity-50 border border-green-500/40 text-white px-4 py-2 rounded-lg transition-colors backdrop-blur"
+          >
+            {isSaving ? 'Saving...' : '💾 Save edits'}
+          </button>
+        )}
+        {undoStack.length > 0 && (
+          <button
+            onClick={undoEdit}
+            disabled={refiningAction !== null}
+            title={`${undoStack.length} edit(s) to undo`}
+            className={BUTTON_CLASS}
+          >
+            ↶ Undo
+          </button>
+        )}
+        <button
+          onClick={() => {
+            setSourceMode(prev => !prev);
+            setRefineTarget(null);
+          }}
+          className={BUTTON_CLASS}
+        >
+          {sourceMode ? '👁 Preview' : '✏️ Edit'}
+        </button>
+      </div>
+      {hasUnsavedEdits && saveError && <p className="mb-2 text-sm text-red-300">{saveError}</p>}
+      <div className="bg-black/50 border border-gray-600/50 rounded-xl p-4 max-h-96 overflow-y-auto backdrop-blur">
+        {sourceMode ? (
+          <textarea
+            value={text}
+            readOnly={refiningAction !== null}
+            onFocus={() => { pendingUndoRef.current = true; }}
+            onChange={(e) => editText(e.target.value)}
+            onSelect={(e) => {
+              const { selectionStart, selectionEnd } = e.currentTarget;
+              setRefineTarget(selectionEnd > selectionStart ? { start: selectionStart, end: selectionEnd } : null);
+            }}
+            spellCheck={false}
+            className="w-full min-h-[20rem] bg-transparent text-sm text-gray-200 font-mono resize-y focus:outline-none"
+          />
+        ) : (
+          <MarkdownPreview
+            markdown={text}
+            renderText={renderChecked}
+            selected={refineTarget}
+            onSelectSection={section => {
+              setRefineError('');
+              setRefineTarget(refineTarget?.start === section.start ? null : { start: section.start, end: section.end });
+            }}
+          />
+        )}
+      </div>
+      {refineTarget && selectedText && (
+        <div className="mt-3 space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-gray-400 truncate max-w-xs" title={selectedText}>
+              Refine “{selectedText.split('\n')[0].replace(/^#+\s*/, '').slice(0, 60)}”:
+            </span>
+            {(Object.keys(REFINE_LABELS) as RefineAction[]).map(action => (
+              <button
+                key={action}
+                onClick={() => refineSelection(action)}
+                disabled={refiningAction !== null}
+                className="bg-green-900/30 hover:bg-green-800/40 disabled:bg-gray-800/40 text-white px-3 py-1 rounded-lg border border-green-500/40 transition-colors"
+              >
+                {refiningAction === action ? 'Rewriting...' : REFINE_LABELS[action]}
+              </button>
+            ))}
+            <button
+              onClick={() => setRefineTarget(null)}
+              disabled={refiningAction !== null}
+              className="text-gray-400 hover:text-gray-200 px-2 py-1"
+            >
+              Cancel
+            </button>
+          </div>
+          <input
+            value={refineInstructions}
+            onChange={(e) => setRefineInstructions(e.target.value)}
+            placeholder="Optional instructions, e.g. mention the retry limit"
+            maxLength={1000}
+            className="w-full bg-black/50 border border-gray-600/50 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-green-500/50"
+          />
+          {refineError && <p className="text-red-300">{refineError}</p>}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,10 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { stampPeerAddresses } = await import('./lib/auth/peer-address');
+    stampPeerAddresses();
+    // Picks up jobs queued before a restart, and fails the ones the restart interrupted
+    const { startJobWorker } = await import('./lib/jobs');
+    startJobWorker();
+  }
+}
@@ -0,0 +1,153 @@
+import { Gunzip, strFromU8, Unzip, UnzipInflate } from 'fflate';
+import { isCodeFile, normalizePath } from './code-files';
+import { CodeFile } from './types';
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// Uncompressed size cap, so a small upload cannot expand into gigabytes
+const MAX_EXTRACTED_BYTES = 50 * 1024 * 1024;
+// Compressed bytes fed to the inflater at a time; bounds the memory a single step can expand into
+const INPUT_CHUNK_BYTES = 16 * 1024;
+
+type ArchiveEntry = { path: string; data: Uint8Array };
+
+const tooLarge = () => new ArchiveError('Archive is too large once extracted');
+
+const concat = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+const pushInChunks = (stream: { push: (chunk: Uint8Array, final?: boolean) => void }, data: Uint8Array) => {
+  for (let offset = 0; offset < data.length; offset += INPUT_CHUNK_BYTES) {
+    stream.push(data.subarray(offset, offset + INPUT_CHUNK_BYTES), offset + INPUT_CHUNK_BYTES >= data.length);
+  }
+  if (!data.length) stream.push(data, true);
+};
+
+// Counts the bytes actually inflated rather than the sizes an archive declares, and stops at the cap
+const gunzipCapped = (data: Uint8Array) => {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const gunzip = new Gunzip(chunk => {
+    total += chunk.length;
+    if (total > MAX_EXTRACTED_BYTES) throw tooLarge();
+    chunks.push(chunk);
+  });
+  pushInChunks(gunzip, data);
+  return concat(chunks);
+};
+
+const unzipCapped = (data: Uint8Array) => {
+  // The streaming reader skips anything it does not recognise, so check for a local file header ("PK\x03\x04")
+  if (data[0] !== 0x50 || data[1] !== 0x4b || data[2] !== 0x03 || data[3] !== 0x04) {
+    throw new Error('Not a zip archive');
+  }
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+  const unzip = new Unzip(file => {
+    // Files that are never started are skipped without being inflated
+    if (!isCodeFile(file.name)) return;
+    const chunks: Uint8Array[] = [];
+    file.ondata = (error, chunk, final) => {
+      if (error) throw error;
+      total += chunk.length;
+      if (total > MAX_EXTRACTED_BYTES) throw tooLarge();
+      chunks.push(chunk);
+      if (final) entries.push({ path: file.name, data: concat(chunks) });
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+  pushInChunks(unzip, data);
+  return entries;
+};
+
+const readTarString = (block: Uint8Array, offset: number, length: number) => {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return strFromU8(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+// Minimal ustar reader: regular files only, with GNU long names and pax path headers
+const untar = (data: Uint8Array) => {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let total = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readTarString(header, 345, 155);
+    const name = readTarString(header, 0, 100);
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longName = strFromU8(body).replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      const match = strFromU8(body).match(/\d+ path=([^\n]*)\n/);
+      longName = match ? match[1] : null;
+      continue;
+    }
+
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = null;
+    if (type !== '0' && type !== '\0') continue;
+
+    total += size;
+    if (total > MAX_EXTRACTED_BYTES) throw tooLarge();
+    entries.push({ path, data: body });
+  }
+
+  return entries;
+};
+
+// Strip the single top-level directory most archives wrap everything in (e.g. "my-repo-main/")
+const stripCommonRoot = (files: CodeFile[]) => {
+  const roots = new Set(files.map(file => file.path.split('/')[0]));
+  if (roots.size !== 1 || files.some(file => !file.path.includes('/'))) return files;
+  return files.map(file => ({ ...file, path: file.path.split('/').slice(1).join('/') }));
+};
+
+export const extractArchive = (name: string, data: Uint8Array): CodeFile[] => {
+  const lower = name.toLowerCase();
+  let entries: ArchiveEntry[];
+
+  try {
+    if (lower.endsWith('.zip')) {
+      entries = unzipCapped(data);
+    } else if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
+      entries = untar(gunzipCapped(data));
+    } else if (lower.endsWith('.tar')) {
+      entries = untar(data);
+    } else {
+      throw new ArchiveError('Unsupported archive type. Use .zip, .tar, .tar.gz or .tgz');
+    }
+  } catch (error) {
+    if (error instanceof ArchiveError) throw error;
+    throw new ArchiveError('Could not read archive: the file is corrupt or not a valid archive');
+  }
+
+  return stripCommonRoot(
+    entries
+      .filter(entry => !entry.path.endsWith('/') && isCodeFile(entry.path))
+      .map(entry => ({ path: normalizePath(entry.path), content: strFromU8(entry.data) }))
+  );
+};
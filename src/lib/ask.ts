@@ -0,0 +1,224 @@
+import { isCodeFile, languageFor } from './code-files';
+import { formatCommitList, formatHistory } from './git-history';
+import { getAskPrompt, historyContext } from './prompts';
+import { CompletionUsage, getResilientProvider, resolveCompletionOptions } from './providers';
+import { HandoffRecord, HandoffSources } from './store';
+import { estimateTokens, getTokenBudget, InputTooLargeError } from './tokens';
+import { formatTranscriptHeader, formatTurn } from './transcript';
+import { AskCitation, AskMessage, AskRequest, AskResponse, CodeFile } from './types';
+
+// Follow-up questions about a stored handoff, answered from the redacted transcript, code and history it was
+// generated from. Citations in the answer are resolved back to the turn or lines they point at.
+
+const MAX_QUESTION_CHARS = 2000;
+const MAX_CONVERSATION_MESSAGES = 20;
+const MAX_MESSAGE_CHARS = 8000;
+// Answers are short; this keeps most of the context window for the sources
+const ASK_MAX_TOKENS = 1024;
+// Words shorter than this do not help pick relevant turns and files
+const MIN_TERM_LENGTH = 4;
+const MAX_EXCERPT_LINES = 12;
+const TURN_EXCERPT_CHARS = 300;
+
+const TURN_CITATION_PATTERN = /(?:\[|\(|\bturns?\s+)#(\d+)(?:\s*[-–]\s*#?(\d+))?/gi;
+const FILE_CITATION_PATTERN = /([\w@.\/-]*[\w-]\.\w+):(\d+)(?:\s*[-–]\s*(\d+))?/g;
+
+const isAskMessageList = (messages: unknown): messages is AskMessage[] =>
+  Array.isArray(messages) && messages.every(message =>
+    typeof message === 'object' && message !== null &&
+    (message.role === 'user' || message.role === 'assistant') &&
+    typeof message.content === 'string' && message.content.length <= MAX_MESSAGE_CHARS
+  );
+
+// Shape checks on a request body; returns the message for a 400, or null
+export const validateAskRequest = (body: AskRequest) => {
+  if (typeof body.question !== 'string' || !body.question.trim()) {
+    return 'question is required';
+  }
+  if (body.question.length > MAX_QUESTION_CHARS) {
+    return `question must be at most ${MAX_QUESTION_CHARS} characters`;
+  }
+  if (body.conversation !== undefined &&
+    !(isAskMessageList(body.conversation) && body.conversation.length <= MAX_CONVERSATION_MESSAGES)) {
+    return `conversation must be an array of at most ${MAX_CONVERSATION_MESSAGES} { role: 'user' | 'assistant', content } messages`;
+  }
+  return null;
+};
+
+// Every line numbered, so answers can cite path:line
+const formatNumberedFile = (file: CodeFile) => {
+  const lines = file.content.replace(/\n$/, '').split('\n');
+  const width = String(lines.length).length;
+  const fence = file.content.includes('```') ? '````' : '```';
+  const numbered = lines.map((line, index) => `${String(index + 1).padStart(width)} | ${line}`).join('\n');
+  return `### File: ${file.path}\n${fence}${languageFor(file.path)}\n${numbered}\n${fence}`;
+};
+
+const formatConversation = (conversation: AskMessage[]) =>
+  conversation.map(message => `${message.role === 'user' ? 'Q' : 'A'}: ${message.content}`).join('\n\n');
+
+const termsOf = (text: string) =>
+  new Set((text.toLowerCase().match(/[\w$]+/g) ?? []).filter(term => term.length >= MIN_TERM_LENGTH));
+
+// How many of the question's words a turn or file mentions
+const relevance = (terms: Set<string>, text: string) => {
+  const lower = text.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    if (lower.includes(term)) score++;
+  }
+  return score;
+};
+
+interface Section {
+  kind: 'turn' | 'file';
+  text: string;
+}
+
+// Fill the budget with the sections most relevant to the terms, keeping their original order
+const selectSections = (sections: Section[], terms: Set<string>, budget: number) => {
+  const ranked = sections
+    .map((section, order) => ({ ...section, order, tokens: estimateTokens(section.text), score: relevance(terms, section.text) }))
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+  const chosen: typeof ranked = [];
+  let used = 0;
+  for (const section of ranked) {
+    if (used + section.tokens > budget) continue;
+    chosen.push(section);
+    used += section.tokens;
+  }
+  return chosen.sort((a, b) => a.order - b.order);
+};
+
+const buildAskPrompt = (record: HandoffRecord, sources: HandoffSources, request: AskRequest, promptBudget: number) => {
+  const { transcript, files, history } = sources;
+  const conversation = formatConversation(request.conversation ?? []);
+  const handoff = sources.previous
+    ? `${record.output}\n\n### The handoff it revised:\n${sources.previous}`
+    : record.output;
+  const turnTexts = transcript.turns.map(formatTurn);
+  const fileTexts = files.map(formatNumberedFile);
+
+  const render = (turns: string[], code: string[], historyText: string) => getAskPrompt({
+    handoff,
+    transcript: [formatTranscriptHeader(transcript), ...turns].join('\n\n'),
+    code: code.join('\n\n') || 'No code was provided.',
+    history: historyText,
+    conversation,
+    question: request.question.trim(),
+  });
+
+  // Everything, with full diffs and then one line per commit
+  const fullHistory = historyContext(history ? formatHistory(history) : '');
+  const compactHistory = historyContext(history ? formatCommitList(history) : '');
+  for (const historyText of [fullHistory, compactHistory]) {
+    const prompt = render(turnTexts, fileTexts, historyText);
+    if (estimateTokens(prompt) <= promptBudget) return { prompt };
+  }
+
+  // Otherwise only the turns and files that share the most words with the question and recent conversation
+  const scaffold = render([], [], compactHistory);
+  const available = promptBudget - estimateTokens(scaffold);
+  if (available <= 0) {
+    const tokens = estimateTokens(scaffold);
+    throw new InputTooLargeError(
+      `The handoff and question alone are ~${tokens} tokens, more than the ${promptBudget} available for the prompt. Raise LLM_CONTEXT_TOKENS.`,
+      tokens,
+      promptBudget
+    );
+  }
+  const terms = termsOf([request.question, ...(request.conversation ?? []).slice(-2).map(message => message.content)].join(' '));
+  const chosen = selectSections([
+    ...turnTexts.map(text => ({ kind: 'turn' as const, text })),
+    ...fileTexts.map(text => ({ kind: 'file' as const, text })),
+  ], terms, available);
+  const chosenTurns = chosen.filter(section => section.kind === 'turn').map(section => section.text);
+  const chosenFiles = chosen.filter(section => section.kind === 'file').map(section => section.text);
+
+  return {
+    prompt: render(chosenTurns, chosenFiles, compactHistory),
+    omitted: { turns: turnTexts.length - chosenTurns.length, files: fileTexts.length - chosenFiles.length },
+  };
+};
+
+const excerptOf = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > TURN_EXCERPT_CHARS ? `${flat.slice(0, TURN_EXCERPT_CHARS - 1)}…` : flat;
+};
+
+// Resolve each turn and file:line citation in the answer against the sources
+const resolveCitations = (answer: string, sources: HandoffSources): AskCitation[] => {
+  const citations = new Map<string, AskCitation>();
+
+  for (const match of answer.matchAll(TURN_CITATION_PATTERN)) {
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    for (let index = from; index <= Math.min(to, from + 20); index++) {
+      const turn = sources.transcript.turns.find(candidate => candidate.index === index);
+      citations.set(`turn:${index}`, {
+        kind: 'turn',
+        text: `#${index}`,
+        turn: index,
+        ...(turn && { excerpt: excerptOf(turn.text) }),
+      });
+    }
+  }
+
+  for (const match of answer.matchAll(FILE_CITATION_PATTERN)) {
+    const [text, cited] = match;
+    const startLine = Number(match[2]);
+    const endLine = Math.max(startLine, Number(match[3] ?? match[2]));
+    // `auth.ts:12` may cite `src/lib/auth.ts`
+    const file = sources.files.find(candidate => candidate.path === cited) ??
+      sources.files.find(candidate => candidate.path.endsWith(`/${cited}`));
+    // Host names with ports look the same, e.g. example.com:8080
+    if (!file && !isCodeFile(cited)) continue;
+    const lines = file?.content.split('\n');
+    const found = lines && startLine >= 1 && startLine <= lines.length;
+    citations.set(`file:${text}`, {
+      kind: 'file',
+      text,
+      path: file?.path ?? cited,
+      startLine,
+      endLine,
+      ...(found && { excerpt: lines.slice(startLine - 1, Math.min(endLine, startLine + MAX_EXCERPT_LINES - 1)).join('\n') }),
+    });
+  }
+
+  return [...citations.values()];
+};
+
+export interface AskContext {
+  signal?: AbortSignal;
+  // Called for every upstream call, for quota accounting
+  onUsage?: (usage: CompletionUsage) => void;
+}
+
+export const answerQuestion = async (
+  record: HandoffRecord,
+  sources: HandoffSources,
+  request: AskRequest,
+  context: AskContext = {}
+): Promise<AskResponse> => {
+  const provider = getResilientProvider(undefined, context.onUsage);
+  const options = resolveCompletionOptions(record.type, provider, { maxTokens: ASK_MAX_TOKENS });
+  const { prompt, omitted } = buildAskPrompt(record, sources, request, getTokenBudget().contextTokens - options.maxTokens);
+
+  // Answers should stay close to the sources
+  const result = await provider.complete({
+    ...options,
+    temperature: Math.min(options.temperature, 0.3),
+    messages: [{ role: 'user', content: prompt }],
+    signal: context.signal,
+  });
+  const served = provider.attempts.findLast(attempt => attempt.outcome === 'ok');
+
+  return {
+    answer: result.content,
+    citations: resolveCitations(result.content, sources),
+    ...(omitted && { omitted }),
+    provider: served?.provider ?? provider.name,
+    model: result.model,
+    attempts: [...provider.attempts],
+  };
+};
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ApiKeyRecord, ApiKeyStore } from './types';
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// One JSON file per key; usage updates are queued so concurrent requests do not overwrite each other
+export const createFileKeyStore = (directory: string): ApiKeyStore => {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+  let writes = Promise.resolve();
+
+  const write = async (record: ApiKeyRecord) => {
+    await fs.mkdir(directory, { recursive: true });
+    // Write then rename so readers never see a half-written record
+    const temporary = `${fileFor(record.id)}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(record, null, 2));
+    await fs.rename(temporary, fileFor(record.id));
+  };
+
+  const read = async (id: string) => {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(fileFor(id), 'utf8')) as ApiKeyRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const readAll = async () => {
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const records = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(async name => JSON.parse(await fs.readFile(path.join(directory, name), 'utf8')) as ApiKeyRecord)
+    );
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  };
+
+  const enqueue = (update: () => Promise<void>) => {
+    const next = writes.then(update);
+    writes = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    save(record) {
+      return enqueue(() => write(record));
+    },
+
+    get: read,
+
+    async findByHash(hash) {
+      return (await readAll()).find(record => record.hash === hash) ?? null;
+    },
+
+    list: readAll,
+
+    addUsage(id, month, tokens) {
+      return enqueue(async () => {
+        const record = await read(id);
+        if (!record) return;
+        record.usage[month] = (record.usage[month] ?? 0) + tokens;
+        record.lastUsedAt = new Date().toISOString();
+        await write(record);
+      });
+    },
+  };
+};
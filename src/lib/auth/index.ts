@@ -0,0 +1,162 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { createFileKeyStore } from './file';
+import { createMemoryKeyStore } from './memory';
+import { isPeerAddressStamped, PEER_ADDRESS_HEADER } from './peer-address';
+import { takeToken } from './rate-limit';
+import { ApiKeyRecord, ApiKeyStore, AuthError, toKeySummary } from './types';
+
+export * from './types';
+
+const DEFAULT_STORE_DIR = '.data/api-keys';
+const KEY_PREFIX = 'hk_';
+const DEFAULT_RATE_LIMIT_PER_IP = 30;
+const DEFAULT_RATE_LIMIT_PER_KEY = 60;
+
+// Kept on globalThis so the memory store survives dev-server module reloads
+const globalStore = globalThis as typeof globalThis & { __apiKeyStore?: ApiKeyStore };
+
+// API_KEY_STORE picks the backend: "file" (default, under API_KEY_STORE_DIR) or "memory"
+export const getApiKeyStore = (): ApiKeyStore => {
+  if (!globalStore.__apiKeyStore) {
+    globalStore.__apiKeyStore = process.env.API_KEY_STORE === 'memory'
+      ? createMemoryKeyStore()
+      : createFileKeyStore(path.resolve(process.env.API_KEY_STORE_DIR || DEFAULT_STORE_DIR));
+  }
+  return globalStore.__apiKeyStore;
+};
+
+const envInteger = (variable: string, fallback?: number) => {
+  const parsed = parseInt(process.env[variable] || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// API_AUTH: "required" or "off"; defaults to required in production builds so a deployment is never left open
+export const isAuthRequired = () =>
+  (process.env.API_AUTH || (process.env.NODE_ENV === 'production' ? 'required' : 'off')) === 'required';
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+export const currentMonth = (now = new Date()) => now.toISOString().slice(0, 7);
+
+const secondsUntilNextMonth = (now = new Date()) =>
+  Math.ceil((Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - now.getTime()) / 1000);
+
+export const monthlyQuota = (record: ApiKeyRecord) => record.monthlyTokenQuota ?? envInteger('API_KEY_MONTHLY_TOKENS');
+
+export interface NewApiKey {
+  name: string;
+  monthlyTokenQuota?: number;
+  rateLimitPerMinute?: number;
+}
+
+// Returns the key itself once; only its hash is stored
+export const createApiKey = async ({ name, monthlyTokenQuota, rateLimitPerMinute }: NewApiKey) => {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: randomBytes(9).toString('base64url'),
+    name,
+    hash: hashKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+    ...(monthlyTokenQuota !== undefined && { monthlyTokenQuota }),
+    ...(rateLimitPerMinute !== undefined && { rateLimitPerMinute }),
+    usage: {},
+  };
+  await getApiKeyStore().save(record);
+  return { key, record };
+};
+
+export const revokeApiKey = async (id: string) => {
+  const store = getApiKeyStore();
+  const record = await store.get(id);
+  if (!record) return null;
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    await store.save(record);
+  }
+  return record;
+};
+
+// X-Forwarded-For is only believed as far back as the TRUST_PROXY proxies in front of the server: each appended
+// the address it saw, so the client is the right-most entry they did not add. Anything further left, and the whole
+// header when no proxy is trusted, came from the client and would give it a fresh bucket per request.
+// The peer header is ignored unless the server stamps it (see instrumentation.ts), since a client could send it too.
+const clientAddress = (request: Request) => {
+  const peer = isPeerAddressStamped() ? request.headers.get(PEER_ADDRESS_HEADER) : null;
+  const trustedHops = envInteger('TRUST_PROXY', 0)!;
+  const forwarded = trustedHops
+    ? (request.headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim()).filter(Boolean)
+    : [];
+  // Without the peer, the address the nearest trusted proxy saw is the right-most entry in the header
+  const chain = peer ? [...forwarded, peer] : forwarded;
+  const address = chain[Math.max(0, chain.length - (peer ? 1 : 0) - trustedHops)];
+
+  // Fail closed: one bucket shared by every caller would let a single client throttle them all
+  if (!address) {
+    throw new AuthError('Client address unavailable: the server could not tell callers apart', 503);
+  }
+  return address;
+};
+
+const limit = (bucket: string, perMinute: number) => {
+  const waitMs = takeToken(bucket, perMinute);
+  if (waitMs) {
+    throw new AuthError('Too many requests. Please slow down.', 429, Math.ceil(waitMs / 1000));
+  }
+};
+
+// Rate limits every caller by address, then (when auth is required) checks the bearer key, its rate limit and
+// its monthly quota. Returns the key, or null when auth is off. Throws AuthError.
+export const authorizeRequest = async (request: Request): Promise<ApiKeyRecord | null> => {
+  limit(`ip:${clientAddress(request)}`, envInteger('RATE_LIMIT_PER_IP', DEFAULT_RATE_LIMIT_PER_IP)!);
+  if (!isAuthRequired()) return null;
+
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    throw new AuthError('API key required: send Authorization: Bearer <key>', 401);
+  }
+  const record = await getApiKeyStore().findByHash(hashKey(token));
+  if (!record || record.revokedAt) {
+    throw new AuthError('Invalid or revoked API key', 401);
+  }
+
+  limit(`key:${record.id}`, record.rateLimitPerMinute ?? envInteger('RATE_LIMIT_PER_KEY', DEFAULT_RATE_LIMIT_PER_KEY)!);
+
+  const quota = monthlyQuota(record);
+  if (quota !== undefined && (record.usage[currentMonth()] ?? 0) >= quota) {
+    throw new AuthError('Monthly token quota exceeded', 429, secondsUntilNextMonth());
+  }
+  return record;
+};
+
+// Usage accounting must never fail a generation
+export const recordUsage = (record: ApiKeyRecord, tokens: number) => {
+  getApiKeyStore().addUsage(record.id, currentMonth(), tokens).catch(error => {
+    console.error('Failed to record API key usage:', error);
+  });
+};
+
+// The admin API is disabled unless ADMIN_TOKEN is set; compare hashes so timing reveals nothing about the token
+export const isAdminEnabled = () => Boolean(process.env.ADMIN_TOKEN);
+
+export const isAdminRequest = (request: Request) => {
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const expected = process.env.ADMIN_TOKEN;
+  if (!token || !expected) return false;
+  return timingSafeEqual(Buffer.from(hashKey(token), 'hex'), Buffer.from(hashKey(expected), 'hex'));
+};
+
+// What the admin API shows for a key: never the hash, plus this month's usage against its quota
+export const describeApiKey = (record: ApiKeyRecord) => {
+  const quota = monthlyQuota(record);
+  const tokens = record.usage[currentMonth()] ?? 0;
+  return {
+    ...toKeySummary(record),
+    currentMonth: {
+      month: currentMonth(),
+      tokens,
+      ...(quota !== undefined && { quota, remaining: Math.max(0, quota - tokens) }),
+    },
+  };
+};
@@ -0,0 +1,32 @@
+import { ApiKeyRecord, ApiKeyStore } from './types';
+
+// Process-local store for tests and ephemeral deployments
+export const createMemoryKeyStore = (): ApiKeyStore => {
+  const records = new Map<string, ApiKeyRecord>();
+
+  return {
+    async save(record) {
+      records.set(record.id, record);
+    },
+
+    async get(id) {
+      return records.get(id) ?? null;
+    },
+
+    async findByHash(hash) {
+      return Array.from(records.values()).find(record => record.hash === hash) ?? null;
+    },
+
+    async list() {
+      return Array.from(records.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async addUsage(id, month, tokens) {
+      const record = records.get(id);
+      if (record) {
+        record.usage[month] = (record.usage[month] ?? 0) + tokens;
+        record.lastUsedAt = new Date().toISOString();
+      }
+    },
+  };
+};
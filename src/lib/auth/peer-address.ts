@@ -0,0 +1,30 @@
+import { subscribe } from 'diagnostics_channel';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+
+// Route handlers only see headers, not the socket, so the server copies each connection's address into this header.
+// It overwrites whatever a client sends under the same name.
+export const PEER_ADDRESS_HEADER = 'x-handoff-peer-address';
+
+const globalStamp = globalThis as typeof globalThis & { __peerAddressStamped?: boolean };
+
+// Node publishes every incoming request on this channel before the server's request handlers run
+const REQUEST_START_CHANNEL = 'http.server.request.start';
+
+interface RequestStart {
+  request: IncomingMessage;
+  response: ServerResponse;
+  socket: Socket;
+}
+
+export const stampPeerAddresses = () => {
+  if (globalStamp.__peerAddressStamped) return;
+  subscribe(REQUEST_START_CHANNEL, message => {
+    const { request, socket } = message as RequestStart;
+    request.headers[PEER_ADDRESS_HEADER] = socket.remoteAddress ?? '';
+  });
+  globalStamp.__peerAddressStamped = true;
+};
+
+// Until the stamp is running, the header can only have come from the client
+export const isPeerAddressStamped = () => Boolean(globalStamp.__peerAddressStamped);
@@ -0,0 +1,43 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  perMinute: number;
+}
+
+// Full buckets carry no state worth keeping; drop them once this many keys are tracked
+const MAX_BUCKETS = 10000;
+
+// Kept on globalThis so limits survive dev-server module reloads; they are per process, not shared between instances
+const globalBuckets = globalThis as typeof globalThis & { __rateLimitBuckets?: Map<string, Bucket> };
+
+const buckets = () => {
+  if (!globalBuckets.__rateLimitBuckets) {
+    globalBuckets.__rateLimitBuckets = new Map();
+  }
+  return globalBuckets.__rateLimitBuckets;
+};
+
+// Token bucket: bursts of up to `perMinute` requests, refilled continuously.
+// Returns 0 when the request may proceed, otherwise the milliseconds until it could.
+export const takeToken = (key: string, perMinute: number) => {
+  if (perMinute <= 0) return 0;
+  const now = Date.now();
+  const all = buckets();
+  const bucket = all.get(key) ?? { tokens: perMinute, updatedAt: now, perMinute };
+  bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * perMinute / 60000);
+  bucket.updatedAt = now;
+  bucket.perMinute = perMinute;
+
+  if (!all.has(key) && all.size >= MAX_BUCKETS) {
+    for (const [name, other] of all) {
+      if (other.tokens + (now - other.updatedAt) * other.perMinute / 60000 >= other.perMinute) all.delete(name);
+    }
+  }
+  all.set(key, bucket);
+
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return 0;
+  }
+  return Math.ceil((1 - bucket.tokens) * 60000 / perMinute);
+};
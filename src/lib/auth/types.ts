@@ -0,0 +1,47 @@
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // sha256 of the key; the key itself is only shown once, when it is created
+  hash: string;
+  // First characters of the key, so people can tell their keys apart
+  prefix: string;
+  createdAt: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+  // Per-key overrides of API_KEY_MONTHLY_TOKENS and RATE_LIMIT_PER_KEY
+  monthlyTokenQuota?: number;
+  rateLimitPerMinute?: number;
+  // Upstream tokens used per calendar month (UTC), e.g. { "2026-10": 120000 }
+  usage: Record<string, number>;
+}
+
+// What the admin API shows: everything but the hash
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash'>;
+
+export interface ApiKeyStore {
+  save(record: ApiKeyRecord): Promise<void>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(hash: string): Promise<ApiKeyRecord | null>;
+  // Newest first
+  list(): Promise<ApiKeyRecord[]>;
+  // Adds to the month's usage without losing concurrent updates
+  addUsage(id: string, month: string, tokens: number): Promise<void>;
+}
+
+export class AuthError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export const toKeySummary = (record: ApiKeyRecord): ApiKeySummary => {
+  const summary: Partial<ApiKeyRecord> = { ...record };
+  delete summary.hash;
+  return summary as ApiKeySummary;
+};
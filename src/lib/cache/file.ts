@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CachedGeneration, GenerationCache } from './types';
+
+const KEY_PATTERN = /^[a-f0-9]+$/;
+
+// One JSON file per key; expired files are removed when they are next read
+export const createFileCache = (directory: string): GenerationCache => {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      if (!KEY_PATTERN.test(key)) return null;
+      let stored: { entry: CachedGeneration; expiresAt: number };
+      try {
+        stored = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+      if (stored.expiresAt <= Date.now()) {
+        await fs.rm(fileFor(key), { force: true });
+        return null;
+      }
+      return stored.entry;
+    },
+
+    async set(key, entry, ttlMs) {
+      await fs.mkdir(directory, { recursive: true });
+      // Write then rename so readers never see a half-written entry
+      const temporary = `${fileFor(key)}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify({ entry, expiresAt: Date.now() + ttlMs }));
+      await fs.rename(temporary, fileFor(key));
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { createFileCache } from './file';
+import { createMemoryCache } from './memory';
+import { createRedisCache } from './redis';
+import { CachedGeneration, GenerationCache } from './types';
+
+export * from './types';
+
+const DEFAULT_CACHE_DIR = '.data/cache';
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+// Everything that shapes an artifact's prompt and completion
+export interface GenerationCacheKey {
+  type: string;
+  format: string;
+  templateVersion: string;
+  templateBody: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  transcript: unknown;
+  code: string;
+  history?: unknown;
+  author?: string;
+  ticket?: string;
+  previous?: string;
+}
+
+// Kept on globalThis so the memory cache survives dev-server module reloads
+const globalCache = globalThis as typeof globalThis & { __generationCache?: GenerationCache | null };
+
+const envNumber = (variable: string, fallback: number) => {
+  const parsed = Number(process.env[variable]);
+  return process.env[variable] && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// GENERATION_CACHE picks the backend: "memory" (default), "file" (under GENERATION_CACHE_DIR),
+// "redis" (at GENERATION_CACHE_URL) or "off"
+export const getGenerationCache = (): GenerationCache | null => {
+  if (globalCache.__generationCache === undefined) {
+    const backend = process.env.GENERATION_CACHE || 'memory';
+    if (backend === 'off') {
+      globalCache.__generationCache = null;
+    } else if (backend === 'file') {
+      globalCache.__generationCache = createFileCache(path.resolve(process.env.GENERATION_CACHE_DIR || DEFAULT_CACHE_DIR));
+    } else if (backend === 'redis') {
+      globalCache.__generationCache = createRedisCache(process.env.GENERATION_CACHE_URL || 'redis://localhost:6379');
+    } else {
+      globalCache.__generationCache = createMemoryCache(envNumber('GENERATION_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES));
+    }
+  }
+  return globalCache.__generationCache;
+};
+
+export const generationCacheTtlMs = () => envNumber('GENERATION_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS) * 1000;
+
+export const generationCacheKey = (key: GenerationCacheKey) =>
+  createHash('sha256').update(JSON.stringify(key)).digest('hex');
+
+// The cache only saves time and money: when it fails, generate as if it were empty
+export const readCachedGeneration = async (cache: GenerationCache, key: string) => {
+  try {
+    return await cache.get(key);
+  } catch (error) {
+    console.error('Generation cache read failed:', error);
+    return null;
+  }
+};
+
+export const writeCachedGeneration = async (cache: GenerationCache, key: string, entry: CachedGeneration) => {
+  try {
+    await cache.set(key, entry, generationCacheTtlMs());
+  } catch (error) {
+    console.error('Generation cache write failed:', error);
+  }
+};
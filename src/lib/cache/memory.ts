@@ -0,0 +1,25 @@
+import { CachedGeneration, GenerationCache } from './types';
+
+// Process-local LRU: a Map iterates in insertion order, so re-inserting on read keeps the oldest entry first
+export const createMemoryCache = (maxEntries: number): GenerationCache => {
+  const entries = new Map<string, { entry: CachedGeneration; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const found = entries.get(key);
+      if (!found) return null;
+      entries.delete(key);
+      if (found.expiresAt <= Date.now()) return null;
+      entries.set(key, found);
+      return found.entry;
+    },
+
+    async set(key, entry, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+};
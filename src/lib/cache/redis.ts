@@ -0,0 +1,140 @@
+import net from 'net';
+import tls from 'tls';
+import { GenerationCache } from './types';
+
+const DEFAULT_PORT = 6379;
+const KEY_PREFIX = 'handoff:generation:';
+// A slow cache should cost a miss, not a stalled generation
+const COMMAND_TIMEOUT_MS = 2000;
+
+type Reply = string | number | null | Error | Reply[];
+
+interface PendingCommand {
+  resolve(reply: Reply): void;
+  reject(error: Error): void;
+}
+
+// Parses one RESP reply starting at `start`; null until the whole reply has arrived
+const parseReply = (data: Buffer, start: number): { reply: Reply; end: number } | null => {
+  const lineEnd = data.indexOf('\r\n', start);
+  if (lineEnd === -1) return null;
+  const line = data.toString('utf8', start + 1, lineEnd);
+
+  switch (String.fromCharCode(data[start])) {
+    case '+':
+      return { reply: line, end: lineEnd + 2 };
+    case '-':
+      return { reply: new Error(line), end: lineEnd + 2 };
+    case ':':
+      return { reply: Number(line), end: lineEnd + 2 };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { reply: null, end: lineEnd + 2 };
+      const end = lineEnd + 2 + length + 2;
+      return data.length < end ? null : { reply: data.toString('utf8', lineEnd + 2, end - 2), end };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { reply: null, end: lineEnd + 2 };
+      const items: Reply[] = [];
+      let end = lineEnd + 2;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(data, end);
+        if (!item) return null;
+        items.push(item.reply);
+        end = item.end;
+      }
+      return { reply: items, end };
+    }
+    default:
+      throw new Error('Unexpected reply from Redis');
+  }
+};
+
+const encodeCommand = (args: string[]) =>
+  `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+
+// Speaks just enough RESP for GET and SET, so any Redis-compatible server works (Redis, Valkey, KeyDB, Upstash...)
+export const createRedisCache = (url: string): GenerationCache => {
+  const target = new URL(url);
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  const pending: PendingCommand[] = [];
+
+  const send = (connection: net.Socket, args: string[]) => new Promise<Reply>((resolve, reject) => {
+    // Replies are matched to commands by order, so a late reply would shift every later one: drop the connection
+    const timer = setTimeout(() => connection.destroy(new Error('Redis command timed out')), COMMAND_TIMEOUT_MS);
+    pending.push({
+      resolve: reply => {
+        clearTimeout(timer);
+        if (reply instanceof Error) reject(reply);
+        else resolve(reply);
+      },
+      reject: error => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    });
+    connection.write(encodeCommand(args));
+  });
+
+  const connect = () => {
+    if (socket) return socket;
+
+    const host = target.hostname || 'localhost';
+    const port = Number(target.port) || DEFAULT_PORT;
+    const connection = target.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    let failure: Error | undefined;
+
+    connection.unref();
+    connection.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let parsed;
+        while (pending.length && (parsed = parseReply(buffer, 0))) {
+          buffer = buffer.subarray(parsed.end);
+          pending.shift()!.resolve(parsed.reply);
+        }
+      } catch (error) {
+        // Not RESP (say, the URL points at an HTTP port) or a corrupted stream: fail every pending command, not
+        // the process, and start over on a fresh connection
+        connection.destroy(error as Error);
+      }
+    });
+    connection.on('error', error => {
+      failure = error;
+    });
+    connection.on('close', () => {
+      if (socket === connection) socket = null;
+      buffer = Buffer.alloc(0);
+      for (const command of pending.splice(0)) {
+        command.reject(failure ?? new Error('Redis connection closed'));
+      }
+    });
+    socket = connection;
+
+    // Queued ahead of the first command, so it only runs once authenticated and on the right database
+    if (target.password) {
+      const credentials = [target.username, target.password].filter(Boolean).map(decodeURIComponent);
+      send(connection, ['AUTH', ...credentials]).catch(() => undefined);
+    }
+    const database = target.pathname.slice(1);
+    if (database) {
+      send(connection, ['SELECT', database]).catch(() => undefined);
+    }
+    return connection;
+  };
+
+  return {
+    async get(key) {
+      const reply = await send(connect(), ['GET', KEY_PREFIX + key]);
+      return typeof reply === 'string' ? JSON.parse(reply) : null;
+    },
+
+    async set(key, entry, ttlMs) {
+      await send(connect(), ['SET', KEY_PREFIX + key, JSON.stringify(entry), 'PX', String(Math.max(1, Math.round(ttlMs)))]);
+    },
+  };
+};
@@ -0,0 +1,19 @@
+import { StructuredHandoff } from '../structured-handoff';
+
+// One generated artifact, as served again for identical inputs
+export interface CachedGeneration {
+  content: string;
+  provider: string;
+  model: string;
+  // Structured cursor contexts keep the validated object alongside its markdown
+  structured?: StructuredHandoff;
+  repairs?: number;
+  // Stored handoff created by the original generation, so a cache hit shares the same link
+  handoffId?: string;
+  createdAt: string;
+}
+
+export interface GenerationCache {
+  get(key: string): Promise<CachedGeneration | null>;
+  set(key: string, entry: CachedGeneration, ttlMs: number): Promise<void>;
+}
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode, appendCodeDigest, CODE_DIGEST_HEADING, formatCodeDigest, stripCodeDigest } from './code-digest';
+
+const files = [
+  {
+    path: 'src/lib/upload.ts',
+    content: [
+      "import { readFile } from 'node:fs/promises';",
+      "import path from 'path';",
+      "import axios from 'axios';",
+      "import { get } from 'lodash/get';",
+      "import { Schema } from '@acme/schemas/upload';",
+      "import { backoff } from './backoff.js';",
+      "import { logger } from '@/lib/logger';",
+      "import { missing } from './missing';",
+      '',
+      'export async function uploadFile(file: string) {',
+      '  // TODO: retry on 503',
+      '  return fetch(`https://api.acme.io/v1/upload`, { headers: { key: process.env.UPLOAD_KEY } });',
+      '}',
+      "export const BUCKET = process.env['UPLOAD_BUCKET'];",
+      'export default class Uploader {}',
+      'export { backoff as retry, type Schema };',
+    ].join('\n'),
+  },
+  { path: 'src/lib/backoff.ts', content: 'export const backoff = () => 1;' },
+  { path: 'src/lib/logger/index.ts', content: 'module.exports = {};' },
+  {
+    path: 'worker/tasks.py',
+    content: [
+      'import os, json',
+      'import requests',
+      'from .queue import enqueue',
+      'from .gone import nothing',
+      '',
+      'MAX_TRIES: int = 3',
+      '',
+      'def run():',
+      "    token = os.environ.get('WORKER_TOKEN')",
+      "    requests.post('https://hooks.acme.io/done')",
+      '    # FIXME - handle timeouts',
+      '',
+      'class _Private:',
+      '    pass',
+    ].join('\n'),
+  },
+  { path: 'worker/queue.py', content: 'def enqueue():\n    pass' },
+  { path: 'README.md', content: '<!-- TODO document the worker -->' },
+];
+
+describe('analyzeCode', () => {
+  const digest = analyzeCode(files);
+  const fileDigest = (path: string) => digest.files.find(file => file.path === path)!;
+
+  it('lists what each script exports and which uploaded files it imports', () => {
+    assert.deepEqual(fileDigest('src/lib/upload.ts'), {
+      path: 'src/lib/upload.ts',
+      exports: ['uploadFile', 'BUCKET', 'Uploader', 'retry', 'Schema'],
+      dependsOn: ['src/lib/backoff.ts', 'src/lib/logger/index.ts'],
+      unresolved: ['./missing'],
+    });
+    assert.deepEqual(fileDigest('src/lib/logger/index.ts').exports, ['module.exports']);
+  });
+
+  it('reads Python definitions and relative imports', () => {
+    assert.deepEqual(fileDigest('worker/tasks.py'), {
+      path: 'worker/tasks.py',
+      exports: ['MAX_TRIES', 'run'],
+      dependsOn: ['worker/queue.py'],
+      unresolved: ['.gone'],
+    });
+  });
+
+  it('collects packages, environment variables, URLs and TODOs, leaving out built-in modules', () => {
+    assert.deepEqual([...digest.packages.keys()].sort(), ['@acme/schemas', 'axios', 'lodash', 'requests']);
+    assert.deepEqual(Object.fromEntries(digest.envVars), {
+      UPLOAD_KEY: ['src/lib/upload.ts'],
+      UPLOAD_BUCKET: ['src/lib/upload.ts'],
+      WORKER_TOKEN: ['worker/tasks.py'],
+    });
+    assert.deepEqual([...digest.urls.keys()], ['https://api.acme.io/v1/upload', 'https://hooks.acme.io/done']);
+    assert.deepEqual(digest.todos, [
+      { path: 'src/lib/upload.ts', line: 11, tag: 'TODO', text: 'retry on 503' },
+      { path: 'worker/tasks.py', line: 11, tag: 'FIXME', text: 'handle timeouts' },
+      { path: 'README.md', line: 1, tag: 'TODO', text: 'document the worker' },
+    ]);
+  });
+});
+
+describe('formatCodeDigest', () => {
+  it('renders one subsection per kind of fact', () => {
+    const markdown = formatCodeDigest(analyzeCode(files));
+
+    assert.deepEqual(markdown.match(/^### .+$/gm), [
+      '### Exported Symbols',
+      '### Internal Dependencies',
+      '### Packages',
+      '### Environment Variables',
+      '### External URLs Called',
+      '### TODO / FIXME Comments',
+    ]);
+    assert.match(markdown, /^- `src\/lib\/upload\.ts` → `src\/lib\/backoff\.ts`, `src\/lib\/logger\/index\.ts`, `\.\/missing` \(not uploaded\)$/m);
+    assert.match(markdown, /^- `WORKER_TOKEN` \(worker\/tasks\.py\)$/m);
+    assert.match(markdown, /^- `worker\/tasks\.py:11` FIXME: handle timeouts$/m);
+  });
+
+  it('is empty when nothing was found, and cuts long lists off', () => {
+    assert.equal(formatCodeDigest(analyzeCode([{ path: 'notes.txt', content: 'nothing here' }])), '');
+
+    const many = Array.from({ length: 70 }, (_, index) => ({ path: `src/f${index}.ts`, content: `export const f${index} = ${index};` }));
+    const markdown = formatCodeDigest(analyzeCode(many));
+    assert.equal(markdown.split('\n').length, 1 + 60 + 1);
+    assert.ok(markdown.endsWith('- … and 10 more'));
+  });
+});
+
+describe('appendCodeDigest', () => {
+  it('replaces an appendix the text already carries', () => {
+    const once = appendCodeDigest('# Handoff\n', '### Packages\n- `axios` (a.ts)');
+    const twice = appendCodeDigest(once, '### Packages\n- `ky` (b.ts)');
+
+    assert.equal(twice.split(CODE_DIGEST_HEADING).length, 2);
+    assert.match(twice, /`ky`/);
+    assert.doesNotMatch(twice, /`axios`/);
+    assert.equal(stripCodeDigest(twice), '# Handoff');
+    assert.equal(appendCodeDigest('# Handoff', ''), '# Handoff');
+  });
+});
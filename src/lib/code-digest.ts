@@ -0,0 +1,272 @@
+import { CodeFile } from './types';
+
+// Static facts about the uploaded code, found without the model: what each file exports, what it imports (local
+// modules as a dependency graph, and packages), the environment variables it reads, the URLs it calls and its
+// TODO/FIXME comments. The digest grounds the prompt and is appended to handoffs verbatim.
+//
+// Analysis is line- and pattern-based rather than a full parse, so it covers TypeScript, JavaScript and Python
+// without a compiler, at the cost of missing unusual constructs.
+
+export interface FileDigest {
+  path: string;
+  exports: string[];
+  // Uploaded files this one imports
+  dependsOn: string[];
+  // Local imports that match no uploaded file
+  unresolved: string[];
+}
+
+export interface CodeDigest {
+  files: FileDigest[];
+  // Package name → files importing it
+  packages: Map<string, string[]>;
+  // Variable name → files reading it
+  envVars: Map<string, string[]>;
+  // URL → files calling it
+  urls: Map<string, string[]>;
+  todos: { path: string; line: number; tag: string; text: string }[];
+}
+
+// Each list in the digest is cut off here so it stays a small part of the prompt
+const MAX_ENTRIES = 60;
+const MAX_TODO_CHARS = 200;
+
+export const CODE_DIGEST_HEADING = '## Appendix: Code Digest';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+const NODE_BUILTINS = new Set([
+  'assert', 'async_hooks', 'buffer', 'child_process', 'cluster', 'console', 'crypto', 'dgram', 'dns', 'events', 'fs',
+  'http', 'http2', 'https', 'module', 'net', 'os', 'path', 'perf_hooks', 'process', 'querystring', 'readline', 'stream',
+  'string_decoder', 'timers', 'tls', 'tty', 'url', 'util', 'v8', 'vm', 'worker_threads', 'zlib',
+]);
+
+const PYTHON_STDLIB = new Set([
+  '__future__', 'abc', 'argparse', 'asyncio', 'base64', 'collections', 'contextlib', 'copy', 'csv', 'dataclasses',
+  'datetime', 'decimal', 'enum', 'functools', 'glob', 'hashlib', 'hmac', 'http', 'importlib', 'io', 'itertools', 'json',
+  'logging', 'math', 'multiprocessing', 'os', 'pathlib', 'pickle', 'random', 're', 'shutil', 'signal', 'socket',
+  'sqlite3', 'string', 'subprocess', 'sys', 'tempfile', 'threading', 'time', 'traceback', 'typing', 'unittest', 'urllib',
+  'uuid', 'warnings', 'xml', 'zipfile',
+]);
+
+const TODO_PATTERN = /(?:\/\/|\/\*+|^\s*\*|#|<!--)\s*(TODO|FIXME|HACK|XXX)\b[\s:(\-–]*(.*?)\s*(?:\*\/|-->)?\s*$/;
+
+const SCRIPT_EXPORT_PATTERNS = [
+  /^\s*export\s+(?:declare\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/,
+  /^\s*exports\.([A-Za-z_$][\w$]*)\s*=/,
+  /^\s*module\.exports\.([A-Za-z_$][\w$]*)\s*=/,
+];
+const SCRIPT_IMPORT_PATTERN = /(?:\bfrom\s+|\bimport\s+|\bimport\s*\(\s*|\brequire\s*\(\s*)['"]([^'"\n]+)['"]/g;
+const SCRIPT_ENV_PATTERN = /\b(?:process\.env|import\.meta\.env)(?:\.([A-Za-z_][\w]*)|\[\s*['"]([^'"]+)['"]\s*\])|\bDeno\.env\.get\(\s*['"]([^'"]+)['"]/g;
+const PYTHON_ENV_PATTERN = /\bos\.(?:environ(?:\.get\(\s*|\[\s*)|getenv\(\s*)['"]([^'"]+)['"]/g;
+// fetch(), axios, ky, got and Python's requests / httpx with a literal URL
+const URL_CALL_PATTERN = /\b(?:fetch|axios(?:\.\w+)?|ky(?:\.\w+)?|got(?:\.\w+)?|requests\.\w+|httpx\.\w+)\s*\(\s*['"`](https?:\/\/[^'"`\s]+)/g;
+
+const addTo = (map: Map<string, string[]>, key: string, path: string) => {
+  const paths = map.get(key) ?? [];
+  if (!paths.includes(path)) paths.push(path);
+  map.set(key, paths);
+};
+
+const extensionOf = (path: string) => path.slice(path.lastIndexOf('.')).toLowerCase();
+const isScript = (path: string) => SCRIPT_EXTENSIONS.includes(extensionOf(path));
+const isPython = (path: string) => extensionOf(path) === '.py';
+
+const directoryOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+// Collapse "." and ".." segments
+const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+// Package name of a bare specifier: "@scope/name/sub" → "@scope/name", "lodash/get" → "lodash"
+const packageOf = (specifier: string) => {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+};
+
+// The uploaded file an import refers to; "@/x" and "~/x" are taken as the usual aliases for src/x
+const resolveScriptImport = (from: string, specifier: string, paths: Set<string>) => {
+  const bases = specifier.startsWith('.')
+    ? [normalizePath(`${directoryOf(from)}/${specifier}`)]
+    : [`src/${specifier.slice(2)}`, specifier.slice(2)];
+  for (const base of bases) {
+    // ESM imports of TypeScript often name the compiled .js file
+    const stripped = base.replace(/\.(?:js|jsx|mjs|cjs)$/, '');
+    const candidates = [
+      base,
+      ...SCRIPT_EXTENSIONS.map(extension => stripped + extension),
+      ...SCRIPT_EXTENSIONS.map(extension => `${base}/index${extension}`),
+    ];
+    const found = candidates.find(candidate => paths.has(candidate));
+    if (found) return found;
+  }
+  return null;
+};
+
+const resolvePythonImport = (from: string, specifier: string, paths: Set<string>) => {
+  const dots = specifier.match(/^\.*/)![0].length;
+  const name = specifier.slice(dots).replace(/\./g, '/');
+  let base = dots ? directoryOf(from) : '';
+  for (let level = 1; level < dots; level++) base = directoryOf(base);
+  const stem = normalizePath([base, name].filter(Boolean).join('/'));
+  // Absolute imports may be relative to any source root, e.g. src/
+  const candidates = [`${stem}.py`, `${stem}/__init__.py`];
+  return [...paths].find(path => candidates.some(candidate => path === candidate || (!dots && path.endsWith(`/${candidate}`)))) ?? null;
+};
+
+const analyzeScript = (file: CodeFile, paths: Set<string>, digest: CodeDigest): FileDigest => {
+  const exports = new Set<string>();
+  const dependsOn = new Set<string>();
+  const unresolved = new Set<string>();
+
+  for (const line of file.content.split('\n')) {
+    for (const pattern of SCRIPT_EXPORT_PATTERNS) {
+      const match = line.match(pattern);
+      if (match) exports.add(match[1]);
+    }
+    if (/^\s*export\s+default\b/.test(line) && !SCRIPT_EXPORT_PATTERNS[0].test(line)) exports.add('default');
+    if (/^\s*module\.exports\s*=/.test(line)) exports.add('module.exports');
+    const list = line.match(/^\s*export\s+(?:type\s+)?\{([^}]*)\}/);
+    if (list) {
+      for (const entry of list[1].split(',')) {
+        // `export { type Props }` names Props
+        const name = entry.trim().replace(/^type\s+/, '').split(/\s+as\s+/).pop()!.trim();
+        if (name) exports.add(name);
+      }
+    }
+    const reexport = line.match(/^\s*export\s+\*\s+(?:as\s+(\w+)\s+)?from\s+['"]([^'"]+)['"]/);
+    if (reexport) exports.add(reexport[1] ?? `* from '${reexport[2]}'`);
+  }
+
+  for (const match of file.content.matchAll(SCRIPT_IMPORT_PATTERN)) {
+    const specifier = match[1];
+    if (specifier.startsWith('.') || specifier.startsWith('@/') || specifier.startsWith('~/')) {
+      const resolved = resolveScriptImport(file.path, specifier, paths);
+      if (resolved) dependsOn.add(resolved);
+      else unresolved.add(specifier);
+    } else if (!specifier.startsWith('node:') && !NODE_BUILTINS.has(packageOf(specifier)) && !/^[a-z]+:/.test(specifier)) {
+      addTo(digest.packages, packageOf(specifier), file.path);
+    }
+  }
+
+  for (const match of file.content.matchAll(SCRIPT_ENV_PATTERN)) {
+    addTo(digest.envVars, match[1] ?? match[2] ?? match[3], file.path);
+  }
+
+  return { path: file.path, exports: [...exports], dependsOn: [...dependsOn], unresolved: [...unresolved] };
+};
+
+const analyzePython = (file: CodeFile, paths: Set<string>, digest: CodeDigest): FileDigest => {
+  const exports = new Set<string>();
+  const dependsOn = new Set<string>();
+  const unresolved = new Set<string>();
+
+  for (const line of file.content.split('\n')) {
+    // Top-level, public definitions
+    const definition = line.match(/^(?:async\s+)?(?:def|class)\s+([A-Za-z]\w*)/) ?? line.match(/^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=/);
+    if (definition) exports.add(definition[1]);
+
+    const modules = line.match(/^\s*from\s+(\.*[\w.]*)\s+import\b/)?.slice(1) ??
+      line.match(/^\s*import\s+(.+)$/)?.[1].split(',').map(entry => entry.trim().split(/\s+as\s+/)[0]) ?? [];
+    for (const specifier of modules.filter(Boolean)) {
+      const resolved = resolvePythonImport(file.path, specifier, paths);
+      if (resolved) dependsOn.add(resolved);
+      else if (specifier.startsWith('.')) unresolved.add(specifier);
+      else if (!PYTHON_STDLIB.has(specifier.split('.')[0])) addTo(digest.packages, specifier.split('.')[0], file.path);
+    }
+  }
+
+  for (const match of file.content.matchAll(PYTHON_ENV_PATTERN)) {
+    addTo(digest.envVars, match[1], file.path);
+  }
+
+  return { path: file.path, exports: [...exports], dependsOn: [...dependsOn], unresolved: [...unresolved] };
+};
+
+export const analyzeCode = (files: CodeFile[]): CodeDigest => {
+  const paths = new Set(files.map(file => file.path));
+  const digest: CodeDigest = { files: [], packages: new Map(), envVars: new Map(), urls: new Map(), todos: [] };
+
+  for (const file of files) {
+    if (isScript(file.path)) digest.files.push(analyzeScript(file, paths, digest));
+    else if (isPython(file.path)) digest.files.push(analyzePython(file, paths, digest));
+
+    // URLs and TODOs are worth reporting from any file
+    for (const match of file.content.matchAll(URL_CALL_PATTERN)) {
+      addTo(digest.urls, match[1].replace(/[),;]+$/, ''), file.path);
+    }
+    file.content.split('\n').forEach((line, index) => {
+      const todo = line.match(TODO_PATTERN);
+      if (todo) {
+        digest.todos.push({ path: file.path, line: index + 1, tag: todo[1], text: todo[2].slice(0, MAX_TODO_CHARS) });
+      }
+    });
+  }
+  return digest;
+};
+
+const limited = (lines: string[]) => lines.length > MAX_ENTRIES
+  ? [...lines.slice(0, MAX_ENTRIES), `- … and ${lines.length - MAX_ENTRIES} more`]
+  : lines;
+
+const usedIn = (paths: string[]) => paths.length > 3 ? `${paths.slice(0, 3).join(', ')} and ${paths.length - 3} more` : paths.join(', ');
+
+const sortedEntries = (map: Map<string, string[]>) => [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+// Markdown, one subsection per kind of fact; empty when nothing was found
+export const formatCodeDigest = (digest: CodeDigest) => {
+  const sections: string[] = [];
+  const code = (text: string) => `\`${text.replace(/`/g, "'")}\``;
+
+  const exporting = digest.files.filter(file => file.exports.length);
+  if (exporting.length) {
+    sections.push(`### Exported Symbols\n${limited(exporting.map(file =>
+      `- ${code(file.path)}: ${file.exports.map(code).join(', ')}`)).join('\n')}`);
+  }
+
+  const linked = digest.files.filter(file => file.dependsOn.length || file.unresolved.length);
+  if (linked.length) {
+    sections.push(`### Internal Dependencies\n${limited(linked.map(file => `- ${code(file.path)} → ${[
+      ...file.dependsOn.map(code),
+      ...file.unresolved.map(specifier => `${code(specifier)} (not uploaded)`),
+    ].join(', ')}`)).join('\n')}`);
+  }
+
+  if (digest.packages.size) {
+    sections.push(`### Packages\n${limited(sortedEntries(digest.packages).map(([name, paths]) =>
+      `- ${code(name)} (${usedIn(paths)})`)).join('\n')}`);
+  }
+
+  if (digest.envVars.size) {
+    sections.push(`### Environment Variables\n${limited(sortedEntries(digest.envVars).map(([name, paths]) =>
+      `- ${code(name)} (${usedIn(paths)})`)).join('\n')}`);
+  }
+
+  if (digest.urls.size) {
+    sections.push(`### External URLs Called\n${limited(sortedEntries(digest.urls).map(([url, paths]) =>
+      `- ${url} (${usedIn(paths)})`)).join('\n')}`);
+  }
+
+  if (digest.todos.length) {
+    sections.push(`### TODO / FIXME Comments\n${limited(digest.todos.map(todo =>
+      `- ${code(`${todo.path}:${todo.line}`)} ${todo.tag}${todo.text ? `: ${todo.text}` : ''}`)).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+};
+
+// A handoff without any appendix it already carries, e.g. the previous handoff an update revises
+export const stripCodeDigest = (text: string) => {
+  const index = text.indexOf(`\n${CODE_DIGEST_HEADING}`);
+  return index === -1 ? text : text.slice(0, index).trimEnd();
+};
+
+export const appendCodeDigest = (text: string, digest: string) => digest
+  ? `${stripCodeDigest(text).trimEnd()}\n\n${CODE_DIGEST_HEADING}\n\n_Found in the uploaded code by static analysis, not written by the model._\n\n${digest}\n`
+  : text;
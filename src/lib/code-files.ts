@@ -0,0 +1,101 @@
+import { CodeFile } from './types';
+
+// Extension -> fence language used when labelling files in the prompt
+export const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'ts', '.tsx': 'tsx', '.js': 'js', '.jsx': 'jsx', '.mjs': 'js', '.cjs': 'js',
+  '.py': 'python', '.go': 'go', '.rs': 'rust', '.java': 'java', '.kt': 'kotlin', '.swift': 'swift',
+  '.rb': 'ruby', '.php': 'php', '.cs': 'csharp', '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.hpp': 'cpp',
+  '.json': 'json', '.yml': 'yaml', '.yaml': 'yaml', '.toml': 'toml', '.xml': 'xml', '.sql': 'sql',
+  '.graphql': 'graphql', '.prisma': 'prisma', '.proto': 'protobuf',
+  '.html': 'html', '.css': 'css', '.scss': 'scss', '.vue': 'vue', '.svelte': 'svelte',
+  '.sh': 'bash', '.bash': 'bash', '.ps1': 'powershell', '.dockerfile': 'dockerfile',
+  '.md': 'markdown', '.mdx': 'mdx', '.txt': 'text', '.env.example': 'bash',
+};
+
+export const CODE_FILE_EXTENSIONS = Object.keys(LANGUAGE_BY_EXTENSION);
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz'];
+
+const SPECIAL_FILENAMES: Record<string, string> = {
+  dockerfile: 'dockerfile',
+  makefile: 'makefile',
+  '.cursorrules': 'markdown',
+};
+
+// Directories and files that never help a handoff and would swamp the prompt
+const IGNORED_SEGMENTS = ['node_modules', '.git', '.next', 'dist', 'build', 'out', 'coverage', '__pycache__', '.venv', 'venv', 'vendor'];
+const IGNORED_FILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'poetry.lock', 'Cargo.lock', 'go.sum', '.DS_Store'];
+
+const MAX_FILES = 200;
+const MAX_FILE_CHARS = 200_000;
+
+const extensionOf = (path: string) => {
+  const name = path.split('/').pop()!.toLowerCase();
+  const compound = ARCHIVE_EXTENSIONS.concat(CODE_FILE_EXTENSIONS).find(ext => ext.split('.').length > 2 && name.endsWith(ext));
+  if (compound) return compound;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+};
+
+export const languageFor = (path: string) => {
+  const name = path.split('/').pop()!.toLowerCase();
+  return SPECIAL_FILENAMES[name] ?? LANGUAGE_BY_EXTENSION[extensionOf(path)] ?? 'text';
+};
+
+export const isCodeFile = (path: string) => {
+  const name = path.split('/').pop()!.toLowerCase();
+  return name in SPECIAL_FILENAMES || CODE_FILE_EXTENSIONS.includes(extensionOf(path));
+};
+
+export const isArchive = (path: string) => ARCHIVE_EXTENSIONS.includes(extensionOf(path));
+
+export const normalizePath = (path: string) =>
+  path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').replace(/\/{2,}/g, '/');
+
+export const isIgnoredPath = (path: string) => {
+  const segments = normalizePath(path).split('/');
+  return segments.some(segment => IGNORED_SEGMENTS.includes(segment)) || IGNORED_FILES.includes(segments[segments.length - 1]);
+};
+
+export interface NormalizedFiles {
+  files: CodeFile[];
+  skipped: { path: string; reason: string }[];
+}
+
+// Drop vendored, binary, oversized and duplicate files; later files with the same path win
+export const normalizeCodeFiles = (input: CodeFile[]): NormalizedFiles => {
+  const byPath = new Map<string, CodeFile>();
+  const skipped: NormalizedFiles['skipped'] = [];
+
+  for (const file of input) {
+    const path = normalizePath(file.path || '');
+
+    if (!path || typeof file.content !== 'string') {
+      skipped.push({ path: path || '(unnamed)', reason: 'missing path or content' });
+    } else if (isIgnoredPath(path)) {
+      skipped.push({ path, reason: 'ignored' });
+    } else if (file.content.includes('\u0000')) {
+      skipped.push({ path, reason: 'binary' });
+    } else if (file.content.length > MAX_FILE_CHARS) {
+      skipped.push({ path, reason: 'too large' });
+    } else if (file.content.trim()) {
+      byPath.set(path, { path, content: file.content });
+    }
+  }
+
+  const files = Array.from(byPath.values()).sort((a, b) => a.path.localeCompare(b.path));
+  for (const file of files.slice(MAX_FILES)) {
+    skipped.push({ path: file.path, reason: 'file limit reached' });
+  }
+
+  return { files: files.slice(0, MAX_FILES), skipped };
+};
+
+// Render files for the prompt: a file list followed by each file fenced under its path
+export const assembleCode = (files: CodeFile[]) => {
+  const listing = files.map(file => `- ${file.path}`).join('\n');
+  const sections = files.map(file => {
+    const fence = file.content.includes('```') ? '````' : '```';
+    return `### File: ${file.path}\n${fence}${languageFor(file.path)}\n${file.content.replace(/\n$/, '')}\n${fence}`;
+  });
+  return [`Files (${files.length}):\n${listing}`, ...sections].join('\n\n');
+};
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderExport, renderExports } from './export-targets';
+
+// A context of many small sections, each with a fenced code block
+const longContext = (sections: number) => Array.from({ length: sections }, (_, index) => [
+  `## Section ${index + 1}`,
+  '',
+  `Notes for section ${index + 1}.`,
+  '',
+  '```ts',
+  `export const value${index + 1} = ${index + 1};`,
+  '```',
+  '',
+].join('\n')).join('\n');
+
+describe('renderExport', () => {
+  it('writes a short context whole, without a truncation note', () => {
+    const file = renderExport('claude', '## Status\n\nRetries are done.', { title: 'Upload retries' });
+
+    assert.equal(file.path, 'CLAUDE.md');
+    assert.equal(file.truncated, false);
+    assert.ok(file.content.startsWith('# Handoff context: Upload retries\n'));
+    assert.ok(file.content.endsWith('## Status\n\nRetries are done.\n'));
+    assert.ok(!file.content.includes('shortened'));
+  });
+
+  it('unwraps a context the model fenced as markdown', () => {
+    const file = renderExport('agents', '```markdown\n## Status\n\nDone.\n```');
+
+    assert.ok(file.content.endsWith('## Status\n\nDone.\n'));
+    assert.ok(!file.content.includes('```'));
+  });
+
+  it('keeps each target within its size limits and links the full handoff when it truncates', () => {
+    const context = longContext(2000);
+    const limits = { 'cursor-rules': 40_000, claude: 40_000, agents: 32_000, copilot: 4_000 };
+
+    for (const file of renderExports(['cursor-rules', 'claude', 'agents', 'copilot'], context, { url: 'http://localhost/handoff/abc' })) {
+      assert.equal(file.truncated, true, file.target);
+      assert.ok(file.content.length <= limits[file.target], `${file.target} is ${file.content.length} chars`);
+      assert.match(file.content, /The full handoff is at http:\/\/localhost\/handoff\/abc_\n$/);
+      // Cut at whole lines, with no fence left open
+      assert.equal((file.content.match(/^```/gm) ?? []).length % 2, 0, file.target);
+    }
+  });
+
+  it('keeps Cursor rules under 500 lines', () => {
+    const file = renderExport('cursor-rules', Array.from({ length: 800 }, (_, index) => `- item ${index}`).join('\n'));
+
+    assert.equal(file.truncated, true);
+    assert.ok(file.content.split('\n').length <= 500);
+    assert.ok(file.content.startsWith('---\ndescription: Handoff context from the previous engineer\n'));
+  });
+
+  it('drops code blocks from Copilot instructions', () => {
+    const file = renderExport('copilot', longContext(2));
+
+    assert.equal(file.truncated, false);
+    assert.ok(!file.content.includes('export const'));
+    assert.match(file.content, /## Section 2\n\nNotes for section 2\./);
+  });
+
+  it('closes a code fence the cut falls inside', () => {
+    const context = ['## Code', '', '```ts', ...Array.from({ length: 600 }, (_, index) => `const line${index} = ${index};`), '```'].join('\n');
+    const file = renderExport('cursor-rules', context);
+
+    assert.equal(file.truncated, true);
+    assert.equal((file.content.match(/^```/gm) ?? []).length, 2);
+    assert.match(file.content, /const line\d+ = \d+;\n```\n\n_This file was shortened/);
+  });
+});
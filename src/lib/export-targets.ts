@@ -0,0 +1,141 @@
+// Renders the cursor context document into the files each coding assistant reads from a repository
+export type ExportTarget = 'cursor-rules' | 'claude' | 'agents' | 'copilot';
+
+export const EXPORT_TARGETS: ExportTarget[] = ['cursor-rules', 'claude', 'agents', 'copilot'];
+
+export interface ExportedFile {
+  target: ExportTarget;
+  path: string;
+  content: string;
+  // Sections past the target's size limit were dropped
+  truncated: boolean;
+}
+
+export interface ExportMeta {
+  title?: string;
+  // Share link of the stored handoff, pointed to when the file had to be truncated
+  url?: string;
+}
+
+interface TargetSpec {
+  label: string;
+  path: string;
+  maxChars: number;
+  maxLines?: number;
+  // Wrap the (already truncated) body in whatever the assistant expects around it
+  wrap: (body: string, meta: ExportMeta) => string;
+  // Applied to the context before it is sized
+  transform?: (context: string) => string;
+}
+
+const heading = ({ title }: ExportMeta) => `# Handoff context${title ? `: ${title}` : ''}`;
+
+const INTRO = 'Generated by Handoff.ai from the previous engineer\'s chat history and code. Use it as background when continuing their work; the code is the source of truth where they disagree.';
+
+const stripCodeBlocks = (context: string) =>
+  context.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$\n?/gm, '').replace(/\n{3,}/g, '\n\n');
+
+const TARGETS: Record<ExportTarget, TargetSpec> = {
+  // Project rules with MDC frontmatter; Cursor recommends keeping a rule under 500 lines
+  'cursor-rules': {
+    label: 'Cursor rules',
+    path: '.cursor/rules/handoff.mdc',
+    maxChars: 40_000,
+    maxLines: 500,
+    wrap: (body, meta) => [
+      '---',
+      `description: Handoff context${meta.title ? ` for ${meta.title.replace(/\n/g, ' ')}` : ''} from the previous engineer`,
+      'globs:',
+      'alwaysApply: true',
+      '---',
+      '',
+      heading(meta),
+      '',
+      INTRO,
+      '',
+      body,
+    ].join('\n'),
+  },
+  // Loaded into every Claude Code session, so it is kept to a size that does not crowd the context
+  claude: {
+    label: 'CLAUDE.md',
+    path: 'CLAUDE.md',
+    maxChars: 40_000,
+    wrap: (body, meta) => [heading(meta), '', INTRO, '', body].join('\n'),
+  },
+  // Codex reads at most 32 KiB of AGENTS.md by default
+  agents: {
+    label: 'AGENTS.md',
+    path: 'AGENTS.md',
+    maxChars: 32_000,
+    wrap: (body, meta) => [heading(meta), '', INTRO, '', body].join('\n'),
+  },
+  // Copilot code review only reads the first 4,000 characters, and instructions should be prose rather than code
+  copilot: {
+    label: 'Copilot instructions',
+    path: '.github/copilot-instructions.md',
+    maxChars: 4_000,
+    wrap: (body, meta) => [heading(meta), '', body].join('\n'),
+    transform: stripCodeBlocks,
+  },
+};
+
+export const exportTargetLabel = (target: ExportTarget) => TARGETS[target].label;
+
+export const exportTargetPath = (target: ExportTarget) => TARGETS[target].path;
+
+export const isExportTarget = (value: unknown): value is ExportTarget =>
+  typeof value === 'string' && EXPORT_TARGETS.includes(value as ExportTarget);
+
+// Models often wrap the whole document in a ```markdown fence
+const unwrapFence = (text: string) => {
+  const match = text.trim().match(/^```(?:markdown|md)?\n([\s\S]*)\n```$/);
+  return (match ? match[1] : text).trim();
+};
+
+// Keep whole lines up to the limits, preferring to stop at a heading or blank line, and close any open fence
+const truncate = (text: string, maxChars: number, maxLines: number) => {
+  const lines = text.split('\n');
+  if (text.length <= maxChars && lines.length <= maxLines) {
+    return { body: text, truncated: false };
+  }
+
+  let kept = 0;
+  let chars = 0;
+  let lastBreak = 0;
+  while (kept < lines.length && kept < maxLines && chars + lines[kept].length + 1 <= maxChars) {
+    chars += lines[kept].length + 1;
+    kept++;
+    if (kept < lines.length && (!lines[kept].trim() || lines[kept].startsWith('#'))) {
+      lastBreak = kept;
+    }
+  }
+  // Only fall back to the last section break if it does not throw away most of what fits
+  const end = lastBreak > kept * 0.8 ? lastBreak : kept;
+  const keptLines = lines.slice(0, end);
+  const openFence = keptLines.filter(line => /^(```|~~~)/.test(line)).length % 2 === 1;
+  return { body: [...keptLines, ...(openFence ? ['```'] : [])].join('\n').trimEnd(), truncated: true };
+};
+
+const truncationNote = ({ url }: ExportMeta) =>
+  `_This file was shortened to fit the assistant's size limit.${url ? ` The full handoff is at ${url}` : ''}_`;
+
+export const renderExport = (target: ExportTarget, context: string, meta: ExportMeta = {}): ExportedFile => {
+  const spec = TARGETS[target];
+  const source = unwrapFence(spec.transform ? spec.transform(unwrapFence(context)) : context);
+  const note = truncationNote(meta);
+  // Budget for everything the wrapper and truncation note add around the body
+  const overhead = spec.wrap('', meta);
+  const reservedChars = overhead.length + note.length + 2;
+  const reservedLines = overhead.split('\n').length + 2;
+  const { body, truncated } = truncate(
+    source,
+    spec.maxChars - reservedChars,
+    (spec.maxLines ?? Infinity) - reservedLines
+  );
+  const content = spec.wrap(truncated ? `${body}\n\n${note}` : body, meta);
+  return { target, path: spec.path, content: content.endsWith('\n') ? content : content + '\n', truncated };
+};
+
+export const renderExports = (targets: ExportTarget[], context: string, meta: ExportMeta = {}) =>
+  targets.map(target => renderExport(target, context, meta));
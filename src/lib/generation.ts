@@ -0,0 +1,528 @@
+import { ArchiveError, extractArchive } from './archive';
+import { AuthError } from './auth';
+import {
+  CachedGeneration,
+  generationCacheKey,
+  getGenerationCache,
+  readCachedGeneration,
+  writeCachedGeneration,
+} from './cache';
+import { analyzeCode, appendCodeDigest, formatCodeDigest, stripCodeDigest } from './code-digest';
+import { assembleCode, normalizeCodeFiles } from './code-files';
+import { EXPORT_TARGETS, isExportTarget, renderExports } from './export-targets';
+import { parseGitHistory } from './git-history';
+import { notifyHandoffReady } from './notifications';
+import { PreparedPrompt, preparePrompt } from './map-reduce';
+import {
+  CompletionRequest,
+  CompletionUsage,
+  getResilientProvider,
+  isProviderName,
+  PROVIDER_NAMES,
+  ProviderError,
+  resolveCompletionOptions,
+  ResilientProvider,
+} from './providers';
+import {
+  createRedactor,
+  isRedactionEnabled,
+  matchCustomPatterns,
+  redactableTexts,
+  redactCodeFiles,
+  redactHistory,
+  RedactionPatternError,
+  redactTranscript,
+} from './redaction';
+import { createHandoffId, getHandoffStore, HandoffRecord, HandoffSources, hashContent, isKeepingSources } from './store';
+import { generateStructuredHandoff, StructuredOutputError, StructuredResult } from './structured-handoff';
+import { DEFAULT_TEAM, isTeamName, resolveTemplate } from './templates';
+import { InputTooLargeError } from './tokens';
+import { parseTranscript, TranscriptParseError } from './transcript';
+import {
+  ArtifactType,
+  artifactTypesOf,
+  CodeFile,
+  GENERATION_TYPES,
+  RESULT_FIELDS,
+  SummaryRequest,
+  SummaryResponse,
+} from './types';
+import { buildCorpus, verifyArtifact } from './verification';
+
+// Shared by /api/summary, which answers while the client waits, and the job worker, which runs in the background
+
+// Inputs that are well-formed but unusable, e.g. history that is not a diff
+export class GenerationInputError extends Error {
+  details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'GenerationInputError';
+    this.details = details;
+  }
+}
+
+export type ArtifactContents = Partial<Record<ArtifactType, string>>;
+
+export interface ArtifactCompletion {
+  type: ArtifactType;
+  completion: CompletionRequest;
+}
+
+type PreparedArtifact = ArtifactCompletion & PreparedPrompt & { templateVersion: string };
+
+// Per-request overrides are only accepted inside these bounds
+const validateOverrides = ({ provider, model, temperature, maxTokens }: SummaryRequest) => {
+  if (provider !== undefined && !isProviderName(provider)) {
+    return `provider must be one of: ${PROVIDER_NAMES.join(', ')}`;
+  }
+  if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+    return 'model must be a non-empty string';
+  }
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    return 'temperature must be a number between 0 and 2';
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > 32768)) {
+    return 'maxTokens must be an integer between 1 and 32768';
+  }
+  return null;
+};
+
+const isCodeFileList = (files: unknown): files is CodeFile[] =>
+  Array.isArray(files) && files.every(file =>
+    typeof file === 'object' && file !== null && typeof file.path === 'string' && typeof file.content === 'string'
+  );
+
+// Shape checks on a request body; returns the message for a 400, or null
+export const validateSummaryRequest = (body: SummaryRequest) => {
+  const { markdown, type = 'summary' } = body;
+
+  // An update may cover a session that changed no code
+  if (!markdown || (type !== 'update' && !(body.code || body.files?.length || body.archive))) {
+    return 'markdown and at least one of code, files or archive are required';
+  }
+  if (body.files !== undefined && !isCodeFileList(body.files)) {
+    return 'files must be an array of { path, content } objects';
+  }
+  if (body.archive !== undefined && (
+    typeof body.archive !== 'object' || body.archive === null ||
+    typeof body.archive.name !== 'string' || typeof body.archive.data !== 'string'
+  )) {
+    return 'archive must be a { name, data } object with base64 data';
+  }
+  if (body.history !== undefined && typeof body.history !== 'string') {
+    return 'history must be a string containing a diff or git log';
+  }
+  if (!GENERATION_TYPES.includes(type)) {
+    return `type must be one of: ${GENERATION_TYPES.join(', ')}`;
+  }
+  if (body.targets !== undefined && !(Array.isArray(body.targets) && body.targets.every(isExportTarget))) {
+    return `targets must be an array of: ${EXPORT_TARGETS.join(', ')}`;
+  }
+  if (body.targets?.length && type !== 'cursor' && type !== 'package') {
+    return "targets can only be exported with type 'cursor' or 'package'";
+  }
+  if (body.redactPatterns !== undefined &&
+    !(Array.isArray(body.redactPatterns) && body.redactPatterns.every(pattern => typeof pattern === 'string'))) {
+    return 'redactPatterns must be an array of regular expression strings';
+  }
+  if (body.team !== undefined && !isTeamName(body.team)) {
+    return 'team must be lowercase letters, digits and dashes (at most 40 characters)';
+  }
+  if ([body.author, body.ticket].some(value => value !== undefined && (typeof value !== 'string' || value.length > 200))) {
+    return 'author and ticket must be strings of at most 200 characters';
+  }
+  if (body.format !== undefined && body.format !== 'text' && body.format !== 'structured') {
+    return "format must be 'text' or 'structured'";
+  }
+  if (body.cache !== undefined && body.cache !== 'default' && body.cache !== 'bypass') {
+    return "cache must be 'default' or 'bypass'";
+  }
+  if (body.format === 'structured' && type !== 'cursor') {
+    return "format 'structured' is only available for type 'cursor'";
+  }
+  if ([body.previous, body.previousId].some(value => value !== undefined && typeof value !== 'string')) {
+    return 'previous and previousId must be strings';
+  }
+  if (type !== 'update' && (body.previous !== undefined || body.previousId !== undefined)) {
+    return "previous and previousId are only used with type 'update'";
+  }
+  if (type === 'update' && !body.previous?.trim() === !body.previousId) {
+    return "type 'update' needs the handoff it revises: either previous (its text) or previousId (a stored handoff)";
+  }
+  return validateOverrides(body);
+};
+
+// Merge the legacy single `code` string, named files and an uploaded archive into one list
+const collectCodeFiles = ({ code, files, archive }: SummaryRequest): CodeFile[] => {
+  const collected: CodeFile[] = [];
+  if (code) {
+    collected.push({ path: 'untitled', content: code });
+  }
+  if (archive) {
+    collected.push(...extractArchive(archive.name, Buffer.from(archive.data, 'base64')));
+  }
+  if (files) {
+    collected.push(...files);
+  }
+  return collected;
+};
+
+// A fallback may have served the request instead of the configured provider and model
+const servedAttempt = (provider: ResilientProvider) => provider.attempts.findLast(attempt => attempt.outcome === 'ok');
+
+// Streams only know the model they asked for; the attempts record which one answered
+export const streamedModel = (provider: ResilientProvider, requested: string) =>
+  servedAttempt(provider)?.model ?? requested;
+
+// Keep the redacted inputs for follow-up questions, addressed by content so identical inputs are stored once
+const keepSources = async (sources: HandoffSources) => {
+  const id = hashContent(JSON.stringify(sources));
+  try {
+    await getHandoffStore().saveSources(id, sources);
+    return id;
+  } catch (error) {
+    console.error('Failed to save handoff sources:', error);
+    return undefined;
+  }
+};
+
+export interface GenerationContext {
+  // Base URL for share links in exported context files
+  baseUrl: string;
+  signal?: AbortSignal;
+  // Called for every upstream call, for quota accounting
+  onUsage?: (usage: CompletionUsage) => void;
+}
+
+export interface Generation {
+  provider: ResilientProvider;
+  // Artifacts left to generate; the others were served from the cache
+  pending: ArtifactCompletion[];
+  // Builds the response for finished contents, stores each new artifact and caches it
+  finalize(contents: ArtifactContents, model: string, structured?: StructuredResult): Promise<SummaryResponse>;
+}
+
+// Parse, redact and prompt everything a validated request asks for, without calling the model for the result yet
+export const prepareGeneration = async (body: SummaryRequest, context: GenerationContext): Promise<Generation> => {
+  const { markdown, type = 'summary' } = body;
+
+  // Resolve the provider (throws a ProviderError if it is not configured), wrapped with retries and fallbacks
+  const provider = getResilientProvider(
+    body.provider && isProviderName(body.provider) ? body.provider : undefined,
+    context.onUsage
+  );
+  const artifactTypes = artifactTypesOf(type);
+
+  const parsedHistory = body.history?.trim() ? parseGitHistory(body.history) : undefined;
+  if (parsedHistory && !parsedHistory.commits.some(commit => commit.hash || commit.files.length)) {
+    throw new GenerationInputError('history could not be parsed as a unified diff, git format-patch or git log -p output');
+  }
+
+  const { files: normalizedFiles, skipped } = normalizeCodeFiles(collectCodeFiles(body));
+  if (!normalizedFiles.length && (type !== 'update' || skipped.length)) {
+    throw new GenerationInputError('No usable code files found in the upload', { skippedFiles: skipped });
+  }
+
+  const parsedTranscript = parseTranscript(markdown);
+
+  // An update revises a previous handoff, pasted in full or stored
+  const previousRecord = body.previousId ? await getHandoffStore().get(body.previousId) : null;
+  if (body.previousId && !previousRecord) {
+    throw new GenerationInputError('previousId does not match a stored handoff');
+  }
+  const previousText = previousRecord?.output ?? body.previous?.trim();
+  // Its code digest appendix describes the code as it was; the revision gets a fresh one
+  const previousBody = previousText && stripCodeDigest(previousText);
+
+  // Secrets and personal data are masked before anything is sent to the provider
+  const redactor = isRedactionEnabled()
+    ? createRedactor(await matchCustomPatterns(
+      body.redactPatterns ?? [],
+      redactableTexts(parsedTranscript, normalizedFiles, parsedHistory, previousBody)
+    ))
+    : null;
+  const transcript = redactor ? redactTranscript(redactor, parsedTranscript) : parsedTranscript;
+  const files = redactor ? redactCodeFiles(redactor, normalizedFiles) : normalizedFiles;
+  const history = redactor && parsedHistory ? redactHistory(redactor, parsedHistory) : parsedHistory;
+  const previous = redactor && previousBody ? redactor.redact(previousBody, 'previous') : previousBody;
+
+  // Get the appropriate prompt for each artifact, condensing long transcripts first.
+  // Artifacts of a package share one notes cache, so each transcript chunk is only condensed once.
+  const code = assembleCode(files);
+  const codeDigest = formatCodeDigest(analyzeCode(files));
+  const notesCache = new Map<string, Promise<string>>();
+  const cache = getGenerationCache();
+
+  // Identical inputs, template and settings are served from the cache unless the caller asks for a fresh run
+  const resolved = await Promise.all(artifactTypes.map(async artifactType => {
+    const template = await resolveTemplate(artifactType, body.team || DEFAULT_TEAM);
+    const options = resolveCompletionOptions(artifactType, provider, {
+      model: body.model,
+      temperature: body.temperature,
+      maxTokens: body.maxTokens,
+    });
+    const cacheKey = generationCacheKey({
+      type: artifactType,
+      format: body.format || 'text',
+      templateVersion: template.versionId,
+      templateBody: template.body,
+      provider: provider.name,
+      ...options,
+      transcript,
+      code,
+      history,
+      author: body.author?.trim(),
+      ticket: body.ticket?.trim(),
+      previous,
+    });
+    const hit = cache && body.cache !== 'bypass' ? await readCachedGeneration(cache, cacheKey) : null;
+    return { type: artifactType, template, options, cacheKey, hit };
+  }));
+  const hits: Partial<Record<ArtifactType, CachedGeneration>> = Object.fromEntries(
+    resolved.filter(item => item.hit).map(item => [item.type, item.hit])
+  );
+
+  const prepared = await Promise.all(resolved.filter(item => !item.hit).map(async ({ type: artifactType, template, options }): Promise<PreparedArtifact> => {
+    const preparedPrompt = await preparePrompt({
+      type: artifactType,
+      transcript,
+      code,
+      history,
+      provider,
+      options,
+      details: { template: template.body, author: body.author?.trim(), ticket: body.ticket?.trim(), previous, codeDigest },
+      signal: context.signal,
+      notesCache,
+    });
+    return {
+      ...preparedPrompt,
+      type: artifactType,
+      templateVersion: template.versionId,
+      completion: {
+        ...options,
+        messages: [
+          {
+            role: 'user',
+            content: preparedPrompt.prompt
+          }
+        ],
+        signal: context.signal,
+      },
+    };
+  }));
+
+  const metadata: SummaryResponse = {
+    codeFiles: files.map(file => file.path),
+    ...(skipped.length && { skippedFiles: skipped }),
+    chunks: Math.max(0, ...prepared.map(item => item.chunks)),
+    estimatedPromptTokens: prepared.reduce((total, item) => total + item.estimatedTokens, 0),
+    ...(history && { commits: history.commits.length }),
+    ...(redactor && { redaction: redactor.report() }),
+    templateVersions: Object.fromEntries(resolved.map(item => [item.type, item.template.versionId])),
+  };
+
+  // Build the response for a finished generation, persist each new artifact so it can be shared by link,
+  // and cache it for identical requests
+  const finalize = async (generated: ArtifactContents, model: string, structured?: StructuredResult): Promise<SummaryResponse> => {
+    const servedBy = servedAttempt(provider)?.provider ?? provider.name;
+    const cachedEntries = Object.values(hits);
+    const contents: ArtifactContents = {
+      ...Object.fromEntries(Object.entries(hits).map(([artifactType, hit]) => [artifactType, hit.content])),
+      ...generated,
+    };
+    const structuredHandoff = structured?.handoff ?? hits.cursor?.structured;
+    const repairs = structured?.repairs ?? hits.cursor?.repairs;
+    const result: SummaryResponse = {
+      provider: prepared.length ? servedBy : cachedEntries[0].provider,
+      model: prepared.length ? model : cachedEntries[0].model,
+      attempts: [...provider.attempts],
+      ...metadata,
+      ...(structuredHandoff && { structured: structuredHandoff, repairs }),
+      ...(!prepared.length && {
+        cached: true,
+        cachedAt: cachedEntries.map(hit => hit.createdAt).sort()[0],
+      }),
+    };
+    const ids: SummaryResponse['ids'] = {};
+    const saved: HandoffRecord[] = [];
+    const createdAt = new Date().toISOString();
+    // Checked against the parsed and redacted inputs, which is exactly what the model saw
+    const sources: HandoffSources = { transcript, files, history, previous };
+    const corpus = buildCorpus(sources);
+    result.quality = {};
+    const sourcesId = isKeepingSources() && resolved.some(item => !item.hit?.handoffId)
+      ? await keepSources(sources)
+      : undefined;
+
+    for (const { type: artifactType, cacheKey, hit } of resolved) {
+      // The model's text is verified and cached; the digest is appended verbatim for everything but the short summary
+      const generatedContent = stripCodeDigest(contents[artifactType]!);
+      const content = artifactType === 'summary' ? generatedContent : appendCodeDigest(generatedContent, codeDigest);
+      result[RESULT_FIELDS[artifactType]] = content;
+      result.quality[artifactType] = verifyArtifact(artifactType, generatedContent, sources, corpus);
+
+      // Cache hits share the stored handoff of the generation they came from
+      if (hit?.handoffId) {
+        ids[artifactType] = hit.handoffId;
+        continue;
+      }
+
+      try {
+        const record: HandoffRecord = {
+          id: createHandoffId(),
+          type: artifactType,
+          provider: hit?.provider ?? servedBy,
+          model: hit?.model ?? model,
+          output: content,
+          ...(structuredHandoff && artifactType === 'cursor' && { structured: structuredHandoff }),
+          ...(transcript.title && { title: transcript.title }),
+          templateVersion: metadata.templateVersions![artifactType],
+          ...(previousRecord && { previousId: previousRecord.id }),
+          ...(sourcesId && { sourcesId }),
+          createdAt,
+          inputs: {
+            markdownHash: hashContent(markdown),
+            codeHash: hashContent(code),
+            ...(body.history && { historyHash: hashContent(body.history) }),
+            ...(previousText && { previousHash: hashContent(previousText) }),
+            codeFiles: files.map(file => file.path),
+          },
+        };
+        await getHandoffStore().save(record);
+        ids[artifactType] = record.id;
+        saved.push(record);
+      } catch (error) {
+        // A storage failure should not cost the user their generation
+        console.error('Failed to save handoff:', error);
+      }
+
+      if (cache && !hit) {
+        await writeCachedGeneration(cache, cacheKey, {
+          content: generatedContent,
+          provider: servedBy,
+          model,
+          ...(structured && artifactType === 'cursor' && { structured: structured.handoff, repairs: structured.repairs }),
+          ...(ids[artifactType] && { handoffId: ids[artifactType] }),
+          createdAt,
+        });
+      }
+    }
+
+    // Sent in the background so slow or retried deliveries do not hold up the response
+    void notifyHandoffReady(saved, { baseUrl: context.baseUrl, author: body.author?.trim(), ticket: body.ticket?.trim() });
+
+    if (type === 'package') {
+      result.ids = ids;
+    } else if (ids[type]) {
+      result.id = ids[type];
+    }
+
+    if (body.targets?.length && result.cursorLog) {
+      result.exports = renderExports([...new Set(body.targets)], result.cursorLog, {
+        title: transcript.title,
+        ...(ids.cursor && { url: new URL(`/handoff/${ids.cursor}`, context.baseUrl).toString() }),
+      });
+    }
+    return result;
+  };
+
+  return { provider, pending: prepared, finalize };
+};
+
+// Run the remaining completions and build the response. With onDelta the artifacts are streamed one after
+// another so callers can report progress; otherwise they are requested in parallel.
+export const runGeneration = async (
+  generation: Generation,
+  body: SummaryRequest,
+  onDelta?: (type: ArtifactType, text: string) => void
+): Promise<SummaryResponse> => {
+  const { provider, pending, finalize } = generation;
+
+  // Nothing left to generate
+  if (!pending.length) {
+    return finalize({}, '');
+  }
+
+  // Structured output is validated as a whole, so it is never streamed
+  if (body.format === 'structured') {
+    const structured = await generateStructuredHandoff(provider, pending[0].completion);
+    return finalize({ cursor: structured.markdown }, structured.model, structured);
+  }
+
+  const contents: ArtifactContents = {};
+  let model = pending[0].completion.model;
+
+  if (onDelta) {
+    for (const { type, completion } of pending) {
+      for await (const text of provider.stream(completion)) {
+        contents[type] = (contents[type] ?? '') + text;
+        onDelta(type, text);
+      }
+    }
+    model = streamedModel(provider, model);
+  } else {
+    const completed = await Promise.all(pending.map(({ completion }) => provider.complete(completion)));
+    pending.forEach(({ type }, index) => {
+      contents[type] = completed[index].content;
+    });
+    model = completed[0].model;
+  }
+
+  if (pending.some(({ type }) => !contents[type])) {
+    throw new ProviderError('No content generated from AI', 500);
+  }
+
+  return finalize(contents, model);
+};
+
+// Map a failed generation onto an HTTP status and JSON body; shared by the routes and the job worker
+export const describeGenerationError = (error: unknown): {
+  status: number;
+  body: { error: string } & Record<string, unknown>;
+  headers?: Record<string, string>;
+} => {
+  if (error instanceof AuthError) {
+    return {
+      status: error.status,
+      body: { error: error.message },
+      headers: error.status === 401
+        ? { 'WWW-Authenticate': 'Bearer' }
+        : { 'Retry-After': String(error.retryAfterSeconds ?? 60) },
+    };
+  }
+
+  if (error instanceof InputTooLargeError) {
+    return {
+      status: 413,
+      body: { error: error.message, estimatedTokens: error.estimatedTokens, limit: error.limit },
+    };
+  }
+
+  if (error instanceof GenerationInputError) {
+    return { status: 400, body: { error: error.message, ...error.details } };
+  }
+
+  if (error instanceof ArchiveError || error instanceof RedactionPatternError || error instanceof TranscriptParseError) {
+    return { status: 400, body: { error: error.message } };
+  }
+
+  if (error instanceof StructuredOutputError) {
+    return { status: 502, body: { error: error.message, details: error.errors } };
+  }
+
+  if (error instanceof ProviderError) {
+    return {
+      status: error.status,
+      body: { error: error.message, ...(error.attempts && { attempts: error.attempts }) },
+      ...(error.retryAfterMs !== undefined && { headers: { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } }),
+    };
+  }
+
+  // Handle different types of errors
+  if (error instanceof SyntaxError) {
+    return { status: 400, body: { error: 'Invalid JSON in request body' } };
+  }
+
+  return { status: 500, body: { error: 'Internal server error occurred while processing your request' } };
+};
@@ -0,0 +1,243 @@
+export interface DiffHunk {
+  header: string;
+  lines: string[];
+}
+
+export interface FileChange {
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface Commit {
+  hash?: string;
+  author?: string;
+  // ISO string when the date parses, otherwise as written
+  date?: string;
+  subject: string;
+  message: string;
+  files: FileChange[];
+}
+
+export interface GitHistory {
+  format: 'git-log' | 'format-patch' | 'diff';
+  commits: Commit[];
+}
+
+const toIsoDate = (value: string) => {
+  const parsed = new Date(value.trim());
+  return Number.isNaN(parsed.getTime()) ? value.trim() : parsed.toISOString();
+};
+
+const stripPrefix = (path: string) => path.replace(/^[ab]\//, '');
+
+// Parse the "diff --git" / "---" / "+++" / "@@" portion of a patch
+const parseDiff = (lines: string[]): FileChange[] => {
+  const files: FileChange[] = [];
+  let file: FileChange | undefined;
+  let hunk: DiffHunk | undefined;
+  // Lines still expected in the current hunk, from its "@@ -a,b +c,d @@" header
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  const startFile = (path: string): FileChange => {
+    const next: FileChange = { path, status: 'modified', additions: 0, deletions: 0, hunks: [] };
+    files.push(next);
+    hunk = undefined;
+    return next;
+  };
+
+  for (const line of lines) {
+    const gitHeader = line.match(/^diff --git (\S+) (\S+)$/);
+    if (gitHeader) {
+      const [oldPath, newPath] = [stripPrefix(gitHeader[1]), stripPrefix(gitHeader[2])];
+      file = startFile(newPath);
+      if (oldPath !== newPath) {
+        file.oldPath = oldPath;
+        file.status = 'renamed';
+      }
+      continue;
+    }
+
+    if (line.startsWith('--- ') && !hunk) {
+      // Plain unified diffs have no "diff --git" line, so "---" starts the file
+      const path = line.slice(4).split('\t')[0];
+      if (!file || file.hunks.length) {
+        file = startFile(stripPrefix(path));
+      }
+      if (path === '/dev/null') file.status = 'added';
+      continue;
+    }
+    if (line.startsWith('+++ ') && file && !hunk) {
+      const path = line.slice(4).split('\t')[0];
+      if (path === '/dev/null') {
+        file.status = 'deleted';
+      } else {
+        file.path = stripPrefix(path);
+      }
+      continue;
+    }
+
+    if (!file) continue;
+
+    if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.oldPath = line.slice(12);
+      file.status = 'renamed';
+    } else if (line.startsWith('@@')) {
+      const counts = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+      oldRemaining = counts ? parseInt(counts[1] ?? '1', 10) : Infinity;
+      newRemaining = counts ? parseInt(counts[2] ?? '1', 10) : Infinity;
+      hunk = { header: line, lines: [] };
+      file.hunks.push(hunk);
+    } else if (hunk && /^[ +\-\\]|^$/.test(line)) {
+      // Some tools strip the leading space from blank context lines
+      const diffLine = line || ' ';
+      hunk.lines.push(diffLine);
+      if (diffLine.startsWith('+')) {
+        file.additions++;
+        newRemaining--;
+      } else if (diffLine.startsWith('-')) {
+        file.deletions++;
+        oldRemaining--;
+      } else if (diffLine.startsWith(' ')) {
+        oldRemaining--;
+        newRemaining--;
+      }
+      if (oldRemaining <= 0 && newRemaining <= 0) hunk = undefined;
+    } else {
+      hunk = undefined;
+    }
+  }
+
+  return files;
+};
+
+// Split "git log -p" output on "commit <hash>" lines
+const parseGitLog = (text: string): Commit[] =>
+  text.split(/^(?=commit [0-9a-f]{7,40}\b)/m)
+    .filter(block => block.startsWith('commit '))
+    .map(block => {
+      const lines = block.split(/\r?\n/);
+      const hash = lines[0].split(/\s+/)[1];
+      let author: string | undefined;
+      let date: string | undefined;
+      let i = 1;
+      for (; i < lines.length && lines[i].trim(); i++) {
+        const header = lines[i].match(/^(Author|Date|AuthorDate):\s*(.*)$/);
+        if (header?.[1] === 'Author') author = header[2].trim();
+        else if (header) date = toIsoDate(header[2]);
+      }
+
+      const messageLines: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith('diff '); i++) {
+        if (lines[i].startsWith('    ')) messageLines.push(lines[i].slice(4));
+        else if (!lines[i].trim()) messageLines.push('');
+        else break;
+      }
+      const message = messageLines.join('\n').trim();
+
+      return {
+        hash,
+        ...(author && { author }),
+        ...(date && { date }),
+        subject: message.split('\n')[0] || '(no message)',
+        message,
+        files: parseDiff(lines.slice(i)),
+      };
+    });
+
+// Split "git format-patch" mbox output on "From <hash> <date>" lines
+const parseFormatPatch = (text: string): Commit[] =>
+  text.split(/^(?=From [0-9a-f]{40} )/m)
+    .filter(block => block.startsWith('From '))
+    .map(block => {
+      const lines = block.split(/\r?\n/);
+      const hash = lines[0].split(/\s+/)[1];
+      let author: string | undefined;
+      let date: string | undefined;
+      let subject = '';
+      let i = 1;
+      for (; i < lines.length && lines[i].trim(); i++) {
+        const header = lines[i].match(/^(From|Date|Subject):\s*(.*)$/);
+        if (header?.[1] === 'From') author = header[2].trim();
+        else if (header?.[1] === 'Date') date = toIsoDate(header[2]);
+        else if (header?.[1] === 'Subject') subject = header[2].replace(/^\[PATCH[^\]]*\]\s*/, '').trim();
+        else if (/^\s/.test(lines[i]) && subject) subject += ' ' + lines[i].trim(); // folded header
+      }
+
+      // Body runs until the "---" line that precedes the diffstat
+      const bodyLines: string[] = [];
+      for (i++; i < lines.length && lines[i] !== '---' && !lines[i].startsWith('diff '); i++) {
+        bodyLines.push(lines[i]);
+      }
+      const body = bodyLines.join('\n').trim();
+      // Drop the trailing "-- \n<git version>" signature
+      const signature = lines.lastIndexOf('-- ');
+
+      return {
+        hash,
+        ...(author && { author }),
+        ...(date && { date }),
+        subject: subject || '(no message)',
+        message: body ? `${subject}\n\n${body}` : subject,
+        files: parseDiff(lines.slice(i, signature > i ? signature : undefined)),
+      };
+    });
+
+export const parseGitHistory = (text: string): GitHistory => {
+  if (/^commit [0-9a-f]{7,40}\b/m.test(text)) {
+    return { format: 'git-log', commits: parseGitLog(text) };
+  }
+  if (/^From [0-9a-f]{40} /m.test(text)) {
+    return { format: 'format-patch', commits: parseFormatPatch(text) };
+  }
+  return {
+    format: 'diff',
+    commits: [{ subject: 'Uncommitted changes', message: '', files: parseDiff(text.split(/\r?\n/)) }],
+  };
+};
+
+// Oldest first, so the prompt reads as a timeline. git log lists newest first, so it is reversed
+// before the (stable) date sort to keep same-second commits in the right order.
+export const sortCommits = (history: GitHistory) => {
+  const commits = history.format === 'git-log' ? [...history.commits].reverse() : [...history.commits];
+  const dated = commits.every(commit => commit.date && !Number.isNaN(Date.parse(commit.date)));
+  return dated ? commits.sort((a, b) => Date.parse(a.date!) - Date.parse(b.date!)) : commits;
+};
+
+const MAX_HUNK_LINES_PER_FILE = 60;
+
+const commitLabel = (commit: Commit) =>
+  [commit.date, commit.hash?.slice(0, 7), `"${commit.subject}"`, commit.author && `(${commit.author})`]
+    .filter(Boolean)
+    .join(' ');
+
+const fileSummary = (file: FileChange) =>
+  `${file.oldPath ? `${file.oldPath} → ` : ''}${file.path} [${file.status}, +${file.additions}/-${file.deletions}]`;
+
+// One line per commit: the compact form used when diffs do not fit the prompt
+export const formatCommitList = (history: GitHistory) =>
+  sortCommits(history)
+    .map(commit => `- ${commitLabel(commit)}: ${commit.files.map(fileSummary).join(', ') || 'no file changes'}`)
+    .join('\n');
+
+// Commit messages plus (truncated) hunks for each changed file
+export const formatHistory = (history: GitHistory) =>
+  sortCommits(history).map(commit => {
+    const body = commit.message.split('\n').slice(1).join('\n').trim();
+    const files = commit.files.map(file => {
+      if (!file.hunks.length) return `#### ${fileSummary(file)}`;
+      const lines = file.hunks.flatMap(hunk => [hunk.header, ...hunk.lines]);
+      const shown = lines.slice(0, MAX_HUNK_LINES_PER_FILE);
+      const truncated = lines.length > shown.length ? `\n… ${lines.length - shown.length} more diff lines` : '';
+      return `#### ${fileSummary(file)}\n\`\`\`diff\n${shown.join('\n')}${truncated}\n\`\`\``;
+    });
+    return [`### ${commitLabel(commit)}`, body, ...files].filter(Boolean).join('\n\n');
+  }).join('\n\n');
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffHandoffs, diffItems } from './handoff-diff';
+import { HandoffRecord } from './store';
+
+const handoff = (id: string, output: string): HandoffRecord => ({
+  id,
+  type: 'readme',
+  provider: 'mock',
+  model: 'mock',
+  output,
+  createdAt: '2025-06-10T14:03:00Z',
+  inputs: { markdownHash: 'm', codeHash: 'c', codeFiles: [] },
+});
+
+describe('diffItems', () => {
+  it('keeps matching items and reports a checked box as a change, not a new item', () => {
+    assert.deepEqual(diffItems(['- [ ] Add retries', '- Write docs'], ['- [x] Add retries', '- Write docs', '- Ship it']), [
+      { status: 'changed', text: '- [x] Add retries', previousText: '- [ ] Add retries' },
+      { status: 'unchanged', text: '- Write docs' },
+      { status: 'added', text: '- Ship it' },
+    ]);
+  });
+
+  it('pairs a reworded item with the one it replaced, and leaves unrelated ones removed and added', () => {
+    assert.deepEqual(diffItems(['- Retry uploads three times with backoff'], ['- Retry uploads five times with backoff']), [
+      { status: 'changed', text: '- Retry uploads five times with backoff', previousText: '- Retry uploads three times with backoff' },
+    ]);
+    assert.deepEqual(diffItems(['- Retry uploads'], ['- Rotate the signing key']), [
+      { status: 'removed', text: '- Retry uploads' },
+      { status: 'added', text: '- Rotate the signing key' },
+    ]);
+  });
+
+  it('treats a code block as one item', () => {
+    const block = '```ts\nconst retries = 3;\n\nexport { retries };\n```';
+    assert.deepEqual(diffItems([block], [block]), [{ status: 'unchanged', text: block }]);
+  });
+});
+
+describe('diffHandoffs', () => {
+  it('aligns sections by heading, ignoring numbering and emoji, and keeps removed sections in place', () => {
+    const from = handoff('a', [
+      '## 1. Status', '', 'In progress.', '',
+      '## Remaining TODOs', '', '- [ ] Retries', '- [ ] Docs', '',
+      '## Notes', '', 'Old note.',
+    ].join('\n'));
+    const to = handoff('b', [
+      '## 🔄 Status', '', 'In progress.', '',
+      '## Remaining TODOs', '', '- [x] Retries', '- [ ] Docs', '',
+      '## Risks', '', 'None.',
+    ].join('\n'));
+
+    const diff = diffHandoffs(from, to);
+
+    assert.equal(diff.from.id, 'a');
+    assert.equal(diff.to.id, 'b');
+    assert.deepEqual(diff.sections.map(section => [section.status, section.heading]), [
+      ['unchanged', '🔄 Status'],
+      ['changed', 'Remaining TODOs'],
+      ['removed', 'Notes'],
+      ['added', 'Risks'],
+    ]);
+    assert.deepEqual(diff.stats, {
+      sections: { added: 1, removed: 1, changed: 1 },
+      items: { added: 1, removed: 1, changed: 1 },
+    });
+  });
+
+  it('recognises a reworded heading as the same section', () => {
+    const diff = diffHandoffs(
+      handoff('a', '## Open questions\n\n- Which queue?'),
+      handoff('b', '## Open questions for review\n\n- Which queue?')
+    );
+
+    assert.deepEqual(diff.sections, [{
+      status: 'changed',
+      heading: 'Open questions for review',
+      level: 2,
+      previousHeading: 'Open questions',
+      items: [{ status: 'unchanged', text: '- Which queue?' }],
+    }]);
+  });
+});
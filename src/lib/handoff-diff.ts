@@ -0,0 +1,319 @@
+import { getHandoffStore, HandoffRecord } from './store';
+import { ArtifactType } from './types';
+
+// Compares two generated handoffs section by section: headings are aligned by name rather than position, so
+// "## 5. Remaining TODOs" in one generation meets "## Remaining TODOs" in the other, and the items under each
+// heading (list entries, paragraphs, code blocks) are diffed as units instead of line by line.
+
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ItemDiff {
+  status: ChangeStatus;
+  text: string;
+  // The earlier wording of a changed item, e.g. before a TODO was checked off
+  previousText?: string;
+}
+
+export interface SectionDiff {
+  status: ChangeStatus;
+  heading: string;
+  level: number;
+  // Set when the heading was reworded but its section was still recognised
+  previousHeading?: string;
+  items: ItemDiff[];
+}
+
+export interface HandoffDiff {
+  from: DiffSide;
+  to: DiffSide;
+  sections: SectionDiff[];
+  stats: Record<'sections' | 'items', Record<Exclude<ChangeStatus, 'unchanged'>, number>>;
+}
+
+export interface DiffSide {
+  id: string;
+  type: ArtifactType;
+  model: string;
+  createdAt: string;
+}
+
+interface Section {
+  heading: string;
+  level: number;
+  key: string;
+  items: string[];
+}
+
+// How many other generations of a handoff are looked through for the one before it
+const MAX_GENERATIONS = 100;
+// Headings with at least this share of words in common are the same section, reworded
+const HEADING_SIMILARITY = 0.5;
+// Items this similar are one item that changed rather than one removed and another added
+const ITEM_SIMILARITY = 0.6;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+/;
+
+// "## 🔄 5. Resolved vs. Unresolved Issues:" → "resolved vs unresolved issues"
+const headingKey = (heading: string) =>
+  heading
+    .toLowerCase()
+    .replace(/[*_`]/g, '')
+    .replace(/^[^a-z0-9]*(?:\d+[.)]\s*)?/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Item text without list markers, checkbox state, emphasis or spacing, for comparison only
+const itemKey = (item: string) =>
+  item
+    .toLowerCase()
+    .replace(LIST_ITEM_PATTERN, '')
+    .replace(/^\[[ x]\]\s*/, '')
+    .replace(/~~|\*\*|__|[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const wordsOf = (text: string) => new Set(text.split(/[^a-z0-9]+/).filter(Boolean));
+
+// Jaccard similarity of the word sets
+const similarity = (a: string, b: string) => {
+  const wordsA = wordsOf(a);
+  const wordsB = wordsOf(b);
+  if (!wordsA.size && !wordsB.size) return 1;
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+// Split a section body into items: each list entry with its continuation lines, each paragraph, each code block
+const splitItems = (lines: string[]) => {
+  const items: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = current.join('\n').trim();
+    if (text) items.push(text);
+    current = [];
+  };
+
+  for (const line of lines) {
+    if (FENCE_PATTERN.test(line)) {
+      if (!inFence) flush();
+      current.push(line);
+      inFence = !inFence;
+      if (!inFence) flush();
+      continue;
+    }
+    if (inFence) {
+      current.push(line);
+    } else if (!line.trim()) {
+      flush();
+    } else if (LIST_ITEM_PATTERN.test(line) && !/^\s{2,}/.test(line.match(LIST_ITEM_PATTERN)![1])) {
+      // A new top-level entry; nested entries stay with their parent
+      flush();
+      current.push(line);
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+  return items;
+};
+
+export const parseSections = (markdown: string): Section[] => {
+  const sections: Section[] = [];
+  let heading = '';
+  let level = 0;
+  let body: string[] = [];
+  let inFence = false;
+
+  const push = () => {
+    const items = splitItems(body);
+    if (heading || items.length) sections.push({ heading, level, key: headingKey(heading), items });
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(HEADING_PATTERN);
+    if (match) {
+      push();
+      heading = match[2];
+      level = match[1].length;
+      body = [];
+    } else {
+      body.push(line);
+    }
+  }
+  push();
+  return sections;
+};
+
+// Longest common subsequence of item keys: the items both generations kept, in order
+const commonItems = (from: string[], to: string[]) => {
+  const lengths = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] = from[i] === to[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  for (let i = 0, j = 0; i < from.length && j < to.length;) {
+    if (from[i] === to[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+export const diffItems = (from: string[], to: string[]): ItemDiff[] => {
+  const fromKeys = from.map(itemKey);
+  const toKeys = to.map(itemKey);
+  const kept = commonItems(fromKeys, toKeys);
+
+  // Between two kept items, pair each removed item with the most similar added one as a change
+  const result: ItemDiff[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [keptFrom, keptTo] of [...kept, [from.length, to.length] as [number, number]]) {
+    const removed = from.slice(i, keptFrom).map((text, offset) => ({ text, key: fromKeys[i + offset] }));
+    const added = to.slice(j, keptTo).map((text, offset) => ({ text, key: toKeys[j + offset], previous: undefined as string | undefined }));
+
+    const unpaired = removed.filter(item => {
+      const best = added
+        .filter(candidate => candidate.previous === undefined)
+        .map(candidate => ({ candidate, score: similarity(item.key, candidate.key) }))
+        .sort((a, b) => b.score - a.score)[0];
+      if (best && best.score >= ITEM_SIMILARITY) {
+        best.candidate.previous = item.text;
+        return false;
+      }
+      return true;
+    });
+
+    result.push(...unpaired.map(item => ({ status: 'removed' as const, text: item.text })));
+    result.push(...added.map(item => item.previous === undefined
+      ? { status: 'added' as const, text: item.text }
+      : { status: 'changed' as const, text: item.text, previousText: item.previous }));
+    if (keptTo < to.length) {
+      // Same item; it may still differ in wording the key ignores, such as a checked box
+      result.push(from[keptFrom] === to[keptTo]
+        ? { status: 'unchanged', text: to[keptTo] }
+        : { status: 'changed', text: to[keptTo], previousText: from[keptFrom] });
+    }
+    i = keptFrom + 1;
+    j = keptTo + 1;
+  }
+  return result;
+};
+
+// Pair each section of the newer generation with one of the older: same heading first, then the most similar
+const alignSections = (from: Section[], to: Section[]) => {
+  const matches = new Map<number, number>();
+  const used = new Set<number>();
+
+  to.forEach((section, toIndex) => {
+    const fromIndex = from.findIndex((candidate, index) => !used.has(index) && candidate.key === section.key);
+    if (fromIndex !== -1) {
+      matches.set(toIndex, fromIndex);
+      used.add(fromIndex);
+    }
+  });
+  to.forEach((section, toIndex) => {
+    if (matches.has(toIndex) || !section.key) return;
+    const best = from
+      .map((candidate, index) => ({ index, score: used.has(index) || !candidate.key ? 0 : similarity(candidate.key, section.key) }))
+      .sort((a, b) => b.score - a.score)[0];
+    if (best && best.score >= HEADING_SIMILARITY) {
+      matches.set(toIndex, best.index);
+      used.add(best.index);
+    }
+  });
+  return matches;
+};
+
+const sideOf = (record: HandoffRecord): DiffSide => ({
+  id: record.id,
+  type: record.type,
+  model: record.model,
+  createdAt: record.createdAt,
+});
+
+export const diffHandoffs = (from: HandoffRecord, to: HandoffRecord): HandoffDiff => {
+  const fromSections = parseSections(from.output);
+  const toSections = parseSections(to.output);
+  const matches = alignSections(fromSections, toSections);
+  const matchedFrom = new Set(matches.values());
+
+  const sections: SectionDiff[] = [];
+  // Sections only the older generation has are shown after the section they followed there
+  const removedAfter = (fromIndex: number) => {
+    for (let index = fromIndex + 1; index < fromSections.length && !matchedFrom.has(index); index++) {
+      const section = fromSections[index];
+      sections.push({
+        status: 'removed',
+        heading: section.heading,
+        level: section.level,
+        items: section.items.map(text => ({ status: 'removed', text })),
+      });
+    }
+  };
+
+  removedAfter(-1);
+  toSections.forEach((section, toIndex) => {
+    const fromIndex = matches.get(toIndex);
+    if (fromIndex === undefined) {
+      sections.push({
+        status: 'added',
+        heading: section.heading,
+        level: section.level,
+        items: section.items.map(text => ({ status: 'added', text })),
+      });
+      return;
+    }
+
+    const previous = fromSections[fromIndex];
+    const items = diffItems(previous.items, section.items);
+    // Renumbering or a different emoji is not a change
+    const renamed = previous.key !== section.key;
+    sections.push({
+      status: renamed || items.some(item => item.status !== 'unchanged') ? 'changed' : 'unchanged',
+      heading: section.heading,
+      level: section.level,
+      ...(renamed && { previousHeading: previous.heading }),
+      items,
+    });
+    removedAfter(fromIndex);
+  });
+
+  const count = <T extends { status: ChangeStatus }>(list: T[]) => ({
+    added: list.filter(entry => entry.status === 'added').length,
+    removed: list.filter(entry => entry.status === 'removed').length,
+    changed: list.filter(entry => entry.status === 'changed').length,
+  });
+
+  return {
+    from: sideOf(from),
+    to: sideOf(to),
+    sections,
+    stats: { sections: count(sections), items: count(sections.flatMap(section => section.items)) },
+  };
+};
+
+// What a handoff is compared with by default: its generation before this one, else the handoff it updates
+export const findEarlierHandoff = async (record: HandoffRecord) => {
+  const store = getHandoffStore();
+  const { handoffs } = await store.list({ generationsOf: record, limit: MAX_GENERATIONS });
+  const earlier = handoffs.find(generation => generation.createdAt < record.createdAt);
+  if (earlier) return store.get(earlier.id);
+  return record.previousId ? store.get(record.previousId) : null;
+};
@@ -0,0 +1,27 @@
+import { strToU8, zipSync } from 'fflate';
+import { ExportedFile } from './export-targets';
+import { ArtifactType, RESULT_FIELDS, SummaryResponse } from './types';
+
+// File name of each artifact inside the downloadable package
+export const PACKAGE_FILES: Record<ArtifactType, string> = {
+  readme: 'HANDOFF_README.md',
+  cursor: '.cursorrules',
+  summary: 'summary.txt',
+  update: 'HANDOFF_UPDATE.md',
+};
+
+// Zip whichever artifacts have been generated, plus any assistant context files, at their repository paths.
+// Runs in the browser as well as on the server.
+export const buildHandoffZip = (results: Pick<SummaryResponse, 'summary' | 'readme' | 'cursorLog' | 'update'>, exports: ExportedFile[] = []) => {
+  const entries: Record<string, Uint8Array> = {};
+  for (const [type, fileName] of Object.entries(PACKAGE_FILES) as [ArtifactType, string][]) {
+    const content = results[RESULT_FIELDS[type]];
+    if (content) {
+      entries[fileName] = strToU8(content.endsWith('\n') ? content : content + '\n');
+    }
+  }
+  for (const file of exports) {
+    entries[file.path] = strToU8(file.content);
+  }
+  return zipSync(entries);
+};
@@ -0,0 +1,123 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Job, JobQueue, JobStore } from './types';
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+// A lock older than this was left by a process that died holding it
+const STALE_LOCK_MS = 10_000;
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 5000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exclusive-create lock file, shared by every process using the directory
+const withLock = async <T>(file: string, action: () => Promise<T>): Promise<T> => {
+  const lock = `${file}.lock`;
+  const started = Date.now();
+  while (true) {
+    try {
+      await fs.writeFile(lock, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const stat = await fs.stat(lock).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lock, { force: true });
+      } else if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for ${lock}`);
+      } else {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+  }
+  try {
+    return await action();
+  } finally {
+    await fs.rm(lock, { force: true });
+  }
+};
+
+// One JSON file per job; fine for a single instance with a persistent disk
+export const createFileJobStore = (directory: string): JobStore => {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+
+  const write = async (job: Job) => {
+    // Write then rename so readers never see a half-written job; the suffix keeps concurrent writers apart
+    const temporary = `${fileFor(job.id)}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(job));
+    await fs.rename(temporary, fileFor(job.id));
+  };
+
+  const get = async (id: string) => {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(fileFor(id), 'utf8')) as Job;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  return {
+    async save(job) {
+      await fs.mkdir(directory, { recursive: true });
+      await withLock(fileFor(job.id), () => write(job));
+    },
+
+    async saveIf(job, expected) {
+      await fs.mkdir(directory, { recursive: true });
+      return withLock(fileFor(job.id), async () => {
+        if ((await get(job.id))?.status !== expected) return false;
+        await write(job);
+        return true;
+      });
+    },
+
+    get,
+
+    async list() {
+      let names: string[];
+      try {
+        names = await fs.readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      const jobs = await Promise.all(
+        names.filter(name => name.endsWith('.json')).map(name => get(name.slice(0, -'.json'.length)))
+      );
+      return jobs.filter((job): job is Job => job !== null);
+    },
+  };
+};
+
+// One empty file per queued id, named so they sort oldest first. Deleting the file claims the job,
+// so several processes can share the directory without running a job twice.
+export const createFileJobQueue = (directory: string): JobQueue => ({
+  async push(id) {
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, `${Date.now().toString().padStart(15, '0')}-${id}`), '');
+  },
+
+  async pop() {
+    let names: string[];
+    try {
+      names = (await fs.readdir(directory)).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    for (const name of names) {
+      try {
+        await fs.unlink(path.join(directory, name));
+        return name.slice(name.indexOf('-') + 1);
+      } catch (error) {
+        // Another worker claimed it first
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+    return null;
+  },
+});
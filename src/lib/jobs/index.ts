@@ -0,0 +1,288 @@
+import { randomBytes } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { getApiKeyStore, recordUsage } from '../auth';
+import { describeGenerationError, prepareGeneration, runGeneration } from '../generation';
+import { artifactTypesOf, SummaryRequest } from '../types';
+import { createFileJobQueue, createFileJobStore } from './file';
+import { createMemoryJobQueue, createMemoryJobStore } from './memory';
+import { Job, JobQueue, JobStore } from './types';
+
+export * from './types';
+
+const DEFAULT_STORE_DIR = '.data/jobs';
+const DEFAULT_CONCURRENCY = 2;
+// Picks up jobs queued by other processes sharing the file queue
+const POLL_INTERVAL_MS = 2000;
+// Partial output is saved at most this often while a job streams
+const PROGRESS_INTERVAL_MS = 1000;
+
+interface JobWorker {
+  kick(): void;
+  // Aborts a job running in this process; false when it is not running here
+  abort(id: string): boolean;
+}
+
+// Kept on globalThis so the memory backend and the worker survive dev-server module reloads
+const globalJobs = globalThis as typeof globalThis & {
+  __jobStore?: JobStore;
+  __jobQueue?: JobQueue;
+  __jobWorker?: JobWorker;
+};
+
+// JOB_STORE picks the backend for jobs and their queue: "memory" (default) or "file" (under JOB_STORE_DIR)
+export const getJobStore = (): JobStore => {
+  if (!globalJobs.__jobStore) {
+    globalJobs.__jobStore = process.env.JOB_STORE === 'file'
+      ? createFileJobStore(path.resolve(process.env.JOB_STORE_DIR || DEFAULT_STORE_DIR))
+      : createMemoryJobStore();
+  }
+  return globalJobs.__jobStore;
+};
+
+export const getJobQueue = (): JobQueue => {
+  if (!globalJobs.__jobQueue) {
+    globalJobs.__jobQueue = process.env.JOB_STORE === 'file'
+      ? createFileJobQueue(path.join(path.resolve(process.env.JOB_STORE_DIR || DEFAULT_STORE_DIR), 'queue'))
+      : createMemoryJobQueue();
+  }
+  return globalJobs.__jobQueue;
+};
+
+// Identifies this process in the jobs it runs
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+const isAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+// A running job whose process is gone. Jobs run by another host are left alone: there is no telling from here.
+const isOrphaned = (job: Job) => {
+  if (!job.worker) return true;
+  const separator = job.worker.lastIndexOf(':');
+  const host = job.worker.slice(0, separator);
+  const pid = Number(job.worker.slice(separator + 1));
+  return host === os.hostname() && (pid === process.pid || !isAlive(pid));
+};
+
+// Run when the worker starts, before any job here can be running: a restart mid-job would otherwise leave it
+// "running" forever, and the page polling it
+const failOrphanedJobs = async () => {
+  const store = getJobStore();
+  for (const job of await store.list()) {
+    if (job.status !== 'running' || !isOrphaned(job)) continue;
+    const failed: Job = {
+      ...job,
+      status: 'failed',
+      error: { status: 500, error: 'The server restarted while this job was running. Please try again.' },
+      progress: { ...job.progress, stage: 'done' },
+      finishedAt: new Date().toISOString(),
+    };
+    delete failed.partial;
+    delete failed.request;
+    await store.saveIf(failed, 'running');
+  }
+};
+
+const jobConcurrency = () => {
+  const parsed = parseInt(process.env.JOB_CONCURRENCY || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+};
+
+const runJob = async (id: string, signal: AbortSignal) => {
+  const store = getJobStore();
+  const queued = await store.get(id);
+  // Cancelled while it waited
+  if (!queued || queued.status !== 'queued' || !queued.request) return;
+
+  const request = queued.request;
+  const job: Job = {
+    ...queued,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    progress: { ...queued.progress, stage: 'preparing' },
+    worker: WORKER_ID,
+  };
+  // Cancelled between the read above and now
+  if (!await store.saveIf({ ...job, progress: { ...job.progress } }, 'queued')) return;
+
+  // Saves are chained so a slow progress write never lands after the final one. Only this worker writes a running
+  // job, but the check keeps a job that was failed as orphaned from coming back.
+  let saving = Promise.resolve();
+  const save = () => {
+    const snapshot = { ...job, progress: { ...job.progress }, ...(job.partial && { partial: { ...job.partial } }) };
+    saving = saving.then(async () => {
+      if (!await store.saveIf(snapshot, 'running')) console.error(`Job ${id} changed while it ran; not saved`);
+    }).catch(error => {
+      console.error('Failed to save job:', error);
+    });
+    return saving;
+  };
+
+  try {
+    const apiKey = queued.apiKeyId ? await getApiKeyStore().get(queued.apiKeyId) : null;
+    const generation = await prepareGeneration(request, {
+      baseUrl: queued.baseUrl,
+      signal,
+      ...(apiKey && { onUsage: usage => recordUsage(apiKey, usage.totalTokens) }),
+    });
+
+    const total = job.progress.totalArtifacts;
+    job.progress = {
+      ...job.progress,
+      stage: 'generating',
+      completedArtifacts: total - generation.pending.length,
+    };
+    job.partial = {};
+    await save();
+
+    let current = generation.pending[0]?.type;
+    let lastSaved = Date.now();
+    const result = await runGeneration(generation, request, (type, text) => {
+      if (type !== current) {
+        current = type;
+        job.progress.completedArtifacts++;
+      }
+      job.partial![type] = (job.partial![type] ?? '') + text;
+      job.progress.generatedCharacters += text.length;
+      if (Date.now() - lastSaved >= PROGRESS_INTERVAL_MS) {
+        lastSaved = Date.now();
+        save();
+      }
+    });
+
+    job.status = 'succeeded';
+    job.result = result;
+    job.progress = { ...job.progress, stage: 'done', completedArtifacts: total };
+  } catch (error) {
+    if (signal.aborted) {
+      job.status = 'cancelled';
+    } else {
+      console.error('Job Error:', error);
+      const { status, body } = describeGenerationError(error);
+      job.status = 'failed';
+      job.error = { ...body, status };
+    }
+    job.progress = { ...job.progress, stage: 'done' };
+  }
+
+  delete job.partial;
+  delete job.request;
+  job.finishedAt = new Date().toISOString();
+  await save();
+};
+
+// Runs queued jobs in this process, at most JOB_CONCURRENCY at a time. Needs a long-lived server: on serverless
+// platforms the process may be frozen once the enqueueing response is sent.
+export const startJobWorker = (): JobWorker => {
+  if (globalJobs.__jobWorker) return globalJobs.__jobWorker;
+
+  const running = new Map<string, AbortController>();
+  let draining = false;
+  const recovered = failOrphanedJobs().catch(error => console.error('Job recovery error:', error));
+
+  const drain = async () => {
+    if (draining) return;
+    draining = true;
+    try {
+      await recovered;
+      while (running.size < jobConcurrency()) {
+        const id = await getJobQueue().pop();
+        if (!id) break;
+
+        const controller = new AbortController();
+        running.set(id, controller);
+        runJob(id, controller.signal)
+          .catch(error => console.error('Job Error:', error))
+          .finally(() => {
+            running.delete(id);
+            drain();
+          });
+      }
+    } catch (error) {
+      console.error('Job queue error:', error);
+    } finally {
+      draining = false;
+    }
+  };
+
+  setInterval(drain, POLL_INTERVAL_MS).unref();
+
+  globalJobs.__jobWorker = {
+    kick: () => {
+      drain();
+    },
+    abort: id => {
+      const controller = running.get(id);
+      controller?.abort();
+      return Boolean(controller);
+    },
+  };
+  drain();
+  return globalJobs.__jobWorker;
+};
+
+export interface NewJob {
+  request: SummaryRequest;
+  baseUrl: string;
+  apiKeyId?: string;
+}
+
+export const enqueueJob = async ({ request, baseUrl, apiKeyId }: NewJob) => {
+  const type = request.type ?? 'summary';
+  const job: Job = {
+    id: randomBytes(9).toString('base64url'),
+    type,
+    status: 'queued',
+    progress: {
+      stage: 'queued',
+      completedArtifacts: 0,
+      totalArtifacts: artifactTypesOf(type).length,
+      generatedCharacters: 0,
+    },
+    createdAt: new Date().toISOString(),
+    request,
+    baseUrl,
+    ...(apiKeyId && { apiKeyId }),
+  };
+  await getJobStore().save(job);
+  await getJobQueue().push(job.id);
+  startJobWorker().kick();
+  return job;
+};
+
+const cancelRunning = async (id: string) => {
+  const job = await getJobStore().get(id);
+  return job?.status === 'running' && startJobWorker().abort(id) ? job : false;
+};
+
+// Queued jobs are marked cancelled so the worker skips them; running jobs are aborted if this process runs them.
+// Returns null for unknown jobs and false when the job can no longer be cancelled here.
+export const cancelJob = async (id: string) => {
+  const store = getJobStore();
+  const job = await store.get(id);
+  if (!job) return null;
+
+  if (job.status === 'queued') {
+    const cancelled: Job = {
+      ...job,
+      status: 'cancelled',
+      progress: { ...job.progress, stage: 'done' },
+      finishedAt: new Date().toISOString(),
+    };
+    delete cancelled.request;
+    if (await store.saveIf(cancelled, 'queued')) return cancelled;
+    // A worker started it meanwhile; cancel it as a running job
+    return cancelRunning(id);
+  }
+
+  if (job.status === 'running') {
+    return cancelRunning(id);
+  }
+  return false;
+};
@@ -0,0 +1,52 @@
+import { Job, JobQueue, JobStore } from './types';
+
+// Finished jobs are dropped after a day so results do not pile up in memory
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Process-local store for single-instance and ephemeral deployments
+export const createMemoryJobStore = (): JobStore => {
+  const jobs = new Map<string, Job>();
+
+  const save = (job: Job) => {
+    jobs.set(job.id, job);
+    const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+    for (const [id, other] of jobs) {
+      if (other.finishedAt && other.finishedAt < cutoff) jobs.delete(id);
+    }
+  };
+
+  return {
+    async save(job) {
+      save(job);
+    },
+
+    // Check and write happen in one synchronous step, so nothing can run in between
+    async saveIf(job, expected) {
+      if (jobs.get(job.id)?.status !== expected) return false;
+      save(job);
+      return true;
+    },
+
+    async get(id) {
+      return jobs.get(id) ?? null;
+    },
+
+    async list() {
+      return [...jobs.values()];
+    },
+  };
+};
+
+export const createMemoryJobQueue = (): JobQueue => {
+  const ids: string[] = [];
+
+  return {
+    async push(id) {
+      ids.push(id);
+    },
+
+    async pop() {
+      return ids.shift() ?? null;
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import { ArtifactType, GenerationType, SummaryRequest, SummaryResponse } from '../types';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  stage: 'queued' | 'preparing' | 'generating' | 'done';
+  // Artifacts finished out of those requested (cache hits count as finished)
+  completedArtifacts: number;
+  totalArtifacts: number;
+  generatedCharacters: number;
+}
+
+export interface Job {
+  id: string;
+  type: GenerationType;
+  status: JobStatus;
+  progress: JobProgress;
+  // Text generated so far while the job runs, per artifact
+  partial?: Partial<Record<ArtifactType, string>>;
+  result?: SummaryResponse;
+  // Same status and body /api/summary would have answered with
+  error?: { status: number; error: string } & Record<string, unknown>;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // Inputs are only kept until the job finishes, like stored handoffs they are not retained
+  request?: SummaryRequest;
+  apiKeyId?: string;
+  // Base URL for share links in exported context files
+  baseUrl: string;
+  // "<host>:<pid>" of the process running the job, to recognise jobs a restart left running
+  worker?: string;
+}
+
+// What GET /api/jobs/[id] shows
+export type JobView = Omit<Job, 'request' | 'apiKeyId' | 'baseUrl' | 'worker'>;
+
+export interface JobStore {
+  save(job: Job): Promise<void>;
+  // Saves only while the stored job still has the expected status, so a cancel and the worker picking the job up
+  // cannot both win. False when it had changed.
+  saveIf(job: Job, expected: JobStatus): Promise<boolean>;
+  get(id: string): Promise<Job | null>;
+  list(): Promise<Job[]>;
+}
+
+// Job ids waiting for a worker, oldest first
+export interface JobQueue {
+  push(id: string): Promise<void>;
+  // Takes the oldest id so no other worker gets it, or null when the queue is empty
+  pop(): Promise<string | null>;
+}
+
+export const toJobView = (job: Job): JobView => {
+  const view: Partial<Job> = { ...job };
+  delete view.request;
+  delete view.apiKeyId;
+  delete view.baseUrl;
+  delete view.worker;
+  return view as JobView;
+};
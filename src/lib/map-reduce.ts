@@ -0,0 +1,211 @@
+import { formatCommitList, formatHistory, GitHistory } from './git-history';
+import {
+  getChunkNotesPrompt,
+  getMergeNotesPrompt,
+  getPrompt,
+  historyContext,
+  notesContext,
+  PromptDetails,
+  transcriptContext,
+} from './prompts';
+import { CompletionOptions, LLMProvider } from './providers';
+import { estimateTokens, getTokenBudget, InputTooLargeError } from './tokens';
+import { ArtifactType } from './types';
+import { formatCodeChanges, formatTimeline, formatTranscriptHeader, formatTurn, Transcript } from './transcript';
+
+export interface PreparedPrompt {
+  prompt: string;
+  // Transcript chunks summarized in the map step; 1 when the transcript fit in a single prompt
+  chunks: number;
+  estimatedTokens: number;
+}
+
+interface PreparePromptOptions {
+  type: ArtifactType;
+  transcript: Transcript;
+  code: string;
+  history?: GitHistory;
+  provider: LLMProvider;
+  options: CompletionOptions;
+  // Template, author and ticket for the final prompt
+  details?: PromptDetails;
+  signal?: AbortSignal;
+  // Shared between calls preparing different artifacts from the same inputs, so each chunk is condensed once
+  notesCache?: Map<string, Promise<string>>;
+}
+
+// Room for instructions around the chunk in each map prompt
+const NOTES_PROMPT_OVERHEAD = 400;
+// Merge rounds before giving up on condensing the notes further
+const MAX_REDUCE_ROUNDS = 3;
+
+// Split turns into consecutive chunks under the budget; a single oversized turn is cut into parts
+const chunkTranscript = (transcript: Transcript, chunkTokens: number) => {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length) chunks.push(current.join('\n\n'));
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const turn of transcript.turns) {
+    const text = formatTurn(turn);
+    const tokens = estimateTokens(text);
+
+    if (tokens > chunkTokens) {
+      flush();
+      const partLength = Math.max(1, Math.floor(text.length * (chunkTokens / tokens)));
+      const parts = Math.ceil(text.length / partLength);
+      for (let part = 0; part < parts; part++) {
+        const slice = text.slice(part * partLength, (part + 1) * partLength);
+        chunks.push(part === 0 ? slice : `### [#${turn.index}] (continued, part ${part + 1} of ${parts})\n${slice}`);
+      }
+      continue;
+    }
+
+    if (currentTokens + tokens > chunkTokens) flush();
+    current.push(text);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return chunks;
+};
+
+const pairUp = (notes: string[]) => {
+  const pairs: string[][] = [];
+  for (let i = 0; i < notes.length; i += 2) {
+    pairs.push(notes.slice(i, i + 2));
+  }
+  return pairs;
+};
+
+// Build the final prompt, condensing the transcript with map-reduce when it does not fit the context window
+export const preparePrompt = async ({
+  type,
+  transcript,
+  code,
+  history,
+  provider,
+  options,
+  details,
+  signal,
+  notesCache = new Map(),
+}: PreparePromptOptions): Promise<PreparedPrompt> => {
+  const budget = getTokenBudget();
+  const promptBudget = budget.contextTokens - options.maxTokens;
+  const codeTokens = estimateTokens(code);
+  const transcriptTokens = transcript.turns.reduce((total, turn) => total + estimateTokens(turn.text), 0);
+  const historyTokens = history ? estimateTokens(formatHistory(history)) : 0;
+  const inputTokens = codeTokens + transcriptTokens + historyTokens;
+
+  if (inputTokens > budget.maxInputTokens) {
+    throw new InputTooLargeError(
+      `Input is too large: ~${inputTokens} tokens of transcript, code and history, the limit is ${budget.maxInputTokens}.`,
+      inputTokens,
+      budget.maxInputTokens
+    );
+  }
+
+  // Prefer full diffs, then fall back to one line per commit before condensing the transcript
+  const fullHistory = historyContext(history ? formatHistory(history) : '');
+  const compactHistory = historyContext(history ? formatCommitList(history) : '');
+  for (const historyText of [fullHistory, compactHistory]) {
+    const fullPrompt = getPrompt(type, { ...transcriptContext(transcript), history: historyText }, code, details);
+    const fullTokens = estimateTokens(fullPrompt);
+    if (fullTokens <= promptBudget) {
+      return { prompt: fullPrompt, chunks: 1, estimatedTokens: fullTokens };
+    }
+  }
+
+  // Code and the commit list are sent verbatim, so they have to fit next to the instructions with room left for notes
+  const scaffold = getPrompt(type, { ...notesContext('', '', ''), history: compactHistory }, code, details);
+  const notesBudget = promptBudget - estimateTokens(scaffold);
+  if (notesBudget < promptBudget / 4) {
+    throw new InputTooLargeError(
+      `Code is too large: ~${codeTokens} tokens of code and commit history leave no room for the transcript in a ${budget.contextTokens}-token context window. Upload fewer files or raise LLM_CONTEXT_TOKENS.`,
+      codeTokens,
+      Math.floor(promptBudget * 3 / 4)
+    );
+  }
+
+  const complete = (prompt: string) => {
+    if (!notesCache.has(prompt)) {
+      notesCache.set(prompt, provider.complete({
+        ...options,
+        temperature: Math.min(options.temperature, 0.3),
+        maxTokens: budget.notesMaxTokens,
+        messages: [{ role: 'user', content: prompt }],
+        signal,
+      }).then(result => result.content.trim()));
+    }
+    return notesCache.get(prompt)!;
+  };
+
+  // Map: condense each chunk independently (sequentially, to stay within upstream rate limits)
+  const chunkTokens = Math.max(budget.contextTokens - budget.notesMaxTokens - NOTES_PROMPT_OVERHEAD, 512);
+  const chunks = chunkTranscript(transcript, chunkTokens);
+  let notes: string[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const chunkNotes = await complete(getChunkNotesPrompt(chunks[i], i + 1, chunks.length));
+    notes.push(`### Notes from part ${i + 1} of ${chunks.length}\n${chunkNotes}`);
+  }
+
+  // Reduce: merge groups of notes until they fit next to the code
+  for (let round = 0; estimateTokens(notes.join('\n\n')) > notesBudget; round++) {
+    if (round === MAX_REDUCE_ROUNDS || notes.length === 1) {
+      throw new InputTooLargeError(
+        `Transcript is too large: it could not be condensed to fit a ${budget.contextTokens}-token context window alongside the code.`,
+        transcriptTokens,
+        notesBudget
+      );
+    }
+
+    const groups: string[][] = [[]];
+    let groupTokens = 0;
+    for (const note of notes) {
+      const tokens = estimateTokens(note);
+      if (groupTokens + tokens > chunkTokens && groups[groups.length - 1].length) {
+        groups.push([]);
+        groupTokens = 0;
+      }
+      groups[groups.length - 1].push(note);
+      groupTokens += tokens;
+    }
+    // Make progress even when every note fits in one group
+    if (groups.length === notes.length) {
+      groups.splice(0, groups.length, ...pairUp(notes));
+    }
+
+    const merged: string[] = [];
+    for (const group of groups) {
+      merged.push(group.length === 1 ? group[0] : await complete(getMergeNotesPrompt(group.join('\n\n'))));
+    }
+    notes = merged;
+  }
+
+  // Timeline and per-turn code changes are compact, but drop them if they would not fit either
+  const remaining = notesBudget - estimateTokens(notes.join('\n\n'));
+  const timeline = formatTimeline(transcript);
+  const codeChanges = formatCodeChanges(transcript);
+  const fits = estimateTokens(timeline) + estimateTokens(codeChanges) <= remaining;
+
+  const prompt = getPrompt(
+    type,
+    {
+      ...notesContext(
+        `${formatTranscriptHeader(transcript)}\n\n${notes.join('\n\n')}`,
+        fits ? timeline : 'Omitted for length; use the turn numbers and timestamps in the notes above.',
+        fits ? codeChanges : 'Omitted for length; use the code changes recorded in the notes above.'
+      ),
+      history: compactHistory,
+    },
+    code,
+    details
+  );
+
+  return { prompt, chunks: chunks.length, estimatedTokens: estimateTokens(prompt) };
+};
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseInline } from './markdown';
+
+const linkHref = (markdown: string) => {
+  const [token] = parseInline(markdown);
+  return token.kind === 'link' ? token.href : null;
+};
+
+describe('parseInline links', () => {
+  it('links web, mail, anchor and relative targets', () => {
+    for (const href of ['https://example.com/a', 'http://example.com', 'mailto:dev@example.com', '#setup', '/docs', './a.md', '../b.md']) {
+      assert.equal(linkHref(`[label](${href})`), href);
+    }
+  });
+
+  it('leaves other schemes and protocol-relative targets as text', () => {
+    for (const href of ['javascript:steal', 'data:text/html,x', '//evil.example', '/\\evil.example']) {
+      assert.deepEqual(parseInline(`[label](${href})`), [{ kind: 'text', text: `[label](${href})` }]);
+    }
+  });
+});
@@ -0,0 +1,220 @@
+// A small Markdown parser for previewing generated handoffs in the browser: the CommonMark subset the prompts ask
+// for (headings, lists with checkboxes, fenced code, quotes, tables, emphasis, links), parsed into plain objects
+// that are rendered as React elements, so nothing from a model reply is ever injected as HTML.
+
+export type InlineToken =
+  | { kind: 'text' | 'code'; text: string }
+  | { kind: 'strong' | 'em' | 'strike'; children: InlineToken[] }
+  | { kind: 'link'; href: string; children: InlineToken[] };
+
+export interface ListItem {
+  // null for a plain item, otherwise whether its [ ] / [x] box is checked
+  checked: boolean | null;
+  blocks: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'code'; language: string; text: string }
+  | { kind: 'quote'; blocks: MarkdownBlock[] }
+  | { kind: 'list'; ordered: boolean; items: ListItem[] }
+  | { kind: 'table'; header: string[]; rows: string[][] }
+  | { kind: 'rule' };
+
+// A heading and everything up to the next heading, as offsets into the source, so it can be replaced in place
+export interface MarkdownSection {
+  start: number;
+  end: number;
+  heading: string;
+  level: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// A relative path starts with one slash only: browsers read //host and /\host as links to another site
+const SAFE_HREF_PATTERN = /^(https?:\/\/|mailto:|#|\/(?![/\\])|\.{1,2}\/)/i;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+export const splitSections = (markdown: string): MarkdownSection[] => {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection = { start: 0, end: 0, heading: '', level: 0 };
+  let offset = 0;
+  let fence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch && (!fence || fenceMatch[1].startsWith(fence))) {
+      fence = fence ? null : fenceMatch[1];
+    }
+    const heading = !fence && line.match(HEADING_PATTERN);
+    if (heading) {
+      current.end = offset;
+      if (current.heading || markdown.slice(current.start, offset).trim()) sections.push(current);
+      current = { start: offset, end: 0, heading: heading[2], level: heading[1].length };
+    }
+    offset += line.length + 1;
+  }
+  current.end = markdown.length;
+  if (current.heading || markdown.slice(current.start).trim()) sections.push(current);
+  return sections;
+};
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+// The lines of one list item: its first line without the marker, and what is indented under it
+const parseList = (lines: string[], start: number) => {
+  const first = lines[start].match(LIST_ITEM_PATTERN)!;
+  const indent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: ListItem[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const match = lines[index].match(LIST_ITEM_PATTERN);
+    if (!match || indentOf(match[1]) !== indent || /\d/.test(match[2]) !== ordered) break;
+
+    const content = [match[3]];
+    index++;
+    while (index < lines.length) {
+      const line = lines[index];
+      if (!line.trim()) {
+        // A blank line ends the item unless more of it follows, indented
+        const next = lines.slice(index + 1).find(candidate => candidate.trim());
+        if (!next || indentOf(next) <= indent) break;
+        content.push('');
+      } else if (indentOf(line) > indent) {
+        content.push(line.replace(new RegExp(`^\\s{0,${indent + match[2].length + 1}}`), ''));
+      } else if (LIST_ITEM_PATTERN.test(line) || HEADING_PATTERN.test(line) || FENCE_PATTERN.test(line)) {
+        break;
+      } else {
+        // Lazy continuation of the item's text
+        content.push(line.trim());
+      }
+      index++;
+    }
+
+    const checkbox = content[0].match(/^\[([ xX])\]\s+/);
+    if (checkbox) content[0] = content[0].slice(checkbox[0].length);
+    items.push({ checked: checkbox ? checkbox[1] !== ' ' : null, blocks: parseBlocks(content.join('\n')) });
+
+    // Items separated by blank lines still form one list
+    while (index < lines.length && !lines[index].trim() &&
+      lines[index + 1]?.match(LIST_ITEM_PATTERN) && indentOf(lines[index + 1]) === indent) {
+      index++;
+    }
+  }
+  return { block: { kind: 'list' as const, ordered, items }, next: index };
+};
+
+export const parseBlocks = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const body: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        body.push(lines[index]);
+        index++;
+      }
+      blocks.push({ kind: 'code', language: fence[2], text: body.join('\n') });
+      index++;
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ kind: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const { block, next } = parseList(lines, index);
+      blocks.push(block);
+      index = next;
+      continue;
+    }
+
+    if (line.trimStart().startsWith('>')) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].trimStart().startsWith('>')) {
+        quoted.push(lines[index].trimStart().replace(/^>\s?/, ''));
+        index++;
+      }
+      blocks.push({ kind: 'quote', blocks: parseBlocks(quoted.join('\n')) });
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DIVIDER_PATTERN.test(lines[index + 1] ?? '') && lines[index + 1].includes('-')) {
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim()) {
+        rows.push(splitRow(lines[index]));
+        index++;
+      }
+      blocks.push({ kind: 'table', header, rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() &&
+      !FENCE_PATTERN.test(lines[index]) && !HEADING_PATTERN.test(lines[index]) &&
+      !LIST_ITEM_PATTERN.test(lines[index]) && !lines[index].trimStart().startsWith('>')) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+  }
+  return blocks;
+};
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) tokens.push({ kind: 'text', text: text.slice(last, match.index) });
+    const [whole, code, strong, strongAlt, strike, em, emAlt, label, href] = match;
+    if (code !== undefined) {
+      tokens.push({ kind: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      tokens.push({ kind: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (strike !== undefined) {
+      tokens.push({ kind: 'strike', children: parseInline(strike) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      tokens.push({ kind: 'em', children: parseInline(em ?? emAlt) });
+    } else if (SAFE_HREF_PATTERN.test(href)) {
+      tokens.push({ kind: 'link', href, children: parseInline(label) });
+    } else {
+      tokens.push({ kind: 'text', text: whole });
+    }
+    last = match.index + whole.length;
+  }
+  if (last < text.length) tokens.push({ kind: 'text', text: text.slice(last) });
+  return tokens;
+};
@@ -0,0 +1,49 @@
+import { NotificationChannel, NotificationError } from './types';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const BACKOFF_BASE_MS = 1000;
+
+export interface DeliveryOptions {
+  // Attempts after the first, for network errors, 429 and 5xx
+  retries: number;
+  // Built per attempt, so signed requests carry a fresh timestamp
+  headers?: () => Record<string, string>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+// POST a JSON body, retrying transient failures with exponential backoff
+export const deliver = async (
+  channel: Pick<NotificationChannel, 'name' | 'label'>,
+  url: string,
+  body: string,
+  { retries, headers = () => ({}) }: DeliveryOptions
+) => {
+  for (let attempt = 0; ; attempt++) {
+    let status: number | undefined;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers() },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (response.ok) return;
+      status = response.status;
+      console.error(`${channel.label} Error:`, status, await response.text().catch(() => ''));
+    } catch (error) {
+      console.error(`${channel.label} Error:`, error);
+    }
+
+    if ((status !== undefined && !isRetryable(status)) || attempt >= retries) {
+      throw new NotificationError(
+        `${channel.label} notification failed after ${attempt + 1} attempt(s)${status ? ` (HTTP ${status})` : ''}`,
+        channel.name,
+        status
+      );
+    }
+    await sleep(BACKOFF_BASE_MS * 2 ** attempt);
+  }
+};
@@ -0,0 +1,91 @@
+import { HandoffRecord, toSummary } from '../store';
+import { ArtifactType } from '../types';
+import { createSlackChannel } from './slack';
+import { createTeamsChannel } from './teams';
+import { HandoffReadyEvent, NotificationChannel } from './types';
+import { createWebhookChannel } from './webhook';
+
+export * from './types';
+
+const DEFAULT_RETRIES = 3;
+
+// The artifact the notification links to, most complete first
+const LINK_PRIORITY: ArtifactType[] = ['readme', 'update', 'cursor', 'summary'];
+
+const envRetries = () => {
+  const parsed = parseInt(process.env.NOTIFY_RETRIES || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.min(parsed, 10) : DEFAULT_RETRIES;
+};
+
+// Channels are configured entirely through environment variables; any number of them can be active
+export const getNotificationChannels = (): NotificationChannel[] => {
+  const retries = envRetries();
+  const channels: NotificationChannel[] = [];
+
+  if (process.env.SLACK_WEBHOOK_URL) {
+    channels.push(createSlackChannel({ webhookUrl: process.env.SLACK_WEBHOOK_URL, retries }));
+  }
+  if (process.env.TEAMS_WEBHOOK_URL) {
+    channels.push(createTeamsChannel({ webhookUrl: process.env.TEAMS_WEBHOOK_URL, retries }));
+  }
+  if (process.env.NOTIFY_WEBHOOK_URL) {
+    const secret = process.env.NOTIFY_WEBHOOK_SECRET;
+    if (secret) {
+      channels.push(createWebhookChannel({ url: process.env.NOTIFY_WEBHOOK_URL, secret, retries }));
+    } else {
+      // Unsigned deliveries could be forged, so the webhook is not sent at all
+      console.error('NOTIFY_WEBHOOK_SECRET is not set in environment variables; webhook notifications are disabled');
+    }
+  }
+  return channels;
+};
+
+export interface HandoffReadyDetails {
+  // Base URL for links to the stored handoffs
+  baseUrl: string;
+  author?: string;
+  ticket?: string;
+}
+
+const buildHandoffReadyEvent = (records: HandoffRecord[], { baseUrl, author, ticket }: HandoffReadyDetails): HandoffReadyEvent => {
+  const handoffs = records.map(record => ({
+    id: record.id,
+    type: record.type,
+    url: new URL(`/handoff/${record.id}`, baseUrl).toString(),
+  }));
+  const linked = LINK_PRIORITY.map(type => handoffs.find(handoff => handoff.type === type)).find(Boolean) ?? handoffs[0];
+  const summary = records.find(record => record.type === 'summary');
+
+  return {
+    event: 'handoff.ready',
+    title: records[0].title || 'Untitled session',
+    summary: summary ? summary.output.trim() : toSummary(records[0]).preview,
+    url: linked.url,
+    handoffs,
+    ...(author && { author }),
+    ...(ticket && { ticket }),
+    provider: records[0].provider,
+    model: records[0].model,
+    createdAt: records[0].createdAt,
+  };
+};
+
+// Announce newly stored handoffs on every configured channel. Never throws: a failed notification is logged and
+// must not fail the generation it announces.
+export const notifyHandoffReady = async (records: HandoffRecord[], details: HandoffReadyDetails) => {
+  try {
+    const channels = getNotificationChannels();
+    if (!channels.length || !records.length) return;
+
+    // new URL() throws on an invalid baseUrl
+    const event = buildHandoffReadyEvent(records, details);
+    const results = await Promise.allSettled(channels.map(channel => channel.send(event)));
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error('Notification failed:', result.reason instanceof Error ? result.reason.message : result.reason);
+      }
+    });
+  } catch (error) {
+    console.error('Notification failed:', error instanceof Error ? error.message : error);
+  }
+};
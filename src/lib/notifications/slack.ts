@@ -0,0 +1,45 @@
+import { deliver } from './delivery';
+import { HandoffReadyEvent, NotificationChannel } from './types';
+
+interface SlackConfig {
+  webhookUrl: string;
+  retries: number;
+}
+
+// Section blocks hold at most 3000 characters
+const MAX_SECTION_CHARS = 2900;
+
+const escapeMrkdwn = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const buildSlackMessage = (event: HandoffReadyEvent) => {
+  const context = [event.author && `by ${event.author}`, event.ticket && `ticket ${event.ticket}`].filter(Boolean).join(' · ');
+  return {
+    // Shown in notifications and by clients that cannot render blocks
+    text: `🤝 Handoff ready: ${event.title} ${event.url}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: truncate(`🤝 Handoff ready: ${event.title}`, 150), emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: escapeMrkdwn(truncate(event.summary, MAX_SECTION_CHARS)) } },
+      ...(context ? [{ type: 'context', elements: [{ type: 'mrkdwn', text: escapeMrkdwn(context) }] }] : []),
+      {
+        type: 'actions',
+        elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open the handoff' }, url: event.url, style: 'primary' }],
+      },
+    ],
+  };
+};
+
+// Slack incoming webhook: https://hooks.slack.com/services/...
+export const createSlackChannel = (config: SlackConfig): NotificationChannel => {
+  const channel: NotificationChannel = {
+    name: 'slack',
+    label: 'Slack',
+
+    async send(event) {
+      await deliver(channel, config.webhookUrl, JSON.stringify(buildSlackMessage(event)), { retries: config.retries });
+    },
+  };
+
+  return channel;
+};
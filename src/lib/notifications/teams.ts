@@ -0,0 +1,49 @@
+import { deliver } from './delivery';
+import { HandoffReadyEvent, NotificationChannel } from './types';
+
+interface TeamsConfig {
+  webhookUrl: string;
+  retries: number;
+}
+
+const buildTeamsMessage = (event: HandoffReadyEvent) => {
+  const facts = [
+    event.author && { title: 'Author', value: event.author },
+    event.ticket && { title: 'Ticket', value: event.ticket },
+    { title: 'Generated', value: event.handoffs.map(handoff => handoff.type).join(', ') },
+  ].filter(Boolean);
+
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: `🤝 Handoff ready: ${event.title}`, weight: 'Bolder', size: 'Medium', wrap: true },
+          { type: 'TextBlock', text: event.summary, wrap: true },
+          { type: 'FactSet', facts },
+        ],
+        actions: [{ type: 'Action.OpenUrl', title: 'Open the handoff', url: event.url }],
+      },
+    }],
+  };
+};
+
+// Teams incoming webhook or Workflows "post to a channel when a webhook request is received" URL, both of which
+// accept Adaptive Card attachments
+export const createTeamsChannel = (config: TeamsConfig): NotificationChannel => {
+  const channel: NotificationChannel = {
+    name: 'teams',
+    label: 'Microsoft Teams',
+
+    async send(event) {
+      await deliver(channel, config.webhookUrl, JSON.stringify(buildTeamsMessage(event)), { retries: config.retries });
+    },
+  };
+
+  return channel;
+};
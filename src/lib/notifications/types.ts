@@ -0,0 +1,38 @@
+import { ArtifactType } from '../types';
+
+export type ChannelName = 'slack' | 'teams' | 'webhook';
+
+// Sent once per generation that stored new handoffs; cache hits are not announced again
+export interface HandoffReadyEvent {
+  event: 'handoff.ready';
+  title: string;
+  // The generated summary, or the start of the first artifact when no summary was generated
+  summary: string;
+  // The README when one was generated, otherwise the first artifact
+  url: string;
+  handoffs: { id: string; type: ArtifactType; url: string }[];
+  author?: string;
+  ticket?: string;
+  provider: string;
+  model: string;
+  createdAt: string;
+}
+
+export interface NotificationChannel {
+  name: ChannelName;
+  label: string;
+  send(event: HandoffReadyEvent): Promise<void>;
+}
+
+export class NotificationError extends Error {
+  channel: ChannelName;
+  // HTTP status of the last attempt; absent when the endpoint could not be reached
+  status?: number;
+
+  constructor(message: string, channel: ChannelName, status?: number) {
+    super(message);
+    this.name = 'NotificationError';
+    this.channel = channel;
+    this.status = status;
+  }
+}
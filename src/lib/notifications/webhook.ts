@@ -0,0 +1,42 @@
+import { createHmac, randomUUID } from 'crypto';
+import { deliver } from './delivery';
+import { NotificationChannel } from './types';
+
+interface WebhookConfig {
+  url: string;
+  secret: string;
+  retries: number;
+}
+
+// Receivers recompute HMAC-SHA256 over "<timestamp>.<raw body>" with the shared secret and compare it with
+// X-Handoff-Signature; rejecting old timestamps guards against replays
+const signWebhook = (secret: string, timestamp: string, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// The event as JSON to any endpoint; a delivery keeps its id across retries so receivers can deduplicate
+export const createWebhookChannel = (config: WebhookConfig): NotificationChannel => {
+  const channel: NotificationChannel = {
+    name: 'webhook',
+    label: 'Webhook',
+
+    async send(event) {
+      const body = JSON.stringify(event);
+      const delivery = randomUUID();
+      await deliver(channel, config.url, body, {
+        retries: config.retries,
+        headers: () => {
+          const timestamp = String(Math.floor(Date.now() / 1000));
+          return {
+            'User-Agent': 'Handoff.ai-Webhook',
+            'X-Handoff-Event': event.event,
+            'X-Handoff-Delivery': delivery,
+            'X-Handoff-Timestamp': timestamp,
+            'X-Handoff-Signature': signWebhook(config.secret, timestamp, body),
+          };
+        },
+      });
+    },
+  };
+
+  return channel;
+};
@@ -0,0 +1,317 @@
+import { formatCodeChanges, formatTimeline, formatTranscript, Transcript } from './transcript';
+import { renderTemplate } from './templates/render';
+import { ArtifactType } from './types';
+
+const TRANSCRIPT_NOTE = 'Each turn is labelled [#n] with its speaker and, where the export recorded one, its timestamp. Ground timelines and code changes in these turns and do not invent timestamps.';
+
+const CODE_NOTE = 'Each file is listed under its path. Refer to files by path when describing changes, TODOs or risks.';
+
+const NOTES_NOTE = 'The session was too long to include verbatim, so it was condensed chunk by chunk into the notes below. Turn numbers [#n] and timestamps in the notes refer to the original transcript. Do not invent timestamps.';
+
+const DIGEST_NOTE = 'Found in the code by static analysis, so complete and exact for what it covers. Base dependencies, configuration and TODOs on it, and add what only the transcript reveals.';
+
+const NO_DIGEST = 'Nothing was found by static analysis.';
+
+const HISTORY_NOTE = 'Commits are listed oldest first as: date, short hash, "subject", (author). Anchor the timeline and coding history to these commits where they apply.';
+
+// Everything a prompt is built from besides the code: transcript-derived parts (either the full
+// transcript or condensed notes) and the commit history
+export interface PromptContext {
+  transcript: string;
+  timeline: string;
+  codeChanges: string;
+  history: string;
+}
+
+export type TranscriptContext = Omit<PromptContext, 'history'>;
+
+export const NO_HISTORY = 'No commit history was provided.';
+
+export const historyContext = (history: string) => history ? `${HISTORY_NOTE}\n\n${history}` : NO_HISTORY;
+
+export const transcriptContext = (transcript: Transcript): TranscriptContext => ({
+  transcript: `${TRANSCRIPT_NOTE}\n\n${formatTranscript(transcript)}`,
+  timeline: formatTimeline(transcript),
+  codeChanges: formatCodeChanges(transcript),
+});
+
+export const notesContext = (notes: string, timeline: string, codeChanges: string): TranscriptContext => ({
+  transcript: `${NOTES_NOTE}\n\n${notes}`,
+  timeline,
+  codeChanges,
+});
+
+// Built-in template for each artifact; teams can override them through the template store
+export const DEFAULT_TEMPLATES: Record<ArtifactType, string> = {
+  summary: `Summarize the following AI-assisted development session in 2–3 sentences.
+
+Focus on:
+- What Engineer 1 was trying to build
+- Any major shifts in approach
+- Tools or APIs used
+- Current state of the work (e.g. incomplete, functional, missing validation)
+
+Avoid code. Be concise and clear.
+
+---
+
+## Chat Transcript:
+{{transcript}}
+
+## Final Code:
+{{code}}`,
+
+  cursor: `You are an AI memory generator for coding assistants like Cursor. Your task is to create a structured context document that captures the full development process from a previous engineer, to be used by a second engineer's AI assistant to continue seamlessly.
+
+You will be given:
+- The full code at the time of handoff
+- Logs of chat conversations between Engineer 1 and their coding assistants (Cursor, Claude, etc.), including prompts, code suggestions, errors, questions, and revisions
+
+Output a detailed technical summary with the following structure:
+
+1. Feature Name
+2. Development Timeline (timestamped major events, citing commit hashes where the commit history covers them)
+3. Original Goals (what the engineer was trying to achieve)
+4. Coding History:
+   - Key code changes with associated prompts
+   - Important implementation decisions
+   - Deleted or replaced approaches
+   - Bugs and error messages encountered
+5. Resolved vs Unresolved Issues
+6. Remaining TODOs (including the TODO/FIXME comments in the code digest)
+7. Dependencies and External Services (packages, environment variables and URLs from the code digest)
+8. Engineer 1's coding preferences or style notes (e.g. "prefers minimal error handling", "used async/await throughout")
+
+This document will serve as **working context for the next engineer's AI assistant**, so avoid unnecessary commentary. Prioritize clarity, completeness, and deep technical accuracy. Include relevant code snippets and time markers to help AI interpret the codebase like Engineer 1 did.
+
+---
+
+## Handoff Details:
+Engineer 1: {{author|not specified}}
+Ticket: {{ticket|not specified}}
+
+## Chat Transcript:
+{{transcript}}
+
+## Timeline (from transcript timestamps):
+{{timeline}}
+
+## Code Changes by Turn:
+{{code_changes}}
+
+## Commit History:
+{{history}}
+
+## Code Digest:
+{{code_digest}}
+
+## Final Code:
+{{code}}
+
+---
+
+Please return only the structured context document that can be pasted into Cursor/Claude to give the AI assistant full context of Engineer 1's work.`,
+
+  readme: `You are a senior AI developer assistant. Your task is to generate a clear, human-readable README for a second engineer inheriting a coding project mid-sprint.
+
+You will be given:
+- Full source code at the time of handoff
+- A chronological log of conversations between Engineer 1 and their AI assistants (Cursor, Claude, etc), including all prompts, responses, code snippets, questions, bugs, and notes.
+
+Your job is to extract and organize the full **thought process** of Engineer 1 into a concise but thorough README. It must help Engineer 2 quickly understand:
+
+1. What was the goal of the work Engineer 1 was doing?
+2. What did the code look like when they started? (Use the earliest commits in the commit history when one is provided.)
+3. How did it change over time? (Include timestamps with major events)
+4. What bugs or blockers did they face? How were these resolved?
+5. What tradeoffs were made or shortcuts taken?
+6. Are there any known gaps, risks, or unfinished elements?
+7. Any critical TODOs or handoff notes?
+8. What patterns or intentions does Engineer 2 need to know to continue work?
+
+Format the README with clearly marked sections and timestamps (e.g. Monday 11:04am – Fixed image upload bug by bypassing validation check, or the turn number [#n] when the transcript has no timestamps). Use bullet points and code snippets when helpful. Prioritize clarity, context, and continuity. Assume Engineer 2 has access to the code but not the full chat history.
+
+---
+
+## Handoff Details:
+Engineer 1: {{author|not specified}}
+Ticket: {{ticket|not specified}}
+
+## Chat Transcript:
+{{transcript}}
+
+## Timeline (from transcript timestamps):
+{{timeline}}
+
+## Code Changes by Turn:
+{{code_changes}}
+
+## Commit History:
+{{history}}
+
+## Code Digest:
+{{code_digest}}
+
+## Final Code:
+{{code}}`,
+
+  update: `You are revising an engineering handoff. The previous handoff below was written for the engineer who then continued the work; they are now handing off in turn. The transcript, commit history and code below cover only what happened since the previous handoff.
+
+Write the complete revised handoff, not just the changes. Keep the previous handoff's structure and everything in it that still holds, and:
+
+1. Start with a "## What Changed Since the Last Handoff" section: a short bulleted list of what this session did, each with its timestamp or turn number [#n]
+2. Mark TODOs finished in this session as done, e.g. "- [x] ~~Add input validation~~ (done [#4])", and keep open ones as "- [ ] ..."
+3. Add TODOs that came up in this session, marked "(new)"
+4. Mark issues fixed in this session "(resolved)" and add issues that appeared in it, marked "(new)"
+5. Correct or remove statements the new conversation or code contradicts, and say what replaced them
+
+Do not carry forward progress the new activity does not support, and do not invent timestamps. Where the previous handoff and the new code disagree, the code is the source of truth.
+
+---
+
+## Handoff Details:
+Engineer: {{author|not specified}}
+Ticket: {{ticket|not specified}}
+
+## Previous Handoff:
+{{previous}}
+
+## New Chat Transcript:
+{{transcript}}
+
+## Timeline (from transcript timestamps):
+{{timeline}}
+
+## Code Changes by Turn:
+{{code_changes}}
+
+## New Commit History:
+{{history}}
+
+## Code Digest:
+{{code_digest}}
+
+## Changed Code:
+{{code}}`,
+};
+
+// Per-generation inputs that are not derived from the transcript, plus the template to render
+export interface PromptDetails {
+  author?: string;
+  ticket?: string;
+  // The handoff an update revises
+  previous?: string;
+  // formatCodeDigest() of the code
+  codeDigest?: string;
+  template?: string;
+}
+
+export const getPrompt = (type: ArtifactType, context: PromptContext, code: string, details: PromptDetails = {}) =>
+  renderTemplate(details.template ?? DEFAULT_TEMPLATES[type], {
+    transcript: context.transcript,
+    timeline: context.timeline,
+    code_changes: context.codeChanges,
+    history: context.history,
+    code: `${CODE_NOTE}\n\n${code}`,
+    code_digest: details.codeDigest ? `${DIGEST_NOTE}\n\n${details.codeDigest}` : NO_DIGEST,
+    author: details.author,
+    ticket: details.ticket,
+    previous: details.previous,
+  });
+
+// Map step of map-reduce summarization: condense one slice of a long transcript
+export const getChunkNotesPrompt = (chunk: string, index: number, total: number) => `You are condensing part ${index} of ${total} of a long AI-assisted development session so that a later step can write an engineering handoff from the notes alone.
+
+Extract, as terse bullet points:
+- Goals and requirements stated by Engineer 1
+- Implementation decisions, and approaches that were replaced or abandoned
+- Code changes, naming the files and functions involved
+- Bugs and error messages (quote them exactly) and whether they were resolved
+- Open questions, TODOs and known gaps
+- Tools, libraries and external services used
+
+Prefix every bullet with the turn number it comes from, e.g. [#12], and keep timestamps exactly as written. Do not add anything that is not in the transcript.
+
+---
+
+## Transcript (part ${index} of ${total}):
+${chunk}`;
+
+// Reduce step used when the collected notes are still too long for the final prompt
+export const getMergeNotesPrompt = (notes: string) => `Merge the following notes from consecutive parts of one development session into a single, shorter set of notes.
+
+Keep every turn number [#n], timestamp, file name, error message and unresolved issue. Drop repetition and details that were later superseded, but record that the superseded approach existed.
+
+---
+
+${notes}`;
+
+export interface AskPromptContext {
+  handoff: string;
+  transcript: string;
+  code: string;
+  history: string;
+  // Earlier questions and answers, already formatted
+  conversation: string;
+  question: string;
+}
+
+// Follow-up questions from the engineer taking over, answered only from what the handoff was generated from
+export const getAskPrompt = (context: AskPromptContext) => `You are answering follow-up questions from the engineer taking over a piece of work, on behalf of the engineer who did it. Answer only from the handoff, transcript, code and commits below.
+
+Rules:
+- Cite every fact: transcript turns as [#n], code as [path:line] or [path:start-end] using the line numbers shown in the code listing.
+- If the materials do not answer the question, say so plainly and say where the next engineer could look; never guess.
+- Quote error messages, commands and identifiers exactly.
+- Be concise: a few sentences or a short list, with code only when it helps.
+
+## Handoff:
+${context.handoff}
+
+## Transcript:
+${context.transcript}
+
+## Code:
+${context.code}
+
+## Commits:
+${context.history}
+${context.conversation ? `
+## Conversation so far:
+${context.conversation}
+` : ''}
+## Question:
+${context.question}`;
+
+export interface RefinePromptContext {
+  // What to do with the section, already phrased as an instruction
+  action: string;
+  instructions: string;
+  document: string;
+  section: string;
+  transcript: string;
+  code: string;
+}
+
+// Rewrites one section of a handoff in place; the reply replaces the section verbatim
+export const getRefinePrompt = (context: RefinePromptContext) => `You are editing one section of an engineering handoff document. ${context.action}
+${context.instructions ? `
+Additional instructions from the editor: ${context.instructions}
+` : ''}
+Rules:
+- Reply with the rewritten section only, in Markdown, starting with its heading if it has one. No preamble, no explanation, no surrounding code fence.
+- Keep the section's heading level and list style so it fits back into the document.
+- Use only facts from the document, transcript and code below; never invent file names, commands or errors.
+- Keep turn citations like [#n] that are still accurate.
+
+## Transcript:
+${context.transcript}
+
+## Code:
+${context.code}
+
+## Whole document:
+${context.document}
+
+## Section to rewrite:
+${context.section}`;
@@ -0,0 +1,88 @@
+import { readSSE } from '../sse';
+import { CompletionRequest, CompletionResult, LLMProvider, upstreamError } from './types';
+
+interface AnthropicConfig {
+  baseUrl: string;
+  apiKey: string;
+  defaultModel: string;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Messages API: system prompts travel outside the message list and content comes back as blocks
+export const createAnthropicProvider = (config: AnthropicConfig): LLMProvider => {
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const messages = request.messages.filter(m => m.role !== 'system');
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        ...(system && { system }),
+        messages,
+        temperature: request.temperature,
+        ...(request.topP !== undefined && { top_p: request.topP }),
+        max_tokens: request.maxTokens,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Anthropic API Error:', response.status, errorText);
+      throw upstreamError(provider, response);
+    }
+
+    return response;
+  };
+
+  const provider: LLMProvider = {
+    name: 'anthropic',
+    label: 'Anthropic API',
+    defaultModel: config.defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const data = await (await post(request, false)).json();
+      const content = (data.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+      const promptTokens = data.usage?.input_tokens ?? 0;
+      const completionTokens = data.usage?.output_tokens ?? 0;
+
+      return {
+        content,
+        model: data.model || request.model,
+        usage: data.usage && {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    },
+
+    async *stream(request: CompletionRequest) {
+      const response = await post(request, true);
+      if (!response.body) return;
+
+      for await (const message of readSSE(response.body)) {
+        if (message.event === 'message_stop') break;
+        if (message.event !== 'content_block_delta') continue;
+        const delta = JSON.parse(message.data).delta;
+        if (delta?.type === 'text_delta' && delta.text) yield delta.text as string;
+      }
+    },
+  };
+
+  return provider;
+};
@@ -0,0 +1,151 @@
+import { ArtifactType } from '../types';
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider } from './openai';
+import { createResilientProvider, FallbackTarget, ResilienceOptions, ResilientProvider } from './resilience';
+import { CompletionOptions, CompletionUsage, LLMProvider, ProviderError, ProviderName } from './types';
+
+export * from './types';
+export type { ResilientProvider } from './resilience';
+
+export const PROVIDER_NAMES: ProviderName[] = ['nvidia', 'openai', 'anthropic', 'mock'];
+
+const NVIDIA_API_URL = 'https://integrate.api.nvidia.com/v1';
+const NVIDIA_MODEL_NAME = 'nvidia/llama-3.1-nemotron-nano-8b-v1';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com';
+const ANTHROPIC_MODEL_NAME = 'claude-3-5-haiku-latest';
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_SUMMARY_MAX_TOKENS = 512; // Shorter for summaries
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BACKOFF_BASE_MS = 500;
+const DEFAULT_BACKOFF_MAX_MS = 30000;
+const DEFAULT_CIRCUIT_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_COOLDOWN_MS = 30000;
+
+export const isProviderName = (name: string): name is ProviderName =>
+  (PROVIDER_NAMES as string[]).includes(name);
+
+const missingConfig = (name: ProviderName, variable: string) => {
+  console.error(`${variable} is not set in environment variables`);
+  const message = variable.endsWith('_API_KEY')
+    ? 'Server configuration error: API key not found'
+    : 'Server configuration error: provider not configured';
+  return new ProviderError(message, 500, name);
+};
+
+// Providers are configured entirely through environment variables; LLM_PROVIDER picks the default
+export const getProvider = (requested?: ProviderName): LLMProvider => {
+  const name = requested || process.env.LLM_PROVIDER || 'nvidia';
+  if (!isProviderName(name)) {
+    console.error(`LLM_PROVIDER must be one of: ${PROVIDER_NAMES.join(', ')}`);
+    throw new ProviderError('Server configuration error: unknown provider', 500);
+  }
+
+  switch (name) {
+    case 'nvidia': {
+      const apiKey = process.env.NVIDIA_API_KEY;
+      if (!apiKey) {
+        throw missingConfig(name, 'NVIDIA_API_KEY');
+      }
+      return createOpenAICompatibleProvider({
+        name,
+        label: 'NVIDIA API',
+        baseUrl: process.env.NVIDIA_API_URL || NVIDIA_API_URL,
+        apiKey,
+        defaultModel: process.env.NVIDIA_MODEL || NVIDIA_MODEL_NAME,
+      });
+    }
+
+    case 'openai': {
+      const baseUrl = process.env.OPENAI_BASE_URL;
+      if (!baseUrl) {
+        throw missingConfig(name, 'OPENAI_BASE_URL');
+      }
+      return createOpenAICompatibleProvider({
+        name,
+        label: 'OpenAI-compatible API',
+        baseUrl,
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        supportsJsonMode: true,
+      });
+    }
+
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw missingConfig(name, 'ANTHROPIC_API_KEY');
+      }
+      return createAnthropicProvider({
+        baseUrl: process.env.ANTHROPIC_BASE_URL || ANTHROPIC_API_URL,
+        apiKey,
+        defaultModel: process.env.ANTHROPIC_MODEL || ANTHROPIC_MODEL_NAME,
+      });
+    }
+
+    case 'mock':
+      return createMockProvider(process.env.MOCK_RESPONSE);
+  }
+};
+
+const envNumber = (variable: string) => {
+  const value = process.env[variable];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const resilienceOptions = (): ResilienceOptions => ({
+  timeoutMs: envNumber('LLM_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS,
+  maxRetries: Math.max(0, envNumber('LLM_MAX_RETRIES') ?? DEFAULT_MAX_RETRIES),
+  backoffBaseMs: envNumber('LLM_BACKOFF_BASE_MS') ?? DEFAULT_BACKOFF_BASE_MS,
+  backoffMaxMs: envNumber('LLM_BACKOFF_MAX_MS') ?? DEFAULT_BACKOFF_MAX_MS,
+  circuitThreshold: Math.max(1, envNumber('LLM_CIRCUIT_THRESHOLD') ?? DEFAULT_CIRCUIT_THRESHOLD),
+  circuitCooldownMs: envNumber('LLM_CIRCUIT_COOLDOWN_MS') ?? DEFAULT_CIRCUIT_COOLDOWN_MS,
+});
+
+// LLM_FALLBACKS: comma-separated "provider:model", "provider" or "model" (on the primary provider) entries, tried in order
+const fallbackTargets = (primary: LLMProvider): FallbackTarget[] =>
+  (process.env.LLM_FALLBACKS || '').split(',').map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const [name, ...model] = entry.split(':');
+    if (!isProviderName(name)) {
+      return [{ provider: primary, model: entry }];
+    }
+    try {
+      return [{ provider: getProvider(name), model: model.join(':') || undefined }];
+    } catch {
+      // Already logged by getProvider; a misconfigured fallback should not break the primary
+      return [];
+    }
+  });
+
+// One instance per request, so its attempts describe that request only
+export const getResilientProvider = (
+  requested?: ProviderName,
+  onUsage?: (usage: CompletionUsage) => void
+): ResilientProvider => {
+  const primary = getProvider(requested);
+  return createResilientProvider([{ provider: primary }, ...fallbackTargets(primary)], resilienceOptions(), onUsage);
+};
+
+// Precedence: request overrides > environment variables > built-in defaults
+export const resolveCompletionOptions = (
+  type: ArtifactType,
+  provider: LLMProvider,
+  overrides: Partial<CompletionOptions> = {}
+): CompletionOptions => {
+  const defaultMaxTokens = type === 'summary'
+    ? envNumber('LLM_SUMMARY_MAX_TOKENS') ?? DEFAULT_SUMMARY_MAX_TOKENS
+    : envNumber('LLM_MAX_TOKENS') ?? DEFAULT_MAX_TOKENS;
+
+  return {
+    model: overrides.model || provider.defaultModel,
+    temperature: overrides.temperature ?? envNumber('LLM_TEMPERATURE') ?? DEFAULT_TEMPERATURE,
+    maxTokens: overrides.maxTokens ?? defaultMaxTokens,
+    topP: overrides.topP ?? envNumber('LLM_TOP_P') ?? 1,
+  };
+};
@@ -0,0 +1,56 @@
+import { CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+// Small stable hash so identical prompts always produce identical output
+const fingerprint = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Deterministic, offline provider for tests and local UI work
+export const createMockProvider = (fixedResponse?: string): LLMProvider => {
+  const render = (request: CompletionRequest) => {
+    const prompt = request.messages.map(m => m.content).join('\n');
+    const content = fixedResponse ?? [
+      `# Mock handoff (${fingerprint(prompt)})`,
+      '',
+      `- model: ${request.model}`,
+      `- temperature: ${request.temperature}`,
+      `- max tokens: ${request.maxTokens}`,
+      `- prompt characters: ${prompt.length}`,
+    ].join('\n');
+    return { prompt, content };
+  };
+
+  return {
+    name: 'mock',
+    label: 'Mock provider',
+    defaultModel: 'mock-model',
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const { prompt, content } = render(request);
+      const promptTokens = Math.ceil(prompt.length / 4);
+      const completionTokens = Math.ceil(content.length / 4);
+
+      return {
+        content,
+        model: request.model,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    },
+
+    async *stream(request: CompletionRequest) {
+      // Word-sized chunks, like a real token stream
+      for (const chunk of render(request).content.match(/\S+\s*|\s+/g) || []) {
+        if (request.signal?.aborted) return;
+        yield chunk;
+      }
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import { readSSE } from '../sse';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderName, upstreamError } from './types';
+
+interface OpenAICompatibleConfig {
+  name: ProviderName;
+  label: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  // Server accepts response_format: { type: 'json_object' }
+  supportsJsonMode?: boolean;
+}
+
+// Works with any server exposing POST /chat/completions (NVIDIA NIM, OpenAI, vLLM, Ollama, LM Studio...)
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    // Local servers usually run without auth
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        top_p: request.topP ?? 1,
+        max_tokens: request.maxTokens,
+        ...(request.jsonMode && config.supportsJsonMode && { response_format: { type: 'json_object' } }),
+        stream
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${config.label} Error:`, response.status, errorText);
+      throw upstreamError(provider, response);
+    }
+
+    return response;
+  };
+
+  const provider: LLMProvider = {
+    name: config.name,
+    label: config.label,
+    defaultModel: config.defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const data = await (await post(request, false)).json();
+
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        model: data.model || request.model,
+        usage: data.usage && {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? 0,
+        },
+      };
+    },
+
+    async *stream(request: CompletionRequest) {
+      const response = await post(request, true);
+      if (!response.body) return;
+
+      for await (const message of readSSE(response.body)) {
+        if (message.data === '[DONE]') break;
+        const delta = JSON.parse(message.data).choices?.[0]?.delta?.content;
+        if (delta) yield delta as string;
+      }
+    },
+  };
+
+  return provider;
+};
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { getEventListeners } from 'node:events';
+import { after, before, describe, it } from 'node:test';
+import { createOpenAICompatibleProvider } from './openai';
+import { createResilientProvider, ResilienceOptions } from './resilience';
+import { ProviderError } from './types';
+
+// A local OpenAI-compatible stub: each model name maps to the replies it gives, in order
+const replies = new Map<string, { status: number; content?: string; headers?: Record<string, string> }[]>();
+const calls: string[] = [];
+
+const handle = (request: IncomingMessage, response: ServerResponse) => {
+  let raw = '';
+  request.on('data', chunk => { raw += chunk; });
+  request.on('end', () => {
+    const { model } = JSON.parse(raw);
+    calls.push(model);
+    const reply = replies.get(model)?.shift() ?? { status: 200, content: `from ${model}` };
+    response.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+    response.end(JSON.stringify(reply.status === 200
+      ? { model, choices: [{ message: { content: reply.content } }] }
+      : { error: 'stubbed failure' }));
+  });
+};
+
+const OPTIONS: ResilienceOptions = {
+  timeoutMs: 2000,
+  maxRetries: 2,
+  backoffBaseMs: 1,
+  backoffMaxMs: 50,
+  circuitThreshold: 3,
+  circuitCooldownMs: 60_000,
+};
+
+describe('createResilientProvider against a stub server', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const stubProvider = () => createOpenAICompatibleProvider({
+    name: 'openai',
+    label: 'Stub',
+    baseUrl,
+    defaultModel: 'stub-default',
+  });
+
+  const request = (model: string, signal?: AbortSignal) => ({
+    model,
+    messages: [{ role: 'user' as const, content: 'hello' }],
+    temperature: 0,
+    maxTokens: 16,
+    signal,
+  });
+
+  it('retries transient failures and then succeeds', async () => {
+    replies.set('retry-model', [{ status: 503 }, { status: 429 }]);
+    const provider = createResilientProvider([{ provider: stubProvider() }], OPTIONS);
+
+    const result = await provider.complete(request('retry-model'));
+
+    assert.equal(result.content, 'from retry-model');
+    assert.deepEqual(provider.attempts.map(attempt => attempt.outcome), ['error', 'error', 'ok']);
+    assert.deepEqual(provider.attempts.map(attempt => attempt.status), [503, 429, undefined]);
+  });
+
+  it('does not retry a bad request but still tries the fallback', async () => {
+    replies.set('bad-request-model', [{ status: 400 }]);
+    const provider = createResilientProvider(
+      [{ provider: stubProvider() }, { provider: stubProvider(), model: 'bad-request-fallback' }],
+      OPTIONS
+    );
+
+    const result = await provider.complete(request('bad-request-model'));
+
+    assert.equal(result.content, 'from bad-request-fallback');
+    assert.deepEqual(provider.attempts.map(attempt => [attempt.model, attempt.outcome]), [
+      ['bad-request-model', 'error'],
+      ['bad-request-fallback', 'ok'],
+    ]);
+  });
+
+  it('keeps a fallback to another model on the same provider when the primary circuit is open', async () => {
+    replies.set('broken-model', Array.from({ length: 10 }, () => ({ status: 500 })));
+    const targets = [{ provider: stubProvider() }, { provider: stubProvider(), model: 'healthy-model' }];
+
+    const first = createResilientProvider(targets, OPTIONS);
+    assert.equal((await first.complete(request('broken-model'))).content, 'from healthy-model');
+
+    // The primary has now failed circuitThreshold times in a row; only the fallback is called
+    calls.length = 0;
+    const second = createResilientProvider(targets, OPTIONS);
+    assert.equal((await second.complete(request('broken-model'))).content, 'from healthy-model');
+    assert.deepEqual(calls, ['healthy-model']);
+    assert.deepEqual(second.attempts.map(attempt => [attempt.model, attempt.outcome]), [
+      ['broken-model', 'circuit-open'],
+      ['healthy-model', 'ok'],
+    ]);
+  });
+
+  it('reports every attempt when all targets fail', async () => {
+    replies.set('down-model', Array.from({ length: 3 }, () => ({ status: 502 })));
+    const provider = createResilientProvider([{ provider: stubProvider() }], OPTIONS);
+
+    await assert.rejects(provider.complete(request('down-model')), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.equal(error.status, 502);
+      assert.equal(error.attempts?.length, 3);
+      return true;
+    });
+  });
+
+  it('moves on instead of waiting out a Retry-After longer than the backoff cap', async () => {
+    replies.set('slow-down-model', [{ status: 429, headers: { 'Retry-After': '120' } }]);
+    const provider = createResilientProvider(
+      [{ provider: stubProvider() }, { provider: stubProvider(), model: 'slow-down-fallback' }],
+      OPTIONS
+    );
+
+    const result = await provider.complete(request('slow-down-model'));
+
+    assert.equal(result.content, 'from slow-down-fallback');
+    assert.equal(provider.attempts[0].retryInMs, undefined);
+  });
+
+  it('leaves no abort listeners on the request signal after retries', async () => {
+    replies.set('listener-model', [{ status: 503 }, { status: 503 }]);
+    const controller = new AbortController();
+    const provider = createResilientProvider([{ provider: stubProvider() }], OPTIONS);
+
+    await provider.complete(request('listener-model', controller.signal));
+
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+  });
+});
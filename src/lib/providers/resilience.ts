@@ -0,0 +1,259 @@
+import { estimateTokens } from '../tokens';
+import { CompletionRequest, CompletionUsage, LLMProvider, ProviderError, UpstreamAttempt } from './types';
+
+export interface ResilienceOptions {
+  // Longest wait for an upstream response, or for the next chunk of a stream; 0 disables it
+  timeoutMs: number;
+  // Extra attempts per target after a transient failure
+  maxRetries: number;
+  backoffBaseMs: number;
+  // Longest single wait; a longer Retry-After moves on to the next target instead
+  backoffMaxMs: number;
+  // Consecutive transient failures that open a model's circuit
+  circuitThreshold: number;
+  circuitCooldownMs: number;
+}
+
+export interface FallbackTarget {
+  provider: LLMProvider;
+  // Defaults to the request's model for the first target and the provider's default model for fallbacks
+  model?: string;
+}
+
+export interface ResilientProvider extends LLMProvider {
+  // Every upstream call made through this instance, in order
+  attempts: UpstreamAttempt[];
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+// Keyed by provider and model, so a model that keeps failing does not block a fallback to another on the same provider.
+// Shared by all requests (and kept across dev-server module reloads) so one outage is not rediscovered per request
+const globalCircuits = globalThis as typeof globalThis & { __providerCircuits?: Map<string, CircuitState> };
+
+const circuits = () => {
+  if (!globalCircuits.__providerCircuits) {
+    globalCircuits.__providerCircuits = new Map();
+  }
+  return globalCircuits.__providerCircuits;
+};
+
+// Milliseconds until the circuit lets calls through, 0 when closed.
+// Once the cooldown passes a single call is let through as a probe.
+const circuitWait = (name: string, options: ResilienceOptions) => {
+  const state = circuits().get(name);
+  if (!state || state.failures < options.circuitThreshold) return 0;
+  if (state.openUntil > Date.now()) return state.openUntil - Date.now();
+  state.openUntil = Date.now() + options.circuitCooldownMs;
+  return 0;
+};
+
+const recordFailure = (name: string, options: ResilienceOptions) => {
+  const state = circuits().get(name) ?? { failures: 0, openUntil: 0 };
+  state.failures++;
+  if (state.failures >= options.circuitThreshold) {
+    state.openUntil = Date.now() + options.circuitCooldownMs;
+  }
+  circuits().set(name, state);
+};
+
+interface Deadline {
+  signal: AbortSignal;
+  reset(): void;
+  clear(): void;
+  timedOut(): boolean;
+}
+
+// Aborts when the caller aborts or when the upstream stays silent for too long
+const createDeadline = (parent: AbortSignal | undefined, timeoutMs: number): Deadline => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let expired = false;
+  const onAbort = () => controller.abort(parent?.reason);
+
+  const reset = () => {
+    clearTimeout(timer);
+    if (timeoutMs <= 0) return;
+    timer = setTimeout(() => {
+      expired = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+  reset();
+
+  return {
+    signal: controller.signal,
+    reset,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+    timedOut: () => expired,
+  };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  // Listeners would otherwise pile up on the request's signal across retries
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential with jitter, so clients that failed together do not retry together
+const backoff = (retry: number, options: ResilienceOptions) =>
+  Math.round(Math.min(options.backoffBaseMs * 2 ** retry, options.backoffMaxMs) * (0.5 + Math.random() / 2));
+
+const isTransient = (error: ProviderError) => error.status === 408 || error.status === 429 || error.status >= 500;
+
+const toProviderError = (error: unknown, provider: LLMProvider, timedOut: boolean) => {
+  if (timedOut) {
+    return new ProviderError(`${provider.label} timed out`, 504, provider.name);
+  }
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  console.error(`${provider.label} Error:`, error);
+  // fetch rejects with a TypeError when the connection fails; anything else is a reply we could not read
+  return error instanceof TypeError
+    ? new ProviderError(`${provider.label} is unreachable`, 502, provider.name)
+    : new ProviderError(`${provider.label} returned an invalid response`, 502, provider.name);
+};
+
+// Streams and some servers report no usage; estimate it from the text instead
+const estimateUsage = (request: CompletionRequest, content: string): CompletionUsage => {
+  const promptTokens = estimateTokens(request.messages.map(message => message.content).join('\n'));
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+// Retries transient failures with backoff, then walks an ordered list of fallback models and providers.
+// onUsage is called once per successful call, for quota accounting.
+export const createResilientProvider = (
+  targets: FallbackTarget[],
+  options: ResilienceOptions,
+  onUsage?: (usage: CompletionUsage) => void
+): ResilientProvider => {
+  const [primary] = targets;
+  const attempts: UpstreamAttempt[] = [];
+
+  const call = async <T>(
+    request: CompletionRequest,
+    start: (provider: LLMProvider, request: CompletionRequest, deadline: Deadline) => Promise<T>
+  ): Promise<T> => {
+    let lastError: ProviderError | undefined;
+
+    for (const [index, { provider, model: targetModel }] of targets.entries()) {
+      const model = index === 0 ? targetModel ?? request.model : targetModel ?? provider.defaultModel;
+      const circuit = `${provider.name}:${model}`;
+
+      for (let retry = 0; retry <= options.maxRetries; retry++) {
+        const circuitOpenFor = circuitWait(circuit, options);
+        if (circuitOpenFor) {
+          attempts.push({ provider: provider.name, model, outcome: 'circuit-open', durationMs: 0 });
+          lastError = new ProviderError(`${provider.label} (${model}) is temporarily unavailable`, 503, provider.name, circuitOpenFor);
+          break;
+        }
+
+        const started = Date.now();
+        const deadline = createDeadline(request.signal, options.timeoutMs);
+        try {
+          const result = await start(provider, { ...request, model, signal: deadline.signal }, deadline);
+          circuits().delete(circuit);
+          attempts.push({ provider: provider.name, model, outcome: 'ok', durationMs: Date.now() - started });
+          return result;
+        } catch (caught) {
+          deadline.clear();
+          if (request.signal?.aborted) throw caught;
+
+          const error = toProviderError(caught, provider, deadline.timedOut());
+          const attempt: UpstreamAttempt = {
+            provider: provider.name,
+            model,
+            outcome: deadline.timedOut() ? 'timeout' : 'error',
+            status: error.status,
+            error: error.message,
+            durationMs: Date.now() - started,
+          };
+          attempts.push(attempt);
+          lastError = error;
+
+          // Bad requests and auth failures will not improve on retry, but another target may still serve them
+          if (!isTransient(error)) break;
+          recordFailure(circuit, options);
+
+          const wait = error.retryAfterMs ?? backoff(retry, options);
+          if (retry === options.maxRetries || wait > options.backoffMaxMs) break;
+          attempt.retryInMs = wait;
+          await sleep(wait, request.signal);
+        }
+      }
+    }
+
+    const error = lastError ?? new ProviderError('No provider available', 503);
+    error.attempts = [...attempts];
+    throw error;
+  };
+
+  return {
+    name: primary.provider.name,
+    label: primary.provider.label,
+    defaultModel: primary.provider.defaultModel,
+    attempts,
+
+    async complete(request) {
+      const result = await call(request, async (provider, attemptRequest, deadline) => {
+        try {
+          return await provider.complete(attemptRequest);
+        } finally {
+          deadline.clear();
+        }
+      });
+      onUsage?.(result.usage ?? estimateUsage(request, result.content));
+      return result;
+    },
+
+    // Only the wait for the first chunk is retried; once text has reached the client a failure ends the stream
+    async *stream(request) {
+      const { provider, iterator, first, deadline } = await call(request, async (provider, attemptRequest, deadline) => {
+        const iterator = provider.stream(attemptRequest);
+        return { provider, iterator, first: await iterator.next(), deadline };
+      });
+
+      let content = '';
+      try {
+        let next = first;
+        while (!next.done) {
+          content += next.value;
+          yield next.value;
+          deadline.reset();
+          next = await iterator.next();
+        }
+      } catch (error) {
+        if (deadline.timedOut()) {
+          throw new ProviderError(`${provider.label} stopped responding`, 504, provider.name);
+        }
+        throw error;
+      } finally {
+        deadline.clear();
+        await iterator.return(undefined);
+        // Charged even when the client stops reading: the upstream has already produced the text
+        onUsage?.(estimateUsage(request, content));
+      }
+    },
+  };
+};
@@ -0,0 +1,93 @@
+export type ProviderName = 'nvidia' | 'openai' | 'anthropic' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+}
+
+export interface CompletionRequest extends CompletionOptions {
+  messages: ChatMessage[];
+  // Ask for a JSON object reply where the provider supports it; the prompt must still describe the shape
+  jsonMode?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  label: string;
+  defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields text deltas as the upstream model produces them
+  stream(request: CompletionRequest): AsyncGenerator<string>;
+}
+
+// One call to an upstream model, as reported in response metadata
+export interface UpstreamAttempt {
+  provider: ProviderName;
+  model: string;
+  outcome: 'ok' | 'error' | 'timeout' | 'circuit-open';
+  status?: number;
+  error?: string;
+  durationMs: number;
+  // Wait before the next attempt, from Retry-After or the backoff schedule
+  retryInMs?: number;
+}
+
+export class ProviderError extends Error {
+  status: number;
+  provider?: ProviderName;
+  // Parsed from the upstream Retry-After header
+  retryAfterMs?: number;
+  // Calls made before giving up, when the error comes from a resilient provider
+  attempts?: UpstreamAttempt[];
+
+  constructor(message: string, status: number, provider?: ProviderName, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Map an upstream HTTP failure onto the messages we show to users
+export const upstreamError = (provider: LLMProvider, response: Response) => {
+  const { status } = response;
+  let message = 'Failed to generate content';
+  if (status === 401) {
+    message = 'Invalid API key';
+  } else if (status === 429) {
+    message = 'Rate limit exceeded. Please try again later.';
+  } else if (status >= 500) {
+    message = `${provider.label} service unavailable`;
+  }
+  return new ProviderError(message, status, provider.name, parseRetryAfter(response.headers.get('retry-after')));
+};
@@ -0,0 +1,57 @@
+import { optionalString, requestJson, requireString } from './http';
+import { formatMarkdownHandoff, MARKDOWN_MARKERS, Publisher, PublishError, replaceSection } from './types';
+
+interface GitHubConfig {
+  apiUrl: string;
+  token: string;
+}
+
+// https://github.com/owner/repo/pull/123 (any host, for GitHub Enterprise) or owner/repo#123
+const TARGET_PATTERN = /^(?:https?:\/\/[^/\s]+\/)?([\w.-]+)\/([\w.-]+)(?:\/pull\/|#)(\d+)(?:[/?#]\S*)?$/;
+
+// Comments on a pull request, or writes the handoff into its description
+export const createGitHubPublisher = (config: GitHubConfig): Publisher => {
+  const apiUrl = config.apiUrl.replace(/\/+$/, '');
+  const headers = {
+    Authorization: `Bearer ${config.token}`,
+    Accept: 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+
+  const publisher: Publisher = {
+    name: 'github',
+    label: 'GitHub',
+    targetHint: 'https://github.com/owner/repo/pull/123 or owner/repo#123',
+
+    async publish(request) {
+      const match = request.target.trim().match(TARGET_PATTERN);
+      if (!match) {
+        throw new PublishError('GitHub target must be a pull request URL or owner/repo#123', 400, 'github');
+      }
+      const [, owner, repo, number] = match;
+      const repoUrl = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+      const target = `${owner}/${repo}#${number}`;
+      const content = formatMarkdownHandoff(request);
+
+      if (request.mode === 'comment') {
+        // Pull request conversation comments go through the issues API
+        const comment = await requestJson(publisher, `${repoUrl}/issues/${number}/comments`, target, {
+          method: 'POST',
+          headers,
+          body: { body: content },
+        });
+        return requireString(publisher, comment, 'html_url');
+      }
+
+      const pull = await requestJson(publisher, `${repoUrl}/pulls/${number}`, target, { headers });
+      const updated = await requestJson(publisher, `${repoUrl}/pulls/${number}`, target, {
+        method: 'PATCH',
+        headers,
+        body: { body: replaceSection(optionalString(pull, 'body') ?? '', content, MARKDOWN_MARKERS) },
+      });
+      return requireString(publisher, updated, 'html_url');
+    },
+  };
+
+  return publisher;
+};
@@ -0,0 +1,74 @@
+import { Publisher, PublishError, upstreamPublishError } from './types';
+
+const PUBLISH_TIMEOUT_MS = 15000;
+
+interface JsonRequest {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+type PublisherLabel = Pick<Publisher, 'name' | 'label'>;
+
+// One JSON call to a tracker's API; failures become PublishErrors with the upstream body logged, not returned.
+// The result is unknown, so callers read it through fieldOf and requireString.
+export const requestJson = async (
+  publisher: PublisherLabel,
+  url: string,
+  target: string,
+  { method = 'GET', headers = {}, body }: JsonRequest = {}
+): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...headers,
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    console.error(`${publisher.label} Error:`, error);
+    throw new PublishError(`Could not reach ${publisher.label}`, 502, publisher.name);
+  }
+
+  if (!response.ok) {
+    console.error(`${publisher.label} Error:`, response.status, await response.text().catch(() => ''));
+    throw upstreamPublishError(publisher, response.status, target);
+  }
+  // Jira answers updates with 204 No Content
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    // A proxy or maintenance page answering 200 with HTML
+    console.error(`${publisher.label} Error: invalid JSON response`, text.slice(0, 500));
+    throw new PublishError(`${publisher.label} returned an invalid response`, 502, publisher.name);
+  }
+};
+
+// A nested field of a response, or undefined where any step of the path is missing or not an object
+export const fieldOf = (value: unknown, ...keys: string[]): unknown =>
+  keys.reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+
+export const optionalString = (value: unknown, ...keys: string[]) => {
+  const found = fieldOf(value, ...keys);
+  return typeof found === 'string' ? found : undefined;
+};
+
+// A field publishing cannot go on without: a successful response missing it is the tracker's failure
+export const requireString = (publisher: PublisherLabel, value: unknown, ...keys: string[]) => {
+  const found = optionalString(value, ...keys);
+  if (!found) {
+    console.error(`${publisher.label} Error: response without ${keys.join('.')}`, JSON.stringify(value ?? null).slice(0, 500));
+    throw new PublishError(`${publisher.label} returned an unexpected response`, 502, publisher.name);
+  }
+  return found;
+};
@@ -0,0 +1,104 @@
+import { getHandoffStore, HandoffRecord } from '../store';
+import { createGitHubPublisher } from './github';
+import { createJiraPublisher } from './jira';
+import { createLinearPublisher } from './linear';
+import { Publication, Publisher, PublisherName, PublishError, PublishMode } from './types';
+
+export * from './types';
+
+export const PUBLISHER_NAMES: PublisherName[] = ['github', 'jira', 'linear'];
+export const PUBLISH_MODES: PublishMode[] = ['comment', 'description'];
+
+const GITHUB_API_URL = 'https://api.github.com';
+const LINEAR_API_URL = 'https://api.linear.app/graphql';
+
+export const isPublisherName = (name: string): name is PublisherName =>
+  (PUBLISHER_NAMES as string[]).includes(name);
+
+// Publishers are configured entirely through environment variables; one without its token is unavailable
+export const getPublisher = (name: PublisherName): Publisher | null => {
+  switch (name) {
+    case 'github': {
+      const token = process.env.GITHUB_TOKEN;
+      return token
+        ? createGitHubPublisher({ apiUrl: process.env.GITHUB_API_URL || GITHUB_API_URL, token })
+        : null;
+    }
+
+    case 'jira': {
+      const baseUrl = process.env.JIRA_BASE_URL;
+      const token = process.env.JIRA_API_TOKEN;
+      return baseUrl && token
+        ? createJiraPublisher({ baseUrl, token, email: process.env.JIRA_EMAIL || undefined })
+        : null;
+    }
+
+    case 'linear': {
+      const apiKey = process.env.LINEAR_API_KEY;
+      return apiKey
+        ? createLinearPublisher({ apiUrl: process.env.LINEAR_API_URL || LINEAR_API_URL, apiKey })
+        : null;
+    }
+  }
+};
+
+export const getConfiguredPublishers = () =>
+  PUBLISHER_NAMES.map(getPublisher).filter((publisher): publisher is Publisher => publisher !== null);
+
+export interface PublishHandoffRequest {
+  publisher: PublisherName;
+  target: string;
+  mode?: PublishMode;
+}
+
+// Shape checks on a request body; returns the message for a 400, or null
+export const validatePublishRequest = (body: PublishHandoffRequest) => {
+  if (typeof body.publisher !== 'string' || !isPublisherName(body.publisher)) {
+    return `publisher must be one of: ${PUBLISHER_NAMES.join(', ')}`;
+  }
+  if (typeof body.target !== 'string' || !body.target.trim() || body.target.length > 500) {
+    return 'target must be a PR or issue reference of at most 500 characters';
+  }
+  if (body.mode !== undefined && !PUBLISH_MODES.includes(body.mode)) {
+    return `mode must be one of: ${PUBLISH_MODES.join(', ')}`;
+  }
+  return null;
+};
+
+const TITLES: Record<HandoffRecord['type'], string> = {
+  summary: 'Summary',
+  cursor: 'Cursor Context',
+  readme: 'README',
+  update: 'Updated Handoff',
+};
+
+// Publish a stored handoff and record where it went on the handoff itself
+export const publishHandoff = async (
+  record: HandoffRecord,
+  { publisher: name, target, mode = 'comment' }: PublishHandoffRequest,
+  handoffUrl: string
+): Promise<Publication> => {
+  const publisher = getPublisher(name);
+  if (!publisher) {
+    throw new PublishError(`Publishing to ${name} is not configured on this server`, 501, name);
+  }
+
+  const url = await publisher.publish({
+    target,
+    mode,
+    title: record.title || TITLES[record.type],
+    body: record.output,
+    handoffUrl,
+  });
+  const publication: Publication = { publisher: name, mode, target: target.trim(), url, publishedAt: new Date().toISOString() };
+
+  try {
+    // Re-read so publications made in the meantime are kept
+    const latest = await getHandoffStore().get(record.id) ?? record;
+    await getHandoffStore().save({ ...latest, publications: [...(latest.publications ?? []), publication] });
+  } catch (error) {
+    // The handoff is already published; losing the record of it should not report a failure
+    console.error('Failed to record publication:', error);
+  }
+  return publication;
+};
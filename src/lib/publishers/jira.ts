@@ -0,0 +1,92 @@
+import { optionalString, requestJson, requireString } from './http';
+import { Publisher, PublishError, PublishRequest, replaceSection, SectionMarkers } from './types';
+
+interface JiraConfig {
+  baseUrl: string;
+  token: string;
+  // Jira Cloud authenticates with email and API token; without an email the token is sent as a Server/Data Center PAT
+  email?: string;
+}
+
+// PROJ-123, or an issue URL such as https://acme.atlassian.net/browse/PROJ-123
+const TARGET_PATTERN = /^(?:https?:\/\/\S+?\/browse\/)?([A-Z][A-Z0-9_]*-\d+)(?:[/?#]\S*)?$/;
+
+// Anchors render as nothing, so they can mark the handoff section in a description
+const JIRA_MARKERS: SectionMarkers = { start: '{anchor:handoff-start}', end: '{anchor:handoff-end}' };
+
+const inlineMarkup = (line: string) =>
+  line
+    .replace(/`([^`]+)`/g, '{{$1}}')
+    .replace(/\*\*([^*]+)\*\*/g, '*$1*')
+    .replace(/~~([^~]+)~~/g, '-$1-')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '[$1|$2]');
+
+// The API v2 endpoints take wiki markup: convert the markdown constructs handoffs use
+export const toJiraMarkup = (markdown: string) => {
+  let inCode = false;
+  return markdown.split('\n').map(line => {
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      inCode = !inCode;
+      return inCode ? (fence[2] ? `{code:${fence[2]}}` : '{code}') : '{code}';
+    }
+    if (inCode) return line;
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) return `h${heading[1].length}. ${inlineMarkup(heading[2])}`;
+    const item = line.match(/^(\s*)([-*+]|\d+\.)\s+(.*)$/);
+    if (item) {
+      const depth = Math.floor(item[1].length / 2) + 1;
+      return `${(/\d/.test(item[2]) ? '#' : '*').repeat(depth)} ${inlineMarkup(item[3])}`;
+    }
+    if (/^\s*(---+|\*\*\*+)\s*$/.test(line)) return '----';
+    return inlineMarkup(line);
+  }).join('\n');
+};
+
+const formatJiraHandoff = ({ title, body, handoffUrl }: PublishRequest) =>
+  `h2. 🤝 Handoff: ${title}\n\n${toJiraMarkup(body.trim())}\n\n----\n[Open the full handoff on Handoff.ai|${handoffUrl}]`;
+
+// Comments on an issue, or writes the handoff into its description
+export const createJiraPublisher = (config: JiraConfig): Publisher => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const headers = {
+    Authorization: config.email
+      ? `Basic ${Buffer.from(`${config.email}:${config.token}`).toString('base64')}`
+      : `Bearer ${config.token}`,
+  };
+
+  const publisher: Publisher = {
+    name: 'jira',
+    label: 'Jira',
+    targetHint: 'PROJ-123 or https://your-site.atlassian.net/browse/PROJ-123',
+
+    async publish(request) {
+      const key = request.target.trim().match(TARGET_PATTERN)?.[1];
+      if (!key) {
+        throw new PublishError('Jira target must be an issue key such as PROJ-123, or an issue URL', 400, 'jira');
+      }
+      const issueUrl = `${baseUrl}/rest/api/2/issue/${key}`;
+      const content = formatJiraHandoff(request);
+
+      if (request.mode === 'comment') {
+        const comment = await requestJson(publisher, `${issueUrl}/comment`, key, {
+          method: 'POST',
+          headers,
+          body: { body: content },
+        });
+        return `${baseUrl}/browse/${key}?focusedCommentId=${requireString(publisher, comment, 'id')}`;
+      }
+
+      const issue = await requestJson(publisher, `${issueUrl}?fields=description`, key, { headers });
+      await requestJson(publisher, issueUrl, key, {
+        method: 'PUT',
+        headers,
+        body: { fields: { description: replaceSection(optionalString(issue, 'fields', 'description') ?? '', content, JIRA_MARKERS) } },
+      });
+      return `${baseUrl}/browse/${key}`;
+    },
+  };
+
+  return publisher;
+};
@@ -0,0 +1,98 @@
+import { fieldOf, optionalString, requestJson, requireString } from './http';
+import { formatMarkdownHandoff, MARKDOWN_MARKERS, Publisher, PublishError, replaceSection } from './types';
+
+interface LinearConfig {
+  apiUrl: string;
+  apiKey: string;
+}
+
+// ENG-123, or an issue URL such as https://linear.app/acme/issue/ENG-123/fix-upload-retries
+const TARGET_PATTERN = /^(?:https?:\/\/\S+?\/issue\/)?([A-Za-z][A-Za-z0-9]*-\d+)(?:[/?#]\S*)?$/;
+
+const ISSUE_QUERY = `query Issue($id: String!) {
+  issue(id: $id) { id url description }
+}`;
+
+const COMMENT_MUTATION = `mutation CommentCreate($input: CommentCreateInput!) {
+  commentCreate(input: $input) { success comment { url } }
+}`;
+
+const UPDATE_MUTATION = `mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+  issueUpdate(id: $id, input: $input) { success issue { url } }
+}`;
+
+// Comments on an issue, or writes the handoff into its description
+export const createLinearPublisher = (config: LinearConfig): Publisher => {
+  // Personal API keys are sent as they are; OAuth tokens need the Bearer scheme
+  const headers = {
+    Authorization: config.apiKey.startsWith('lin_api_') ? config.apiKey : `Bearer ${config.apiKey}`,
+  };
+
+  // GraphQL reports failures in the body with HTTP 200
+  const graphql = async (query: string, variables: Record<string, unknown>, target: string) => {
+    const result = await requestJson(publisher, config.apiUrl, target, { method: 'POST', headers, body: { query, variables } });
+    const errors = fieldOf(result, 'errors');
+    if (Array.isArray(errors) && errors.length) {
+      console.error('Linear Error:', JSON.stringify(errors));
+      const notFound = errors.some(error => /not found/i.test(optionalString(error, 'message') ?? ''));
+      throw new PublishError(
+        notFound ? `${target} was not found on Linear, or the API key cannot see it` : 'Linear rejected the request',
+        notFound ? 404 : 502,
+        'linear'
+      );
+    }
+    const data = fieldOf(result, 'data');
+    if (data === null || typeof data !== 'object') {
+      console.error('Linear Error: response without data', JSON.stringify(result ?? null).slice(0, 500));
+      throw new PublishError('Linear returned an unexpected response', 502, 'linear');
+    }
+    return data;
+  };
+
+  // Mutations can also fail with success: false and no errors, leaving the created or updated object null
+  const requireSuccess = (payload: unknown) => {
+    if (fieldOf(payload, 'success') !== true) {
+      console.error('Linear Error: mutation was not successful', JSON.stringify(payload ?? null));
+      throw new PublishError('Linear rejected the request', 502, 'linear');
+    }
+  };
+
+  const publisher: Publisher = {
+    name: 'linear',
+    label: 'Linear',
+    targetHint: 'ENG-123 or https://linear.app/team/issue/ENG-123',
+
+    async publish(request) {
+      const identifier = request.target.trim().match(TARGET_PATTERN)?.[1]?.toUpperCase();
+      if (!identifier) {
+        throw new PublishError('Linear target must be an issue identifier such as ENG-123, or an issue URL', 400, 'linear');
+      }
+      const content = formatMarkdownHandoff(request);
+
+      // Mutations take the issue's UUID, which the identifier resolves to
+      const issue = fieldOf(await graphql(ISSUE_QUERY, { id: identifier }, identifier), 'issue');
+      if (!issue) {
+        throw new PublishError(`${identifier} was not found on Linear, or the API key cannot see it`, 404, 'linear');
+      }
+      const issueId = requireString(publisher, issue, 'id');
+
+      if (request.mode === 'comment') {
+        const commentCreate = fieldOf(
+          await graphql(COMMENT_MUTATION, { input: { issueId, body: content } }, identifier),
+          'commentCreate'
+        );
+        requireSuccess(commentCreate);
+        return requireString(publisher, commentCreate, 'comment', 'url');
+      }
+
+      const issueUpdate = fieldOf(await graphql(UPDATE_MUTATION, {
+        id: issueId,
+        input: { description: replaceSection(optionalString(issue, 'description') ?? '', content, MARKDOWN_MARKERS) },
+      }, identifier), 'issueUpdate');
+      requireSuccess(issueUpdate);
+      return requireString(publisher, issueUpdate, 'issue', 'url');
+    },
+  };
+
+  return publisher;
+};
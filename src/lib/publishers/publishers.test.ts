@@ -0,0 +1,218 @@
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo, Socket } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { createGitHubPublisher } from './github';
+import { createJiraPublisher } from './jira';
+import { createLinearPublisher } from './linear';
+import { PublishError, PublishRequest } from './types';
+
+// A local stub for all three trackers: each "METHOD path" maps to the replies it gives, in order
+interface StubReply {
+  status: number;
+  // Sent as JSON unless it is a string
+  body?: unknown;
+}
+
+// The parts of the request bodies the tests look at
+interface StubCallBody {
+  body?: string;
+  fields?: { description: string };
+  variables?: { id?: string; input?: { issueId?: string } };
+}
+
+interface StubCall {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: StubCallBody;
+}
+
+const replies = new Map<string, StubReply[]>();
+const calls: StubCall[] = [];
+
+const handle = (request: IncomingMessage, response: ServerResponse) => {
+  let raw = '';
+  request.on('data', chunk => { raw += chunk; });
+  request.on('end', () => {
+    const key = `${request.method} ${request.url}`;
+    calls.push({ method: request.method!, path: request.url!, headers: request.headers, body: raw ? JSON.parse(raw) : {} });
+    const reply = replies.get(key)?.shift() ?? { status: 404, body: { message: `no stub for ${key}` } };
+    const text = reply.body === undefined ? '' : typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body);
+    response.writeHead(reply.status, { 'Content-Type': typeof reply.body === 'string' ? 'text/html' : 'application/json' });
+    response.end(text);
+  });
+};
+
+const stub = (key: string, ...stubbed: StubReply[]) => replies.set(key, stubbed);
+
+const request = (target: string, mode: PublishRequest['mode'] = 'comment'): PublishRequest => ({
+  target,
+  mode,
+  title: 'Upload retries',
+  body: '## Status\n\nRetries are **done**.',
+  handoffUrl: 'http://localhost/h/abc',
+});
+
+const rejectsWith = (promise: Promise<unknown>, status: number, message: RegExp) =>
+  assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof PublishError);
+    assert.equal(error.status, status);
+    assert.match(error.message, message);
+    return true;
+  });
+
+describe('publishers against a stub server', () => {
+  let server: Server;
+  let baseUrl: string;
+  const sockets = new Set<Socket>();
+
+  before(async () => {
+    server = createServer(handle);
+    server.on('connection', socket => {
+      sockets.add(socket);
+      socket.on('close', () => sockets.delete(socket));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  // fetch keeps connections alive, which would hold close() open
+  after(() => new Promise<void>(resolve => {
+    for (const socket of sockets) socket.destroy();
+    server.close(() => resolve());
+  }));
+
+  beforeEach(() => {
+    replies.clear();
+    calls.length = 0;
+  });
+
+  describe('GitHub', () => {
+    const github = () => createGitHubPublisher({ apiUrl: `${baseUrl}/`, token: 'ghp_test' });
+
+    it('comments on a pull request through the issues API', async () => {
+      stub('POST /repos/acme/app/issues/7/comments', { status: 201, body: { html_url: 'https://github.com/acme/app/pull/7#c1' } });
+
+      const url = await github().publish(request('https://github.com/acme/app/pull/7'));
+
+      assert.equal(url, 'https://github.com/acme/app/pull/7#c1');
+      assert.equal(calls[0].headers.authorization, 'Bearer ghp_test');
+      assert.match(calls[0].body.body!, /^## 🤝 Handoff: Upload retries/);
+    });
+
+    it('replaces the section an earlier publish wrote into the description', async () => {
+      stub('GET /repos/acme/app/pulls/7', {
+        status: 200,
+        body: { body: 'Intro\n\n<!-- handoff:start -->\nold\n<!-- handoff:end -->\n\nOutro' },
+      });
+      stub('PATCH /repos/acme/app/pulls/7', { status: 200, body: { html_url: 'https://github.com/acme/app/pull/7' } });
+
+      await github().publish(request('acme/app#7', 'description'));
+
+      const description = calls[1].body.body!;
+      assert.ok(description.startsWith('Intro\n\n<!-- handoff:start -->\n## 🤝 Handoff'));
+      assert.ok(description.endsWith('<!-- handoff:end -->\n\nOutro'));
+      assert.ok(!description.includes('old'));
+    });
+
+    it('maps upstream statuses onto publish errors', async () => {
+      stub('POST /repos/acme/app/issues/7/comments', { status: 401 }, { status: 404 }, { status: 429 });
+
+      await rejectsWith(github().publish(request('acme/app#7')), 502, /rejected the configured token/);
+      await rejectsWith(github().publish(request('acme/app#7')), 404, /acme\/app#7 was not found/);
+      await rejectsWith(github().publish(request('acme/app#7')), 429, /rate limit/);
+    });
+
+    it('reports a 200 with a non-JSON body as a bad gateway', async () => {
+      stub('POST /repos/acme/app/issues/7/comments', { status: 200, body: '<html>Maintenance</html>' });
+
+      await rejectsWith(github().publish(request('acme/app#7')), 502, /GitHub returned an invalid response/);
+    });
+
+    it('reports an empty or unexpected success response as a bad gateway', async () => {
+      stub('POST /repos/acme/app/issues/7/comments', { status: 201 }, { status: 201, body: { html_url: 42 } });
+
+      await rejectsWith(github().publish(request('acme/app#7')), 502, /GitHub returned an unexpected response/);
+      await rejectsWith(github().publish(request('acme/app#7')), 502, /GitHub returned an unexpected response/);
+    });
+
+    it('rejects a target it cannot parse without calling the API', async () => {
+      await rejectsWith(github().publish(request('not a pull request')), 400, /pull request URL/);
+      assert.equal(calls.length, 0);
+    });
+  });
+
+  describe('Jira', () => {
+    it('comments with wiki markup and links to the comment', async () => {
+      stub('POST /rest/api/2/issue/PROJ-12/comment', { status: 201, body: { id: '10001' } });
+      const jira = createJiraPublisher({ baseUrl, token: 'secret', email: 'dev@example.com' });
+
+      const url = await jira.publish(request('PROJ-12'));
+
+      assert.equal(url, `${baseUrl}/browse/PROJ-12?focusedCommentId=10001`);
+      assert.equal(calls[0].headers.authorization, `Basic ${Buffer.from('dev@example.com:secret').toString('base64')}`);
+      assert.match(calls[0].body.body!, /h2\. Status/);
+      assert.match(calls[0].body.body!, /\*done\*/);
+    });
+
+    it('accepts the empty 204 an update answers with', async () => {
+      stub('GET /rest/api/2/issue/PROJ-12?fields=description', { status: 200, body: { fields: { description: null } } });
+      stub('PUT /rest/api/2/issue/PROJ-12', { status: 204 });
+      const jira = createJiraPublisher({ baseUrl, token: 'pat' });
+
+      const url = await jira.publish(request(`${baseUrl}/browse/PROJ-12`, 'description'));
+
+      assert.equal(url, `${baseUrl}/browse/PROJ-12`);
+      assert.equal(calls.at(-1)!.headers.authorization, 'Bearer pat');
+      assert.match(calls.at(-1)!.body.fields!.description, /^\{anchor:handoff-start\}/);
+    });
+
+    it('reports a comment created without an id as a bad gateway', async () => {
+      stub('POST /rest/api/2/issue/PROJ-12/comment', { status: 201 });
+      const jira = createJiraPublisher({ baseUrl, token: 'pat' });
+
+      await rejectsWith(jira.publish(request('PROJ-12')), 502, /Jira returned an unexpected response/);
+    });
+  });
+
+  describe('Linear', () => {
+    const linear = () => createLinearPublisher({ apiUrl: `${baseUrl}/graphql`, apiKey: 'lin_api_test' });
+    const ISSUE = { status: 200, body: { data: { issue: { id: 'uuid-1', url: 'https://linear.app/acme/issue/ENG-5', description: '' } } } };
+
+    it('resolves the identifier and comments on the issue', async () => {
+      stub('POST /graphql', ISSUE, {
+        status: 200,
+        body: { data: { commentCreate: { success: true, comment: { url: 'https://linear.app/acme/issue/ENG-5#comment-1' } } } },
+      });
+
+      const url = await linear().publish(request('https://linear.app/acme/issue/eng-5/upload-retries'));
+
+      assert.equal(url, 'https://linear.app/acme/issue/ENG-5#comment-1');
+      assert.equal(calls[0].headers.authorization, 'lin_api_test');
+      assert.deepEqual(calls[0].body.variables, { id: 'ENG-5' });
+      assert.equal(calls[1].body.variables?.input?.issueId, 'uuid-1');
+    });
+
+    it('reports GraphQL errors sent with HTTP 200', async () => {
+      stub('POST /graphql', { status: 200, body: { errors: [{ message: 'Entity not found: Issue' }] } });
+
+      await rejectsWith(linear().publish(request('ENG-5')), 404, /ENG-5 was not found on Linear/);
+    });
+
+    it('reports an empty body or a response without data as a bad gateway', async () => {
+      stub('POST /graphql', { status: 200 }, { status: 200, body: { data: null } });
+
+      await rejectsWith(linear().publish(request('ENG-5')), 502, /Linear returned an unexpected response/);
+      await rejectsWith(linear().publish(request('ENG-5')), 502, /Linear returned an unexpected response/);
+    });
+
+    it('reports a mutation that was not successful as a bad gateway', async () => {
+      stub('POST /graphql', ISSUE, { status: 200, body: { data: { commentCreate: { success: false, comment: null } } } });
+      await rejectsWith(linear().publish(request('ENG-5')), 502, /Linear rejected the request/);
+
+      stub('POST /graphql', ISSUE, { status: 200, body: { data: { issueUpdate: { success: false, issue: null } } } });
+      await rejectsWith(linear().publish(request('ENG-5', 'description')), 502, /Linear rejected the request/);
+    });
+  });
+});
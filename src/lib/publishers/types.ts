@@ -0,0 +1,83 @@
+export type PublisherName = 'github' | 'jira' | 'linear';
+
+// 'comment' adds a comment to the PR or issue; 'description' writes the handoff into its description,
+// replacing the section an earlier publish wrote there
+export type PublishMode = 'comment' | 'description';
+
+export interface PublishRequest {
+  // GitHub: a pull request URL or owner/repo#123; Jira: an issue key or URL; Linear: an issue identifier or URL
+  target: string;
+  mode: PublishMode;
+  title: string;
+  // Markdown; adapters convert it where the tracker needs another markup
+  body: string;
+  // Share link of the stored handoff, linked from what is published
+  handoffUrl: string;
+}
+
+export interface Publisher {
+  name: PublisherName;
+  label: string;
+  // Placeholder shown for the target field
+  targetHint: string;
+  // Returns the URL of the published comment or of the updated PR or issue
+  publish(request: PublishRequest): Promise<string>;
+}
+
+// What the handoff record keeps about each publish
+export interface Publication {
+  publisher: PublisherName;
+  mode: PublishMode;
+  target: string;
+  url: string;
+  publishedAt: string;
+}
+
+export class PublishError extends Error {
+  status: number;
+  publisher?: PublisherName;
+
+  constructor(message: string, status: number, publisher?: PublisherName) {
+    super(message);
+    this.name = 'PublishError';
+    this.status = status;
+    this.publisher = publisher;
+  }
+}
+
+// Map an upstream HTTP failure onto the messages we show to users
+export const upstreamPublishError = (publisher: Pick<Publisher, 'name' | 'label'>, status: number, target: string) => {
+  if (status === 401 || status === 403) {
+    return new PublishError(`${publisher.label} rejected the configured token`, 502, publisher.name);
+  }
+  if (status === 404) {
+    return new PublishError(`${target} was not found on ${publisher.label}, or the token cannot see it`, 404, publisher.name);
+  }
+  if (status === 429) {
+    return new PublishError(`${publisher.label} rate limit exceeded. Please try again later.`, 429, publisher.name);
+  }
+  return new PublishError(`${publisher.label} request failed with HTTP ${status}`, 502, publisher.name);
+};
+
+// The handoff as a markdown section: a heading, the output and a link back to the stored handoff
+export const formatMarkdownHandoff = ({ title, body, handoffUrl }: PublishRequest) =>
+  `## 🤝 Handoff: ${title}\n\n${body.trim()}\n\n---\n[Open the full handoff on Handoff.ai](${handoffUrl})`;
+
+export interface SectionMarkers {
+  start: string;
+  end: string;
+}
+
+// Invisible in rendered markdown
+export const MARKDOWN_MARKERS: SectionMarkers = { start: '<!-- handoff:start -->', end: '<!-- handoff:end -->' };
+
+// Wrap the handoff in markers so publishing again replaces it instead of appending another copy
+export const replaceSection = (description: string, section: string, markers: SectionMarkers) => {
+  const marked = `${markers.start}\n${section}\n${markers.end}`;
+  const start = description.indexOf(markers.start);
+  const end = description.indexOf(markers.end, start);
+  if (start !== -1 && end !== -1) {
+    return description.slice(0, start) + marked + description.slice(end + markers.end.length);
+  }
+  return description.trim() ? `${description.trimEnd()}\n\n${marked}` : marked;
+};
@@ -0,0 +1,318 @@
+import { Worker } from 'worker_threads';
+import { GitHistory } from './git-history';
+import { Transcript } from './transcript';
+import { CodeFile } from './types';
+
+// Masks secrets and personal data in transcripts, code and history before any of it reaches a provider
+
+export interface RedactionFinding {
+  // What the value was replaced with, e.g. [REDACTED:email#1]; the same value always gets the same placeholder
+  placeholder: string;
+  rule: string;
+  // Enough of the original to recognise it, never the whole value
+  preview: string;
+  occurrences: number;
+  // 'transcript', a code file path, or 'history:<path>'
+  locations: string[];
+}
+
+export interface RedactionReport {
+  total: number;
+  findings: RedactionFinding[];
+}
+
+export class RedactionPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedactionPatternError';
+  }
+}
+
+interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  // Capture group holding the sensitive part; the whole match otherwise
+  group?: number;
+  // Rejects matches that only look sensitive
+  accept?: (value: string) => boolean;
+}
+
+const MAX_CUSTOM_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_FINDINGS = 200;
+// Per-request patterns run in a worker that is stopped after this long, and may match this many distinct values
+const PATTERN_TIMEOUT_MS = 2000;
+const MAX_PATTERN_VALUES = 1000;
+
+// Random-looking tokens: long, several digits among the letters, and close to uniformly distributed
+const HIGH_ENTROPY_MIN_LENGTH = 24;
+const HIGH_ENTROPY_MIN_BITS = 4.2;
+
+const shannonEntropy = (value: string) => {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+};
+
+const isPlaceholder = (value: string) => value.startsWith('[REDACTED');
+
+// Documentation addresses and git remotes are not personal data
+const isRealEmail = (value: string) =>
+  !/^git@/i.test(value) && !/@(example\.(com|org|net)|users\.noreply\.github\.com)$/i.test(value);
+
+const isRealAddress = (value: string) => !['0.0.0.0', '127.0.0.1', '255.255.255.255'].includes(value);
+
+// `this.internal` and friends are property accesses, not hosts
+const isHostName = (value: string) => !/^(this|self|window|document|process|module|exports|config|options|props|state)\./i.test(value);
+
+// Assignments to secret-looking keys, unless the value is an env lookup, a function call or a plain identifier
+const isSecretValue = (value: string) =>
+  !isPlaceholder(value) && !/[()]/.test(value) && !/^(process\.env|os\.environ|env\.|\$)/.test(value) &&
+  !(/^[A-Za-z_][\w.]*$/.test(value) && !/\d/.test(value));
+
+const looksRandom = (value: string) =>
+  (value.match(/\d/g) || []).length >= 2 && /[A-Za-z]/.test(value) && !/^[0-9a-f-]+$/i.test(value) &&
+  shannonEntropy(value) >= HIGH_ENTROPY_MIN_BITS;
+
+// Slashes occur in base64, but a path only counts if one of its segments is random on its own
+const isHighEntropy = (value: string) => value.includes('/')
+  ? value.split('/').some(segment => segment.length >= HIGH_ENTROPY_MIN_LENGTH && looksRandom(segment))
+  : looksRandom(value);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Most specific first, so a known key format wins over the generic rules
+const BUILT_IN_RULES: RedactionRule[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { name: 'stripe-key', pattern: /\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { name: 'anthropic-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'nvidia-key', pattern: /\bnvapi-[A-Za-z0-9_-]{20,}/g },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: 'url-credentials', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:([^\s@/]+)@/gi, group: 1, accept: value => !isPlaceholder(value) },
+  {
+    name: 'secret-assignment',
+    pattern: /[\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[\w.-]*["']?\s*[:=]\s*["']?([^\s"'`,;]{8,})/gi,
+    group: 1,
+    accept: isSecretValue,
+  },
+  { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, accept: isRealEmail },
+  { name: 'ip-address', pattern: /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?![\w.])/g, accept: isRealAddress },
+  { name: 'internal-host', pattern: /\b(?:[a-z0-9-]+\.)+(?:internal|corp|intranet|localdomain)\b/gi, accept: isHostName },
+  { name: 'high-entropy', pattern: new RegExp(`[A-Za-z0-9+/_=-]{${HIGH_ENTROPY_MIN_LENGTH},}`, 'g'), accept: isHighEntropy },
+];
+
+// Comma-separated domains whose hosts are always masked, e.g. "acme.net,acme-staging.io"
+const internalDomainRule = (): RedactionRule | null => {
+  const domains = (process.env.REDACT_INTERNAL_DOMAINS || '').split(',').map(domain => domain.trim()).filter(Boolean);
+  if (!domains.length) return null;
+  return {
+    name: 'internal-host',
+    pattern: new RegExp(`\\b(?:[a-z0-9-]+\\.)*(?:${domains.map(escapeRegExp).join('|')})\\b`, 'gi'),
+  };
+};
+
+// Server-wide patterns: a JSON array of regular expression sources
+const envPatterns = (): string[] => {
+  const raw = process.env.REDACT_PATTERNS;
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+  } catch {
+    console.error('REDACT_PATTERNS must be a JSON array of regular expressions');
+    return [];
+  }
+};
+
+export const compileCustomPatterns = (patterns: string[]): RedactionRule[] => {
+  if (patterns.length > MAX_CUSTOM_PATTERNS) {
+    throw new RedactionPatternError(`At most ${MAX_CUSTOM_PATTERNS} redaction patterns are allowed`);
+  }
+  return patterns.map(source => {
+    if (!source || source.length > MAX_PATTERN_LENGTH) {
+      throw new RedactionPatternError(`Redaction patterns must be 1–${MAX_PATTERN_LENGTH} characters`);
+    }
+    try {
+      return { name: 'custom', pattern: new RegExp(source, 'g') };
+    } catch {
+      throw new RedactionPatternError(`Invalid redaction pattern: ${source}`);
+    }
+  });
+};
+
+export const isRedactionEnabled = () => process.env.REDACTION !== 'off';
+
+// Runs in a worker thread: the distinct values the patterns match in the texts
+const MATCHER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const values = new Set();
+for (const source of workerData.patterns) {
+  const pattern = new RegExp(source, 'g');
+  for (const text of workerData.texts) {
+    for (const match of text.matchAll(pattern)) {
+      if (match[0]) values.add(match[0]);
+    }
+    if (values.size > workerData.maxValues) break;
+  }
+}
+parentPort.postMessage([...values]);
+`;
+
+// Per-request patterns come from whoever calls the API, and one like (a+)+$ can backtrack for minutes. They run in a
+// worker with a hard timeout, so the server thread never executes them; what they matched is masked as literals.
+export const matchCustomPatterns = (patterns: string[], texts: string[]): Promise<string[]> => {
+  compileCustomPatterns(patterns);
+  if (!patterns.length) return Promise.resolve([]);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(MATCHER_SOURCE, {
+      eval: true,
+      workerData: { patterns, texts, maxValues: MAX_PATTERN_VALUES },
+    });
+    const timer = setTimeout(() => {
+      void worker.terminate();
+      reject(new RedactionPatternError(`Redaction patterns took longer than ${PATTERN_TIMEOUT_MS} ms; simplify them`));
+    }, PATTERN_TIMEOUT_MS);
+    const settle = () => {
+      clearTimeout(timer);
+      void worker.terminate();
+    };
+
+    worker.once('message', (values: string[]) => {
+      settle();
+      if (values.length > MAX_PATTERN_VALUES) {
+        reject(new RedactionPatternError(`Redaction patterns matched more than ${MAX_PATTERN_VALUES} distinct values; make them more specific`));
+      } else {
+        resolve(values);
+      }
+    });
+    worker.once('error', error => {
+      settle();
+      reject(error);
+    });
+  });
+};
+
+// Every string the redactor will see, for matching per-request patterns ahead of time
+export const redactableTexts = (
+  transcript: Transcript,
+  files: CodeFile[],
+  history?: GitHistory,
+  previous?: string
+): string[] => [
+  ...(transcript.title ? [transcript.title] : []),
+  ...transcript.turns.flatMap(turn => [turn.text, ...turn.codeBlocks.map(block => block.code)]),
+  ...files.map(file => file.content),
+  ...(history?.commits.flatMap(commit => [
+    commit.author ?? '',
+    commit.subject,
+    commit.message,
+    ...commit.files.flatMap(file => file.hunks.flatMap(hunk => hunk.lines)),
+  ]) ?? []),
+  ...(previous ? [previous] : []),
+];
+
+const previewOf = (value: string) => {
+  const shown = value.slice(0, Math.min(4, Math.floor(value.length / 4)));
+  return `${shown}… (${value.length} chars)`;
+};
+
+// One redactor per request, so a value masked in the transcript gets the same placeholder in the code.
+// customValues are what the request's own patterns matched (see matchCustomPatterns).
+export const createRedactor = (customValues: string[] = []) => {
+  const internalDomains = internalDomainRule();
+  const rules = [
+    ...compileCustomPatterns(envPatterns()),
+    ...(customValues.length ? [{
+      name: 'custom',
+      // Longest first, so a value is not masked piecemeal by one it contains
+      pattern: new RegExp([...customValues].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'), 'g'),
+    }] : []),
+    ...BUILT_IN_RULES,
+    ...(internalDomains ? [internalDomains] : []),
+  ];
+  const findings = new Map<string, RedactionFinding>();
+  const counters = new Map<string, number>();
+
+  const placeholderFor = (value: string, rule: string, location: string) => {
+    let finding = findings.get(value);
+    if (!finding) {
+      const count = (counters.get(rule) ?? 0) + 1;
+      counters.set(rule, count);
+      finding = { placeholder: `[REDACTED:${rule}#${count}]`, rule, preview: previewOf(value), occurrences: 0, locations: [] };
+      findings.set(value, finding);
+    }
+    finding.occurrences++;
+    if (!finding.locations.includes(location)) finding.locations.push(location);
+    return finding.placeholder;
+  };
+
+  const redact = (text: string, location: string) => {
+    let result = text;
+    for (const { name, pattern, group, accept } of rules) {
+      pattern.lastIndex = 0;
+      result = result.replace(pattern, (match: string, ...groups: unknown[]) => {
+        const value = group ? groups[group - 1] : match;
+        if (typeof value !== 'string' || !value || isPlaceholder(value) || (accept && !accept(value))) {
+          return match;
+        }
+        const at = match.lastIndexOf(value);
+        return match.slice(0, at) + placeholderFor(value, name, location) + match.slice(at + value.length);
+      });
+    }
+    return result;
+  };
+
+  const report = (): RedactionReport => {
+    const all = [...findings.values()];
+    return {
+      total: all.reduce((total, finding) => total + finding.occurrences, 0),
+      findings: all.slice(0, MAX_FINDINGS),
+    };
+  };
+
+  return { redact, report };
+};
+
+export type Redactor = ReturnType<typeof createRedactor>;
+
+export const redactTranscript = (redactor: Redactor, transcript: Transcript): Transcript => ({
+  ...transcript,
+  ...(transcript.title && { title: redactor.redact(transcript.title, 'transcript') }),
+  turns: transcript.turns.map(turn => ({
+    ...turn,
+    text: redactor.redact(turn.text, 'transcript'),
+    codeBlocks: turn.codeBlocks.map(block => ({ ...block, code: redactor.redact(block.code, 'transcript') })),
+  })),
+});
+
+export const redactCodeFiles = (redactor: Redactor, files: CodeFile[]): CodeFile[] =>
+  files.map(file => ({ ...file, content: redactor.redact(file.content, file.path) }));
+
+// Diff lines are redacted one at a time so hunks keep their shape
+export const redactHistory = (redactor: Redactor, history: GitHistory): GitHistory => ({
+  ...history,
+  commits: history.commits.map(commit => ({
+    ...commit,
+    ...(commit.author && { author: redactor.redact(commit.author, 'history') }),
+    subject: redactor.redact(commit.subject, 'history'),
+    message: redactor.redact(commit.message, 'history'),
+    files: commit.files.map(file => ({
+      ...file,
+      hunks: file.hunks.map(hunk => ({
+        ...hunk,
+        lines: hunk.lines.map(line => redactor.redact(line, `history:${file.path}`)),
+      })),
+    })),
+  })),
+});
@@ -0,0 +1,132 @@
+import { assembleCode } from './code-files';
+import { getRefinePrompt } from './prompts';
+import { CompletionUsage, getResilientProvider, resolveCompletionOptions } from './providers';
+import { HandoffSources } from './store';
+import { estimateTokens, getTokenBudget, InputTooLargeError } from './tokens';
+import { formatTranscript } from './transcript';
+import { ARTIFACT_TYPES, ArtifactType, REFINE_ACTIONS, RefineAction, RefineRequest, RefineResponse } from './types';
+
+// Rewrites one section of a generated document on request (expand, shorten, add a code snippet, fix), with the
+// rest of the document and, for stored handoffs, the kept transcript and code as context.
+
+const MAX_DOCUMENT_CHARS = 200_000;
+const MAX_INSTRUCTIONS_CHARS = 1000;
+
+const ACTION_INSTRUCTIONS: Record<RefineAction, string> = {
+  'expand': 'Expand the section: add the detail, steps and context the next engineer would need, from the sources.',
+  'shorten': 'Shorten the section to its essentials, keeping every file name, command, error message and unresolved issue.',
+  'add-code': 'Add a short code snippet from the code below that illustrates the section, fenced with its language and preceded by its file path.',
+  'fix': 'Fix the section: correct anything the sources contradict, and unclear wording or broken Markdown.',
+};
+
+const NO_TRANSCRIPT = 'No transcript was provided; rely on the document.';
+const NO_CODE = 'No code was provided.';
+
+// Shape checks on a request body; returns the message for a 400, or null
+export const validateRefineRequest = (body: RefineRequest) => {
+  if (typeof body.document !== 'string' || !body.document.trim()) {
+    return 'document is required';
+  }
+  if (body.document.length > MAX_DOCUMENT_CHARS) {
+    return `document must be at most ${MAX_DOCUMENT_CHARS} characters`;
+  }
+  if (typeof body.section !== 'string' || !body.section.trim()) {
+    return 'section is required';
+  }
+  if (!body.document.includes(body.section)) {
+    return 'section must be an exact excerpt of document';
+  }
+  if (!REFINE_ACTIONS.includes(body.action)) {
+    return `action must be one of: ${REFINE_ACTIONS.join(', ')}`;
+  }
+  if (body.instructions !== undefined &&
+    (typeof body.instructions !== 'string' || body.instructions.length > MAX_INSTRUCTIONS_CHARS)) {
+    return `instructions must be a string of at most ${MAX_INSTRUCTIONS_CHARS} characters`;
+  }
+  if (body.type !== undefined && !ARTIFACT_TYPES.includes(body.type)) {
+    return `type must be one of: ${ARTIFACT_TYPES.join(', ')}`;
+  }
+  if (body.handoffId !== undefined && typeof body.handoffId !== 'string') {
+    return 'handoffId must be a string';
+  }
+  return null;
+};
+
+// Files the section mentions by path or name first, then the rest in their original order
+const rankFiles = (sources: HandoffSources, section: string) => {
+  const mentions = (path: string) => section.includes(path) || section.includes(path.split('/').pop()!);
+  return [...sources.files.filter(file => mentions(file.path)), ...sources.files.filter(file => !mentions(file.path))];
+};
+
+const buildRefinePrompt = (request: RefineRequest, sources: HandoffSources | null, promptBudget: number) => {
+  const render = (transcript: string, code: string) => getRefinePrompt({
+    action: ACTION_INSTRUCTIONS[request.action],
+    instructions: request.instructions?.trim() ?? '',
+    document: request.document,
+    section: request.section,
+    transcript,
+    code,
+  });
+
+  const files = sources ? rankFiles(sources, request.section) : [];
+  const transcript = sources ? formatTranscript(sources.transcript) : NO_TRANSCRIPT;
+  const code = files.length ? assembleCode(files) : NO_CODE;
+
+  // Everything, then without the transcript, then with as many of the most relevant files as fit
+  for (const [transcriptText, codeText] of [[transcript, code], [NO_TRANSCRIPT, code]]) {
+    const prompt = render(transcriptText, codeText);
+    if (estimateTokens(prompt) <= promptBudget) return prompt;
+  }
+  const scaffold = render(NO_TRANSCRIPT, NO_CODE);
+  if (estimateTokens(scaffold) > promptBudget) {
+    const tokens = estimateTokens(scaffold);
+    throw new InputTooLargeError(
+      `The document alone is ~${tokens} tokens, more than the ${promptBudget} available for the prompt. Raise LLM_CONTEXT_TOKENS.`,
+      tokens,
+      promptBudget
+    );
+  }
+  let fitting = 0;
+  while (fitting < files.length &&
+    estimateTokens(render(NO_TRANSCRIPT, assembleCode(files.slice(0, fitting + 1)))) <= promptBudget) {
+    fitting++;
+  }
+  return render(NO_TRANSCRIPT, fitting ? assembleCode(files.slice(0, fitting)) : NO_CODE);
+};
+
+// Models often fence the whole reply despite being asked not to
+const unwrapReply = (reply: string) => {
+  const fenced = reply.trim().match(/^```(?:markdown|md)?\n([\s\S]*)\n```$/);
+  return (fenced ? fenced[1] : reply).trim();
+};
+
+export interface RefineContext {
+  signal?: AbortSignal;
+  // Called for every upstream call, for quota accounting
+  onUsage?: (usage: CompletionUsage) => void;
+}
+
+export const refineSection = async (
+  request: RefineRequest,
+  sources: HandoffSources | null,
+  context: RefineContext = {}
+): Promise<RefineResponse> => {
+  const type: ArtifactType = request.type ?? 'readme';
+  const provider = getResilientProvider(undefined, context.onUsage);
+  const options = resolveCompletionOptions(type, provider);
+  const prompt = buildRefinePrompt(request, sources, getTokenBudget().contextTokens - options.maxTokens);
+
+  const result = await provider.complete({
+    ...options,
+    messages: [{ role: 'user', content: prompt }],
+    signal: context.signal,
+  });
+  const served = provider.attempts.findLast(attempt => attempt.outcome === 'ok');
+
+  return {
+    section: unwrapReply(result.content),
+    provider: served?.provider ?? provider.name,
+    model: result.model,
+    attempts: [...provider.attempts],
+  };
+};
@@ -0,0 +1,52 @@
+export interface SSEMessage {
+  event?: string;
+  data: string;
+}
+
+// Serialize one server-sent event; data is JSON-encoded so newlines survive the wire format
+export const encodeSSE = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// Incrementally parse a text/event-stream body. Used for upstream providers and by the CLI.
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): SSEMessage | null => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    return data.length ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const message = parseBlock(block);
+        if (message) yield message;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const message = parseBlock(buffer + decoder.decode());
+    if (message) yield message;
+  } finally {
+    // A consumer that stops early (client gone, [DONE]) must not leave the upstream streaming
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { createFileStore } from './file';
+import { HandoffRecord } from './types';
+
+const record = (id: string, createdAt: string, markdownHash = 'm1'): HandoffRecord => ({
+  id,
+  type: 'summary',
+  provider: 'mock',
+  model: 'mock',
+  output: `output of ${id}`,
+  createdAt,
+  inputs: { markdownHash, codeHash: 'c1', codeFiles: [] },
+});
+
+describe('createFileStore', () => {
+  const directories: string[] = [];
+
+  after(async () => {
+    await Promise.all(directories.map(directory => fs.rm(directory, { recursive: true, force: true })));
+  });
+
+  const createDirectory = async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'handoffs-'));
+    directories.push(directory);
+    return directory;
+  };
+
+  it('lists the other generations of the same inputs, newest first', async () => {
+    const store = createFileStore(await createDirectory());
+    const first = record('first', '2025-06-10T10:00:00Z');
+    await store.save(first);
+    await store.save(record('second', '2025-06-10T11:00:00Z'));
+    await store.save(record('third', '2025-06-10T12:00:00Z'));
+    await store.save(record('other', '2025-06-10T13:00:00Z', 'm2'));
+
+    const { handoffs, total } = await store.list({ generationsOf: first });
+
+    assert.equal(total, 2);
+    assert.deepEqual(handoffs.map(handoff => handoff.id), ['third', 'second']);
+  });
+
+  it('indexes records stored before the index existed the first time it is used', async () => {
+    const directory = await createDirectory();
+    // Written the way older versions stored handoffs: a record file and nothing else
+    const first = record('first', '2025-06-10T10:00:00Z');
+    await fs.writeFile(path.join(directory, 'first.json'), JSON.stringify(first));
+    await fs.writeFile(path.join(directory, 'second.json'), JSON.stringify(record('second', '2025-06-10T11:00:00Z')));
+
+    const store = createFileStore(directory);
+    await store.save(record('third', '2025-06-10T12:00:00Z'));
+
+    const { handoffs } = await store.list({ generationsOf: first });
+    assert.deepEqual(handoffs.map(handoff => handoff.id), ['third', 'second']);
+  });
+});
@@ -0,0 +1,116 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { generationKey, HandoffRecord, HandoffSources, HandoffStore, isGenerationOf, ListOptions, toSummary } from './types';
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// One JSON file per handoff, and kept sources under sources/; fine for a single instance with a persistent disk.
+// generations/<key>/ holds an empty file per handoff generated from the same inputs (see generationKey), so the
+// generations of a handoff are found without reading every record.
+export const createFileStore = (directory: string): HandoffStore => {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+  const sourcesFileFor = (id: string) => path.join(directory, 'sources', `${id}.json`);
+  const generationsDirectory = path.join(directory, 'generations');
+  const generationsDirFor = (record: HandoffRecord) => path.join(generationsDirectory, generationKey(record));
+  // Written once the records stored before the index existed have been added to it
+  const indexedMarker = path.join(generationsDirectory, '.indexed');
+
+  // Write then rename so readers never see a half-written file
+  const writeJson = async (file: string, value: unknown) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Sources are content-addressed, so two generations can write the same file at once: give each its own temp file
+    const temporary = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(value, null, 2));
+    await fs.rename(temporary, file);
+  };
+
+  const readJson = async <T>(file: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const readAll = async () => {
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(async name => JSON.parse(await fs.readFile(path.join(directory, name), 'utf8')) as HandoffRecord)
+    );
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  };
+
+  const indexGeneration = async (record: HandoffRecord) => {
+    await fs.mkdir(generationsDirFor(record), { recursive: true });
+    await fs.writeFile(path.join(generationsDirFor(record), record.id), '');
+  };
+
+  // Adds older records to the index the first time it is used; saves meanwhile index themselves
+  let indexed: Promise<void> | null = null;
+  const ensureIndexed = () => {
+    indexed ??= (async () => {
+      if (await readJson(indexedMarker) !== null) return;
+      for (const record of await readAll()) await indexGeneration(record);
+      await writeJson(indexedMarker, { indexedAt: new Date().toISOString() });
+    })().catch(error => {
+      indexed = null;
+      throw error;
+    });
+    return indexed;
+  };
+
+  const readGenerations = async (of: HandoffRecord) => {
+    await ensureIndexed();
+    let ids: string[];
+    try {
+      ids = await fs.readdir(generationsDirFor(of));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const records = await Promise.all(ids.filter(id => ID_PATTERN.test(id)).map(id => readJson<HandoffRecord>(fileFor(id))));
+    return records
+      .filter((record): record is HandoffRecord => record !== null && isGenerationOf(record, of))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  };
+
+  return {
+    async save(record) {
+      await writeJson(fileFor(record.id), record);
+      await indexGeneration(record);
+    },
+
+    async get(id) {
+      if (!ID_PATTERN.test(id)) return null;
+      return readJson<HandoffRecord>(fileFor(id));
+    },
+
+    async list({ limit = 20, offset = 0, generationsOf }: ListOptions = {}) {
+      const records = generationsOf ? await readGenerations(generationsOf) : await readAll();
+      return {
+        handoffs: records.slice(offset, offset + limit).map(toSummary),
+        total: records.length,
+      };
+    },
+
+    async saveSources(id, sources) {
+      await writeJson(sourcesFileFor(id), sources);
+    },
+
+    async getSources(id) {
+      if (!ID_PATTERN.test(id)) return null;
+      return readJson<HandoffSources>(sourcesFileFor(id));
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import { createFileStore } from './file';
+import { createMemoryStore } from './memory';
+import { HandoffRecord, HandoffStore } from './types';
+
+export * from './types';
+
+const DEFAULT_STORE_DIR = '.data/handoffs';
+
+// Kept on globalThis so the memory store survives dev-server module reloads
+const globalStore = globalThis as typeof globalThis & { __handoffStore?: HandoffStore };
+
+// HANDOFF_STORE picks the backend: "file" (default, under HANDOFF_STORE_DIR) or "memory"
+export const getHandoffStore = (): HandoffStore => {
+  if (!globalStore.__handoffStore) {
+    globalStore.__handoffStore = process.env.HANDOFF_STORE === 'memory'
+      ? createMemoryStore()
+      : createFileStore(path.resolve(process.env.HANDOFF_STORE_DIR || DEFAULT_STORE_DIR));
+  }
+  return globalStore.__handoffStore;
+};
+
+// Only outputs and input hashes are stored unless HANDOFF_SOURCES=on, which keeps the redacted inputs for
+// follow-up questions
+export const isKeepingSources = () => process.env.HANDOFF_SOURCES === 'on';
+
+// Short, URL-safe and unguessable: share links are the only access control
+export const createHandoffId = () => randomBytes(9).toString('base64url');
+
+export const hashContent = (content: string) => createHash('sha256').update(content).digest('hex');
+
+// Edits are stored as a new handoff, so share links and publications of the original keep showing what was
+// generated. The copy has the same inputs and sources, so it counts as another generation of them.
+export const createEditedHandoff = (record: HandoffRecord, output: string): HandoffRecord => ({
+  ...record,
+  id: createHandoffId(),
+  output,
+  // Structured fields and publications describe the original output
+  structured: undefined,
+  publications: undefined,
+  editedFrom: record.id,
+  createdAt: new Date().toISOString(),
+});
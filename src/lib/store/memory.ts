@@ -0,0 +1,42 @@
+import { generationKey, HandoffRecord, HandoffSources, HandoffStore, isGenerationOf, ListOptions, toSummary } from './types';
+
+// Process-local store for tests and ephemeral deployments
+export const createMemoryStore = (): HandoffStore => {
+  const records = new Map<string, HandoffRecord>();
+  const sources = new Map<string, HandoffSources>();
+  // Ids of the records generated from each set of inputs
+  const generations = new Map<string, Set<string>>();
+
+  return {
+    async save(record) {
+      records.set(record.id, record);
+      const key = generationKey(record);
+      generations.set(key, (generations.get(key) ?? new Set<string>()).add(record.id));
+    },
+
+    async get(id) {
+      return records.get(id) ?? null;
+    },
+
+    async list({ limit = 20, offset = 0, generationsOf }: ListOptions = {}) {
+      const candidates = generationsOf
+        ? Array.from(generations.get(generationKey(generationsOf)) ?? [], id => records.get(id)!)
+        : Array.from(records.values());
+      const sorted = candidates
+        .filter(record => !generationsOf || isGenerationOf(record, generationsOf))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return {
+        handoffs: sorted.slice(offset, offset + limit).map(toSummary),
+        total: sorted.length,
+      };
+    },
+
+    async saveSources(id, kept) {
+      sources.set(id, kept);
+    },
+
+    async getSources(id) {
+      return sources.get(id) ?? null;
+    },
+  };
+};
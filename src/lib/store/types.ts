@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { GitHistory } from '../git-history';
+import { Publication } from '../publishers/types';
+import { StructuredHandoff } from '../structured-handoff';
+import { Transcript } from '../transcript';
+import { ArtifactType, CodeFile } from '../types';
+
+export interface HandoffInputs {
+  // sha256 of each input as sent to the prompt builder. The inputs themselves are only kept, redacted, with
+  // HANDOFF_SOURCES=on (see sourcesId)
+  markdownHash: string;
+  codeHash: string;
+  historyHash?: string;
+  previousHash?: string;
+  codeFiles: string[];
+}
+
+export interface HandoffRecord {
+  id: string;
+  type: ArtifactType;
+  provider: string;
+  model: string;
+  output: string;
+  // Set for structured cursor contexts; output holds the rendered markdown
+  structured?: StructuredHandoff;
+  title?: string;
+  // Prompt template version the output was generated with
+  templateVersion?: string;
+  // The stored handoff an update revises, so chains of handoffs can be followed back
+  previousId?: string;
+  // Kept sources the output was generated from, for follow-up questions; shared by the artifacts of a package
+  sourcesId?: string;
+  // The stored handoff this one is an edited copy of (see createEditedHandoff)
+  editedFrom?: string;
+  // Where the handoff was published, oldest first
+  publications?: Publication[];
+  createdAt: string;
+  inputs: HandoffInputs;
+}
+
+// The parsed and redacted inputs exactly as the model saw them (not the raw upload)
+export interface HandoffSources {
+  transcript: Transcript;
+  files: CodeFile[];
+  history?: GitHistory;
+  previous?: string;
+}
+
+// What list views need, without the (potentially long) output
+export type HandoffSummary = Omit<HandoffRecord, 'output' | 'inputs'> & { preview: string };
+
+export interface ListOptions {
+  limit?: number;
+  offset?: number;
+  // Only other generations of this handoff: the same artifact type generated from the same inputs
+  generationsOf?: HandoffRecord;
+}
+
+export interface HandoffStore {
+  save(record: HandoffRecord): Promise<void>;
+  get(id: string): Promise<HandoffRecord | null>;
+  // Newest first
+  list(options?: ListOptions): Promise<{ handoffs: HandoffSummary[]; total: number }>;
+  saveSources(id: string, sources: HandoffSources): Promise<void>;
+  getSources(id: string): Promise<HandoffSources | null>;
+}
+
+// Regenerating a handoff (cache: 'bypass', or a different model or template) stores a new record from identical inputs
+export const isGenerationOf = (record: HandoffRecord, other: HandoffRecord) =>
+  record.id !== other.id &&
+  record.type === other.type &&
+  record.inputs.markdownHash === other.inputs.markdownHash &&
+  record.inputs.codeHash === other.inputs.codeHash &&
+  record.inputs.historyHash === other.inputs.historyHash &&
+  record.inputs.previousHash === other.inputs.previousHash;
+
+// The inputs isGenerationOf compares, as one key, so stores can index generations instead of scanning every record
+export const generationKey = ({ type, inputs }: HandoffRecord) =>
+  createHash('sha256')
+    .update(JSON.stringify([type, inputs.markdownHash, inputs.codeHash, inputs.historyHash, inputs.previousHash]))
+    .digest('hex');
+
+export const toSummary = (record: HandoffRecord): HandoffSummary => ({
+  id: record.id,
+  type: record.type,
+  provider: record.provider,
+  model: record.model,
+  ...(record.title && { title: record.title }),
+  createdAt: record.createdAt,
+  preview: record.output.replace(/\s+/g, ' ').trim().slice(0, 200),
+});
@@ -0,0 +1,258 @@
+import { CompletionRequest, LLMProvider } from './providers';
+
+// Typed form of the cursor context's eight sections, for tooling that consumes TODOs and open issues
+
+export type Priority = 'low' | 'medium' | 'high';
+
+export interface TimelineEvent {
+  when: string;
+  event: string;
+  // Turn number ("#12") or commit hash the event comes from
+  ref?: string;
+}
+
+export interface CodeChange {
+  description: string;
+  files?: string[];
+  prompt?: string;
+}
+
+export interface StructuredHandoff {
+  featureName: string;
+  timeline: TimelineEvent[];
+  goals: string[];
+  codingHistory: {
+    changes: CodeChange[];
+    decisions: string[];
+    replacedApproaches: string[];
+    errors: string[];
+  };
+  issues: {
+    resolved: { description: string; resolution?: string }[];
+    unresolved: { description: string; severity?: Priority }[];
+  };
+  todos: { description: string; priority?: Priority; files?: string[] }[];
+  dependencies: { name: string; purpose?: string }[];
+  preferences: string[];
+}
+
+export class StructuredOutputError extends Error {
+  errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+  }
+}
+
+// Extra requests after the first reply, each showing the model its own output and what was wrong with it
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const SCHEMA_DESCRIPTION = `{
+  "featureName": string,
+  "timeline": [{ "when": string, "event": string, "ref"?: string /* "#12" or a commit hash */ }],
+  "goals": string[],
+  "codingHistory": {
+    "changes": [{ "description": string, "files"?: string[], "prompt"?: string }],
+    "decisions": string[],
+    "replacedApproaches": string[],
+    "errors": string[]
+  },
+  "issues": {
+    "resolved": [{ "description": string, "resolution"?: string }],
+    "unresolved": [{ "description": string, "severity"?: "low" | "medium" | "high" }]
+  },
+  "todos": [{ "description": string, "priority"?: "low" | "medium" | "high", "files"?: string[] }],
+  "dependencies": [{ "name": string, "purpose"?: string }],
+  "preferences": string[]
+}`;
+
+const STRUCTURED_INSTRUCTIONS = `---
+
+Ignore any earlier instructions about the output format. Respond with a single JSON object, and nothing else, matching this schema (fields marked ? are optional; use empty arrays rather than omitting lists):
+
+${SCHEMA_DESCRIPTION}`;
+
+const PRIORITIES: Priority[] = ['low', 'medium', 'high'];
+
+// Minimal structural validation; returns one message per problem, with a JSON path
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string: Check = (value, path, errors) => {
+  if (typeof value !== 'string' || !value.trim()) errors.push(`${path} must be a non-empty string`);
+};
+
+const optional = (check: Check): Check => (value, path, errors) => {
+  if (value !== undefined && value !== null) check(value, path, errors);
+};
+
+const oneOf = (options: string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !options.includes(value)) errors.push(`${path} must be one of: ${options.join(', ')}`);
+};
+
+const arrayOf = (check: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  value.forEach((item, index) => check(item, `${path}[${index}]`, errors));
+};
+
+const objectOf = (fields: Record<string, Check>): Check => (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  for (const [key, check] of Object.entries(fields)) {
+    check(value[key], `${path}.${key}`, errors);
+  }
+};
+
+const checkHandoff = objectOf({
+  featureName: string,
+  timeline: arrayOf(objectOf({ when: string, event: string, ref: optional(string) })),
+  goals: arrayOf(string),
+  codingHistory: objectOf({
+    changes: arrayOf(objectOf({ description: string, files: optional(arrayOf(string)), prompt: optional(string) })),
+    decisions: arrayOf(string),
+    replacedApproaches: arrayOf(string),
+    errors: arrayOf(string),
+  }),
+  issues: objectOf({
+    resolved: arrayOf(objectOf({ description: string, resolution: optional(string) })),
+    unresolved: arrayOf(objectOf({ description: string, severity: optional(oneOf(PRIORITIES)) })),
+  }),
+  todos: arrayOf(objectOf({ description: string, priority: optional(oneOf(PRIORITIES)), files: optional(arrayOf(string)) })),
+  dependencies: arrayOf(objectOf({ name: string, purpose: optional(string) })),
+  preferences: arrayOf(string),
+});
+
+// Fill in lists the model left out, so only real mistakes cost a repair request
+const withDefaults = (value: unknown): unknown => {
+  if (!isObject(value)) return value;
+  const history = isObject(value.codingHistory) ? value.codingHistory : {};
+  const issues = isObject(value.issues) ? value.issues : {};
+  return {
+    ...value,
+    timeline: value.timeline ?? [],
+    goals: value.goals ?? [],
+    codingHistory: value.codingHistory === undefined || isObject(value.codingHistory) ? {
+      ...history,
+      changes: history.changes ?? [],
+      decisions: history.decisions ?? [],
+      replacedApproaches: history.replacedApproaches ?? [],
+      errors: history.errors ?? [],
+    } : value.codingHistory,
+    issues: value.issues === undefined || isObject(value.issues) ? {
+      ...issues,
+      resolved: issues.resolved ?? [],
+      unresolved: issues.unresolved ?? [],
+    } : value.issues,
+    todos: value.todos ?? [],
+    dependencies: value.dependencies ?? [],
+    preferences: value.preferences ?? [],
+  };
+};
+
+export const handoffErrors = (value: unknown) => {
+  const errors: string[] = [];
+  checkHandoff(value, '$', errors);
+  return errors;
+};
+
+// Models wrap JSON in fences or add a sentence around it; take the outermost object
+export const extractJson = (text: string): unknown => {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```\s*$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('No JSON object found in the reply');
+  }
+  return JSON.parse(unfenced.slice(start, end + 1));
+};
+
+const list = (items: string[]) => items.length ? items.map(item => `- ${item}`).join('\n') : '- None recorded';
+
+const withFiles = (text: string, files?: string[]) => files?.length ? `${text} (${files.map(file => `\`${file}\``).join(', ')})` : text;
+
+// Markdown view in the same eight sections the cursor prompt asks for, so exports and copy/paste keep working
+export const renderHandoffMarkdown = (handoff: StructuredHandoff) => [
+  '## 1. Feature Name',
+  handoff.featureName,
+  '## 2. Development Timeline',
+  list(handoff.timeline.map(item => `**${item.when}** – ${item.event}${item.ref ? ` [${item.ref}]` : ''}`)),
+  '## 3. Original Goals',
+  list(handoff.goals),
+  '## 4. Coding History',
+  '### Key code changes',
+  list(handoff.codingHistory.changes.map(change =>
+    withFiles(change.description, change.files) + (change.prompt ? `\n  - Prompt: ${change.prompt}` : '')
+  )),
+  '### Implementation decisions',
+  list(handoff.codingHistory.decisions),
+  '### Deleted or replaced approaches',
+  list(handoff.codingHistory.replacedApproaches),
+  '### Bugs and error messages',
+  list(handoff.codingHistory.errors),
+  '## 5. Resolved vs Unresolved Issues',
+  '### Resolved',
+  list(handoff.issues.resolved.map(issue => issue.resolution ? `${issue.description} – ${issue.resolution}` : issue.description)),
+  '### Unresolved',
+  list(handoff.issues.unresolved.map(issue => issue.severity ? `[${issue.severity}] ${issue.description}` : issue.description)),
+  '## 6. Remaining TODOs',
+  handoff.todos.length
+    ? handoff.todos.map(todo => `- [ ] ${todo.priority ? `[${todo.priority}] ` : ''}${withFiles(todo.description, todo.files)}`).join('\n')
+    : '- None recorded',
+  '## 7. Dependencies and External Services',
+  list(handoff.dependencies.map(dependency => dependency.purpose ? `${dependency.name} – ${dependency.purpose}` : dependency.name)),
+  '## 8. Coding Preferences',
+  list(handoff.preferences),
+].join('\n\n');
+
+export interface StructuredResult {
+  handoff: StructuredHandoff;
+  markdown: string;
+  model: string;
+  // Replies that failed validation before one passed
+  repairs: number;
+}
+
+// Ask for JSON, validate it, and show the model its mistakes until it passes or the repair budget runs out
+export const generateStructuredHandoff = async (
+  provider: LLMProvider,
+  completion: CompletionRequest
+): Promise<StructuredResult> => {
+  const messages = completion.messages.map((message, index) =>
+    index === completion.messages.length - 1 ? { ...message, content: `${message.content}\n\n${STRUCTURED_INSTRUCTIONS}` } : message
+  );
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const result = await provider.complete({ ...completion, messages, jsonMode: true });
+
+    try {
+      const value = withDefaults(extractJson(result.content));
+      errors = handoffErrors(value);
+      if (!errors.length) {
+        const handoff = value as StructuredHandoff;
+        return { handoff, markdown: renderHandoffMarkdown(handoff), model: result.model, repairs: attempt };
+      }
+    } catch (error) {
+      errors = [`The reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    messages.push(
+      { role: 'assistant', content: result.content },
+      {
+        role: 'user',
+        content: `Your reply does not match the schema:\n${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}\n\nReturn the corrected JSON object only.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError('The model did not return a valid structured handoff', errors);
+};
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { createFileTemplateStore } from './file';
+
+describe('createFileTemplateStore', () => {
+  const directories: string[] = [];
+
+  after(async () => {
+    await Promise.all(directories.map(directory => fs.rm(directory, { recursive: true, force: true })));
+  });
+
+  const createStore = async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'templates-'));
+    directories.push(directory);
+    return { directory, store: createFileTemplateStore(directory) };
+  };
+
+  it('numbers concurrent appends one after another without losing any', async () => {
+    const { directory, store } = await createStore();
+    const createdAt = new Date().toISOString();
+
+    const appended = await Promise.all(
+      Array.from({ length: 5 }, (_, index) => store.append({ type: 'readme', team: 'acme', body: `body ${index}`, createdAt }))
+    );
+
+    assert.deepEqual(appended.map(version => version.version).sort(), [1, 2, 3, 4, 5]);
+    const versions = await store.versions('readme', 'acme');
+    assert.deepEqual(versions.map(version => version.version), [1, 2, 3, 4, 5]);
+    assert.deepEqual(versions.map(version => version.body).sort(), ['body 0', 'body 1', 'body 2', 'body 3', 'body 4']);
+    assert.deepEqual(await fs.readdir(path.join(directory, 'acme')), ['readme.json']);
+  });
+
+  it('keeps each team and type to its own history', async () => {
+    const { store } = await createStore();
+    const createdAt = new Date().toISOString();
+
+    await store.append({ type: 'readme', team: 'acme', body: 'a', createdAt });
+    const other = await store.append({ type: 'summary', team: 'acme', body: 'b', createdAt });
+
+    assert.equal(other.version, 1);
+    assert.deepEqual(await store.versions('readme', 'other-team'), []);
+  });
+});
@@ -0,0 +1,47 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TEAM_PATTERN, TemplateStore, TemplateVersion } from './types';
+
+// One JSON file per team and type holding its full version history: <directory>/<team>/<type>.json.
+// The files can be edited or checked in by hand; the newest entry wins.
+export const createFileTemplateStore = (directory: string): TemplateStore => {
+  const fileFor = (type: string, team: string) => path.join(directory, team, `${type}.json`);
+  // The newest pending append per file, so each read-modify-write starts after the previous one finished
+  const pending = new Map<string, Promise<unknown>>();
+
+  const read = async (type: string, team: string): Promise<TemplateVersion[]> => {
+    if (!TEAM_PATTERN.test(team)) return [];
+    try {
+      return JSON.parse(await fs.readFile(fileFor(type, team), 'utf8')) as TemplateVersion[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  return {
+    versions: read,
+
+    append(fields) {
+      const file = fileFor(fields.type, fields.team);
+      const appended = (pending.get(file) ?? Promise.resolve()).catch(() => undefined).then(async () => {
+        // Numbered from the history as it is now, not as it was when the save was requested
+        const previous = await read(fields.type, fields.team);
+        const version: TemplateVersion = { ...fields, version: (previous.at(-1)?.version ?? 0) + 1 };
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        // Write then rename so readers never see a half-written history; the suffix keeps concurrent writers apart
+        const temporary = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+        await fs.writeFile(temporary, JSON.stringify([...previous, version], null, 2));
+        await fs.rename(temporary, file);
+        return version;
+      });
+      pending.set(file, appended);
+      // Drop the entry once the chain is idle so the map does not grow with every team and type
+      appended.catch(() => undefined).then(() => {
+        if (pending.get(file) === appended) pending.delete(file);
+      });
+      return appended;
+    },
+  };
+};
@@ -0,0 +1,72 @@
+import path from 'path';
+import { DEFAULT_TEMPLATES } from '../prompts';
+import { ArtifactType } from '../types';
+import { createFileTemplateStore } from './file';
+import { createMemoryTemplateStore } from './memory';
+import { DEFAULT_TEAM, ResolvedTemplate, TemplateStore, templateVersionId } from './types';
+
+export * from './types';
+export * from './render';
+
+const DEFAULT_STORE_DIR = '.data/templates';
+
+// Kept on globalThis so the memory store survives dev-server module reloads
+const globalStore = globalThis as typeof globalThis & { __templateStore?: TemplateStore };
+
+// TEMPLATE_STORE picks the backend: "file" (default, under TEMPLATE_STORE_DIR) or "memory"
+export const getTemplateStore = (): TemplateStore => {
+  if (!globalStore.__templateStore) {
+    globalStore.__templateStore = process.env.TEMPLATE_STORE === 'memory'
+      ? createMemoryTemplateStore()
+      : createFileTemplateStore(path.resolve(process.env.TEMPLATE_STORE_DIR || DEFAULT_STORE_DIR));
+  }
+  return globalStore.__templateStore;
+};
+
+const latest = async (type: ArtifactType, team: string) => (await getTemplateStore().versions(type, team)).at(-1);
+
+// A team's newest version wins, then the shared default team's, then the built-in prompt
+export const resolveTemplate = async (type: ArtifactType, team = DEFAULT_TEAM): Promise<ResolvedTemplate> => {
+  const teamVersion = team !== DEFAULT_TEAM ? await latest(type, team) : undefined;
+  const found = teamVersion ?? await latest(type, DEFAULT_TEAM);
+
+  if (found) {
+    return {
+      type,
+      team: found.team,
+      version: found.version,
+      source: found.team === DEFAULT_TEAM ? 'default' : 'team',
+      body: found.body,
+      versionId: templateVersionId(found),
+    };
+  }
+
+  return {
+    type,
+    team: DEFAULT_TEAM,
+    version: 0,
+    source: 'builtin',
+    body: DEFAULT_TEMPLATES[type],
+    versionId: templateVersionId({ type, team: DEFAULT_TEAM, version: 0 }),
+  };
+};
+
+export const saveTemplate = async (type: ArtifactType, team: string, body: string, note?: string) => {
+  return getTemplateStore().append({
+    type,
+    team,
+    body,
+    ...(note && { note }),
+    createdAt: new Date().toISOString(),
+  });
+};
+
+// Rolling back appends a copy of the old version, so history is never rewritten; version 0 restores the built-in prompt
+export const rollbackTemplate = async (type: ArtifactType, team: string, version: number) => {
+  if (version === 0) {
+    return saveTemplate(type, team, DEFAULT_TEMPLATES[type], 'Rolled back to the built-in template');
+  }
+  const target = (await getTemplateStore().versions(type, team)).find(item => item.version === version);
+  if (!target) return null;
+  return saveTemplate(type, team, target.body, `Rolled back to v${version}`);
+};
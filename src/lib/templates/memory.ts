@@ -0,0 +1,21 @@
+import { TemplateStore, TemplateVersion } from './types';
+
+// Process-local store for tests and ephemeral deployments
+export const createMemoryTemplateStore = (): TemplateStore => {
+  const versions = new Map<string, TemplateVersion[]>();
+  const keyFor = (type: string, team: string) => `${team}/${type}`;
+
+  return {
+    async versions(type, team) {
+      return [...(versions.get(keyFor(type, team)) ?? [])];
+    },
+
+    async append(fields) {
+      const key = keyFor(fields.type, fields.team);
+      const previous = versions.get(key) ?? [];
+      const version = { ...fields, version: (previous.at(-1)?.version ?? 0) + 1 };
+      versions.set(key, [...previous, version]);
+      return version;
+    },
+  };
+};
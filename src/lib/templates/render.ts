@@ -0,0 +1,51 @@
+// Variables a prompt template can reference as {{name}}, or {{name|fallback}} for values that may be missing
+export const TEMPLATE_VARIABLES = ['transcript', 'timeline', 'code_changes', 'history', 'code', 'code_digest', 'author', 'ticket', 'previous'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export type TemplateVariables = Record<TemplateVariable, string>;
+
+export const TEMPLATE_VARIABLE_DESCRIPTIONS: Record<TemplateVariable, string> = {
+  transcript: 'The chat transcript as numbered turns, or condensed notes for long sessions',
+  timeline: 'Timestamped turns, one per line',
+  code_changes: 'Code blocks per turn, with the files they touched',
+  history: 'Commits from the uploaded git history, or a note that none was provided',
+  code: 'Every code file, labelled with its path',
+  code_digest: 'Exported symbols, internal dependencies, packages, environment variables, called URLs and TODO/FIXME comments found in the code',
+  author: 'The engineer handing off, as entered with the request',
+  ticket: 'The ticket or issue the work belongs to, as entered with the request',
+  previous: 'The handoff being revised (update handoffs only)',
+};
+
+const MAX_TEMPLATE_CHARS = 20_000;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export const isTemplateVariable = (name: string): name is TemplateVariable =>
+  (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+
+export const variablesIn = (body: string) =>
+  [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+// Returns why a template cannot be saved, or null
+export const validateTemplate = (body: unknown) => {
+  if (typeof body !== 'string' || !body.trim()) {
+    return 'body must be a non-empty string';
+  }
+  if (body.length > MAX_TEMPLATE_CHARS) {
+    return `body must be at most ${MAX_TEMPLATE_CHARS} characters`;
+  }
+  const unknown = variablesIn(body).filter(name => !isTemplateVariable(name));
+  if (unknown.length) {
+    return `Unknown variable(s): ${unknown.join(', ')}. Available: ${TEMPLATE_VARIABLES.join(', ')}`;
+  }
+  return null;
+};
+
+// Substitution is a single pass, so variable values containing {{...}} are left alone
+export const renderTemplate = (body: string, variables: Partial<TemplateVariables>) =>
+  body.replace(VARIABLE_PATTERN, (match, name: string, fallback?: string) => {
+    if (!isTemplateVariable(name)) return match;
+    const value = variables[name];
+    return value ? value : (fallback ?? '').trim();
+  });
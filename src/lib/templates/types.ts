@@ -0,0 +1,40 @@
+import { ArtifactType } from '../types';
+
+// Templates saved without a team apply to every team that has not overridden them
+export const DEFAULT_TEAM = 'default';
+
+export const TEAM_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+export const isTeamName = (value: unknown): value is string => typeof value === 'string' && TEAM_PATTERN.test(value);
+
+export interface TemplateVersion {
+  type: ArtifactType;
+  team: string;
+  // Starts at 1 per team and type; saves and rollbacks always append a new version
+  version: number;
+  body: string;
+  note?: string;
+  createdAt: string;
+}
+
+// The template a generation actually uses: a team's override, the shared default, or the built-in prompt
+export interface ResolvedTemplate {
+  type: ArtifactType;
+  team: string;
+  // 0 for the built-in prompt
+  version: number;
+  source: 'team' | 'default' | 'builtin';
+  body: string;
+  versionId: string;
+}
+
+export interface TemplateStore {
+  // Oldest first
+  versions(type: ArtifactType, team: string): Promise<TemplateVersion[]>;
+  // Numbers the new version after the newest stored one; appends to the same team and type never interleave
+  append(version: Omit<TemplateVersion, 'version'>): Promise<TemplateVersion>;
+}
+
+// Recorded with every generation, e.g. "acme/readme@v3" or "builtin/readme"
+export const templateVersionId = ({ type, team, version }: Pick<TemplateVersion, 'type' | 'team' | 'version'>) =>
+  version ? `${team}/${type}@v${version}` : `builtin/${type}`;
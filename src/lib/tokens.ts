@@ -0,0 +1,44 @@
+export class InputTooLargeError extends Error {
+  estimatedTokens: number;
+  limit: number;
+
+  constructor(message: string, estimatedTokens: number, limit: number) {
+    super(message);
+    this.name = 'InputTooLargeError';
+    this.estimatedTokens = estimatedTokens;
+    this.limit = limit;
+  }
+}
+
+// Rough BPE estimate without a tokenizer: ~4 characters per token for prose,
+// but code and punctuation-heavy text tokenize denser, so take the larger of the two signals
+export const estimateTokens = (text: string) => {
+  if (!text) return 0;
+  const byCharacters = text.length / 4;
+  const bySymbols = (text.match(/[\w]+|[^\w\s]/g) || []).length * 0.75;
+  return Math.ceil(Math.max(byCharacters, bySymbols));
+};
+
+export interface TokenBudget {
+  // Model context window shared by prompt and completion
+  contextTokens: number;
+  // Hard ceiling on transcript + code, regardless of chunking
+  maxInputTokens: number;
+  // Completion budget for each map (chunk notes) call
+  notesMaxTokens: number;
+}
+
+const DEFAULT_CONTEXT_TOKENS = 32768;
+const DEFAULT_MAX_INPUT_TOKENS = 400_000;
+const DEFAULT_NOTES_MAX_TOKENS = 768;
+
+const envInteger = (variable: string, fallback: number) => {
+  const parsed = parseInt(process.env[variable] || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const getTokenBudget = (): TokenBudget => ({
+  contextTokens: envInteger('LLM_CONTEXT_TOKENS', DEFAULT_CONTEXT_TOKENS),
+  maxInputTokens: envInteger('LLM_MAX_INPUT_TOKENS', DEFAULT_MAX_INPUT_TOKENS),
+  notesMaxTokens: envInteger('LLM_NOTES_MAX_TOKENS', DEFAULT_NOTES_MAX_TOKENS),
+});
@@ -0,0 +1,98 @@
+import { RawTurn, TranscriptParseError, TurnRole } from './types';
+
+interface ChatGPTNode {
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+  } | null;
+}
+
+export interface ChatGPTConversation {
+  title?: string;
+  create_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGPTNode>;
+}
+
+export const isChatGPTConversation = (value: unknown): value is ChatGPTConversation =>
+  typeof value === 'object' && value !== null && 'mapping' in value;
+
+const toRole = (role?: string): TurnRole => {
+  if (role === 'user' || role === 'assistant' || role === 'system' || role === 'tool') return role;
+  return 'unknown';
+};
+
+const toText = (content: NonNullable<ChatGPTNode['message']>['content']) => {
+  if (typeof content !== 'object' || content === null) return '';
+  if (content.content_type === 'code' && typeof content.text === 'string' && content.text) {
+    return '```\n' + content.text + '\n```';
+  }
+  return (Array.isArray(content.parts) ? content.parts : [])
+    .filter((part): part is string => typeof part === 'string')
+    .join('\n');
+};
+
+// create_time is seconds since the epoch, or null when the export has none
+const toTimestamp = (createTime: unknown) => {
+  if (createTime === null || createTime === undefined) return undefined;
+  if (typeof createTime !== 'number' || !Number.isFinite(createTime)) {
+    throw new TranscriptParseError('ChatGPT export: "create_time" must be a number of seconds');
+  }
+  const date = new Date(createTime * 1000);
+  if (Number.isNaN(date.getTime())) {
+    throw new TranscriptParseError('ChatGPT export: "create_time" is out of range');
+  }
+  return date.toISOString();
+};
+
+const createTimeOf = (node: ChatGPTNode) => {
+  const time = node.message?.create_time;
+  return typeof time === 'number' && Number.isFinite(time) ? time : 0;
+};
+
+// conversations.json stores a message tree; the visible thread is the path from current_node back to the root
+export const parseChatGPTConversation = (conversation: ChatGPTConversation): RawTurn[] => {
+  if (typeof conversation.mapping !== 'object' || conversation.mapping === null || Array.isArray(conversation.mapping)) {
+    throw new TranscriptParseError('ChatGPT export: "mapping" must be an object of message nodes');
+  }
+  // Skip malformed nodes rather than failing on them
+  const mapping = Object.fromEntries(
+    Object.entries(conversation.mapping).filter(([, node]) => typeof node === 'object' && node !== null)
+  );
+  let nodeId = conversation.current_node;
+
+  if (!nodeId || !mapping[nodeId]) {
+    // Fall back to the newest leaf
+    const leaves = Object.entries(mapping).filter(([id]) =>
+      !Object.values(mapping).some(node => node.parent === id)
+    );
+    nodeId = leaves
+      .sort(([, a], [, b]) => createTimeOf(a) - createTimeOf(b))
+      .pop()?.[0];
+  }
+
+  const path: ChatGPTNode[] = [];
+  const seen = new Set<string>();
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    path.unshift(mapping[nodeId]);
+    const parent = mapping[nodeId].parent;
+    nodeId = typeof parent === 'string' ? parent : undefined;
+  }
+
+  return path
+    .map(({ message }) => message)
+    .filter((message): message is NonNullable<ChatGPTNode['message']> => typeof message === 'object' && message !== null)
+    .map(message => {
+      const timestamp = toTimestamp(message.create_time);
+      return {
+        role: toRole(typeof message.author === 'object' && message.author !== null ? message.author.role : undefined),
+        ...(timestamp && { timestamp }),
+        text: toText(message.content),
+      };
+    })
+    // Hidden system scaffolding has no text and carries no information for the handoff
+    .filter(turn => turn.role !== 'system' || turn.text.trim());
+};
@@ -0,0 +1,34 @@
+import { RawTurn } from './types';
+
+interface ClaudeMessage {
+  sender?: string;
+  text?: string;
+  created_at?: string;
+  content?: { type?: string; text?: string }[];
+}
+
+export interface ClaudeConversation {
+  name?: string;
+  created_at?: string;
+  chat_messages: ClaudeMessage[];
+}
+
+export const isClaudeConversation = (value: unknown): value is ClaudeConversation =>
+  typeof value === 'object' && value !== null && Array.isArray((value as ClaudeConversation).chat_messages);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Claude.ai data exports: conversations.json with chat_messages[] per conversation. Messages and content blocks of
+// the wrong shape are skipped, so a hand-edited export still parses.
+export const parseClaudeConversation = (conversation: ClaudeConversation): RawTurn[] =>
+  conversation.chat_messages.filter(isObject).map((message: ClaudeMessage) => {
+    const blocks = (Array.isArray(message.content) ? message.content : [])
+      .filter(block => isObject(block) && block.type === 'text' && typeof block.text === 'string' && block.text)
+      .map(block => block.text!);
+
+    return {
+      role: message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : 'unknown',
+      ...(typeof message.created_at === 'string' && message.created_at && { timestamp: message.created_at }),
+      text: blocks.length ? blocks.join('\n\n') : typeof message.text === 'string' ? message.text : '',
+    };
+  });
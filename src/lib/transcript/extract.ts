@@ -0,0 +1,41 @@
+import { CodeBlock, RawTurn, Turn } from './types';
+
+const FENCE_PATTERN = /```([\w+#.-]*)[^\n]*\n([\s\S]*?)```/g;
+
+const FILE_EXTENSIONS = [
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'json', 'md', 'mdc', 'py', 'go', 'rs', 'java', 'kt', 'rb', 'php',
+  'c', 'h', 'cpp', 'cs', 'swift', 'css', 'scss', 'html', 'vue', 'svelte', 'yml', 'yaml', 'toml', 'sql', 'sh',
+  'prisma', 'graphql', 'env',
+];
+
+const FILE_PATTERN = new RegExp(
+  `(?:^|[\\s\`'"(\\[@])((?:\\.{0,2}/)?(?:[\\w.-]+/)*[\\w-][\\w.-]*\\.(?:${FILE_EXTENSIONS.join('|')}))(?=$|[\\s\`'"),\\]:;!?]|\\.(?:\\s|$))`,
+  'gm'
+);
+
+export const extractCodeBlocks = (text: string): CodeBlock[] =>
+  Array.from(text.matchAll(FENCE_PATTERN), match => ({
+    ...(match[1] && { language: match[1].toLowerCase() }),
+    code: match[2].replace(/\n$/, ''),
+  }));
+
+export const extractFileReferences = (text: string): string[] => {
+  const files = new Set<string>();
+  for (const match of text.matchAll(FILE_PATTERN)) {
+    files.add(match[1].replace(/^\.\//, ''));
+  }
+  return Array.from(files);
+};
+
+export const toTurns = (rawTurns: RawTurn[]): Turn[] =>
+  rawTurns
+    .map(turn => ({ ...turn, text: turn.text.trim() }))
+    .filter(turn => turn.text)
+    .map((turn, index) => ({
+      index: index + 1,
+      role: turn.role,
+      ...(turn.timestamp && { timestamp: turn.timestamp }),
+      text: turn.text,
+      codeBlocks: extractCodeBlocks(turn.text),
+      fileReferences: extractFileReferences(turn.text),
+    }));
@@ -0,0 +1,56 @@
+import { Transcript, Turn, TurnRole } from './types';
+
+const ROLE_LABELS: Record<TurnRole, string> = {
+  user: 'Engineer 1',
+  assistant: 'AI Assistant',
+  system: 'System',
+  tool: 'Tool',
+  unknown: 'Unlabelled',
+};
+
+const turnLabel = (turn: Turn) =>
+  `[#${turn.index}] ${ROLE_LABELS[turn.role]}${turn.timestamp ? ` — ${turn.timestamp}` : ''}`;
+
+const excerpt = (text: string, length = 120) => {
+  const firstLine = text.replace(/```[\s\S]*?```/g, '[code]').replace(/\s+/g, ' ').trim();
+  return firstLine.length > length ? firstLine.slice(0, length - 1) + '…' : firstLine;
+};
+
+export const formatTranscriptHeader = (transcript: Transcript) =>
+  `Format: ${transcript.format}${transcript.title ? ` · Title: ${transcript.title}` : ''} · ${transcript.turns.length} turns`;
+
+export const formatTurn = (turn: Turn) => {
+  const files = turn.fileReferences.length ? `\n\nFiles referenced: ${turn.fileReferences.join(', ')}` : '';
+  return `### ${turnLabel(turn)}\n${turn.text}${files}`;
+};
+
+// Full transcript with every turn labelled so the model can cite turns by number
+export const formatTranscript = (transcript: Transcript) =>
+  [formatTranscriptHeader(transcript), ...transcript.turns.map(formatTurn)].join('\n\n');
+
+export const formatTimeline = (transcript: Transcript) => {
+  const timed = transcript.turns.filter(turn => turn.timestamp);
+  if (!timed.length) {
+    return 'The transcript carries no timestamps. Refer to events by turn number (#n) instead of inventing times.';
+  }
+  return timed
+    .map(turn => `- ${turn.timestamp} — [#${turn.index}] ${ROLE_LABELS[turn.role]}: ${excerpt(turn.text)}`)
+    .join('\n');
+};
+
+// Pair each assistant turn that produced code with the prompt that asked for it
+export const formatCodeChanges = (transcript: Transcript) => {
+  const changes = transcript.turns
+    .filter(turn => turn.role === 'assistant' && turn.codeBlocks.length)
+    .map(turn => {
+      const prompt = transcript.turns
+        .filter(candidate => candidate.index < turn.index && candidate.role === 'user')
+        .pop();
+      const languages = Array.from(new Set(turn.codeBlocks.map(block => block.language || 'text')));
+      const files = turn.fileReferences.length ? `; files: ${turn.fileReferences.join(', ')}` : '';
+      const source = prompt ? ` in reply to [#${prompt.index}] "${excerpt(prompt.text)}"` : '';
+      return `- [#${turn.index}]${source}: ${turn.codeBlocks.length} code block(s) (${languages.join(', ')})${files}`;
+    });
+
+  return changes.length ? changes.join('\n') : 'No code blocks were exchanged in the transcript.';
+};
@@ -0,0 +1,63 @@
+import { isChatGPTConversation, parseChatGPTConversation } from './chatgpt';
+import { isClaudeConversation, parseClaudeConversation } from './claude';
+import { toTurns } from './extract';
+import { parseMarkdownTranscript } from './markdown';
+import { Transcript } from './types';
+
+export * from './types';
+export { formatTranscript, formatTranscriptHeader, formatTurn, formatTimeline, formatCodeChanges } from './format';
+
+const parseJson = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+};
+
+// Conversation-level fields are only trusted when they have the expected type
+const numberOr0 = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : 0;
+const stringOrEmpty = (value: unknown) => typeof value === 'string' ? value : '';
+
+// Exports may hold one conversation or a list of them; conversations are concatenated in order
+const parseJsonExport = (value: unknown): Transcript | null => {
+  const conversations = Array.isArray(value) ? value : [value];
+
+  if (conversations.length && conversations.every(isChatGPTConversation)) {
+    const sorted = [...conversations].sort((a, b) => numberOr0(a.create_time) - numberOr0(b.create_time));
+    return {
+      format: 'chatgpt-json',
+      ...(sorted.length === 1 && typeof sorted[0].title === 'string' && sorted[0].title && { title: sorted[0].title }),
+      turns: toTurns(sorted.flatMap(parseChatGPTConversation)),
+    };
+  }
+
+  if (conversations.length && conversations.every(isClaudeConversation)) {
+    const sorted = [...conversations].sort((a, b) => stringOrEmpty(a.created_at).localeCompare(stringOrEmpty(b.created_at)));
+    return {
+      format: 'claude-json',
+      ...(sorted.length === 1 && typeof sorted[0].name === 'string' && sorted[0].name && { title: sorted[0].name }),
+      turns: toTurns(sorted.flatMap(parseClaudeConversation)),
+    };
+  }
+
+  return null;
+};
+
+// Normalize any supported chat export into a typed list of turns
+export const parseTranscript = (text: string): Transcript => {
+  const json = parseJson(text);
+  if (json !== undefined) {
+    const transcript = parseJsonExport(json);
+    if (transcript) return transcript;
+  }
+
+  const { format, title, turns } = parseMarkdownTranscript(text);
+  return {
+    format,
+    ...(title && { title }),
+    turns: toTurns(turns),
+  };
+};
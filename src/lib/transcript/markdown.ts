@@ -0,0 +1,119 @@
+import { RawTurn, TranscriptFormat, TurnRole } from './types';
+
+const ROLE_NAMES = 'User|Human|You|Me|Engineer(?: ?1)?|Assistant|AI|Cursor|Claude|ChatGPT|GPT-?4o?|Copilot|System';
+const TIMESTAMP = '[(\\[]([^)\\]]+)[)\\]]';
+
+// A line that is only a speaker label: "**User**", "_**Assistant**_ (2025-06-10 14:03Z)", "## Human", "Claude:"
+const BLOCK_MARKER = new RegExp(
+  `^\\s*(?:#{1,6}\\s*)?(?:_?\\*\\*|__)?\\s*(${ROLE_NAMES})(?:\\s+said)?\\s*:?\\s*(?:\\*\\*_?|__)?\\s*:?\\s*(?:${TIMESTAMP})?\\s*$`,
+  'i'
+);
+
+// A speaker label that starts a line of text: "User: ...", "[10:42] Assistant: ...", "Human (Mon 11:04am): ..."
+const INLINE_MARKER = new RegExp(
+  `^\\s*(?:${TIMESTAMP}\\s*)?(${ROLE_NAMES})\\s*(?:${TIMESTAMP})?\\s*:\\s*(.*)$`,
+  'i'
+);
+
+const toRole = (name: string): TurnRole => {
+  const lower = name.toLowerCase();
+  if (/^(user|human|you|me|engineer)/.test(lower)) return 'user';
+  if (lower === 'system') return 'system';
+  return 'assistant';
+};
+
+// Cursor separates turns with horizontal rules; they are not part of the message
+const stripSeparators = (text: string) =>
+  text.replace(/^(?:\s*(?:---+|\*\*\*+)\s*\n)+/, '').replace(/(?:\n\s*(?:---+|\*\*\*+)\s*)+$/, '');
+
+// Text before the first speaker label, e.g. a "Context: ..." paragraph, without the title and export stamp
+const preambleTurns = (preamble: string[]): RawTurn[] => {
+  const text = stripSeparators(
+    preamble
+      .filter(line => !/^#\s+/.test(line) && !/^\s*_?Exported on .*_?\s*$/i.test(line))
+      .join('\n')
+      .trim() + '\n'
+  ).trim();
+  return text ? [{ role: 'unknown', text }] : [];
+};
+
+interface MarkdownParseResult {
+  format: TranscriptFormat;
+  title?: string;
+  turns: RawTurn[];
+}
+
+export const parseMarkdownTranscript = (text: string): MarkdownParseResult => {
+  const lines = text.split(/\r?\n/);
+  const blockTurns: (RawTurn & { label: string })[] = [];
+  const preamble: string[] = [];
+  let inFence = false;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const marker = inFence ? null : line.match(BLOCK_MARKER);
+    if (marker) {
+      blockTurns.push({
+        label: marker[1],
+        role: toRole(marker[1]),
+        ...(marker[2] && { timestamp: marker[2].trim() }),
+        text: '',
+      });
+    } else if (blockTurns.length) {
+      blockTurns[blockTurns.length - 1].text += line + '\n';
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  const title = preamble.find(line => /^#\s+/.test(line))?.replace(/^#\s+/, '').trim();
+
+  if (blockTurns.length) {
+    const labels = blockTurns.map(turn => turn.label.toLowerCase());
+    const isClaude = labels.some(label => label === 'human' || label === 'claude');
+    const isCursor = /from Cursor/i.test(preamble.join('\n')) || labels.includes('cursor') || /_\*\*(User|Assistant)\*\*_/.test(text);
+
+    return {
+      format: isClaude && !isCursor ? 'claude-markdown' : 'cursor-markdown',
+      ...(title && { title }),
+      turns: [
+        ...preambleTurns(preamble),
+        ...blockTurns.map(({ role, timestamp, text: body }) => ({
+          role,
+          ...(timestamp && { timestamp }),
+          text: stripSeparators(body),
+        })),
+      ],
+    };
+  }
+
+  // No block labels: look for "Role: message" lines, as in plain .txt exports
+  const inlineTurns: RawTurn[] = [];
+  const inlinePreamble: string[] = [];
+  inFence = false;
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const marker = inFence ? null : line.match(INLINE_MARKER);
+    if (marker) {
+      const timestamp = (marker[1] || marker[3])?.trim();
+      inlineTurns.push({
+        role: toRole(marker[2]),
+        ...(timestamp && { timestamp }),
+        text: marker[4] + '\n',
+      });
+    } else if (inlineTurns.length) {
+      inlineTurns[inlineTurns.length - 1].text += line + '\n';
+    } else {
+      inlinePreamble.push(line);
+    }
+  }
+
+  if (inlineTurns.length >= 2) {
+    return { format: 'plain-text', ...(title && { title }), turns: [...preambleTurns(inlinePreamble), ...inlineTurns] };
+  }
+
+  // Unlabelled text: keep it whole rather than guessing who said what
+  return { format: 'plain-text', ...(title && { title }), turns: [{ role: 'unknown', text }] };
+};
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTranscript, TranscriptParseError } from './index';
+
+const summarize = (text: string) => parseTranscript(text).turns.map(({ role, text: turnText }) => [role, turnText]);
+
+describe('parseTranscript', () => {
+  describe('markdown', () => {
+    it('reads a Cursor export, keeping text before the first label as its own turn', () => {
+      const transcript = parseTranscript([
+        '# Fix upload retries',
+        '_Exported on 6/10/2025 from Cursor (1.0.0)_',
+        '',
+        'Context: uploads fail on flaky networks.',
+        '',
+        '---',
+        '',
+        '**User**',
+        '',
+        'Why does `src/upload.ts` give up after one try?',
+        '',
+        '---',
+        '',
+        '**Cursor**',
+        '',
+        'The retry loop exits early.',
+      ].join('\n'));
+
+      assert.equal(transcript.format, 'cursor-markdown');
+      assert.equal(transcript.title, 'Fix upload retries');
+      assert.deepEqual(transcript.turns.map(turn => [turn.role, turn.text]), [
+        ['unknown', 'Context: uploads fail on flaky networks.'],
+        ['user', 'Why does `src/upload.ts` give up after one try?'],
+        ['assistant', 'The retry loop exits early.'],
+      ]);
+      assert.deepEqual(transcript.turns[1].fileReferences, ['src/upload.ts']);
+    });
+
+    it('reads inline speaker labels from plain text', () => {
+      assert.deepEqual(summarize('User: hi\nAssistant: hello\nsecond line'), [
+        ['user', 'hi'],
+        ['assistant', 'hello\nsecond line'],
+      ]);
+    });
+  });
+
+  describe('Claude JSON', () => {
+    it('reads text blocks, falling back to the message text', () => {
+      const transcript = parseTranscript(JSON.stringify({
+        name: 'Upload retries',
+        chat_messages: [
+          { sender: 'human', text: 'Why?', created_at: '2025-06-10T14:03:00Z' },
+          { sender: 'assistant', text: 'ignored', content: [{ type: 'text', text: 'Because.' }, { type: 'tool_use' }] },
+        ],
+      }));
+
+      assert.equal(transcript.format, 'claude-json');
+      assert.equal(transcript.title, 'Upload retries');
+      assert.deepEqual(transcript.turns.map(turn => [turn.role, turn.text, turn.timestamp]), [
+        ['user', 'Why?', '2025-06-10T14:03:00Z'],
+        ['assistant', 'Because.', undefined],
+      ]);
+    });
+
+    it('skips messages and blocks of the wrong shape instead of throwing', () => {
+      assert.deepEqual(summarize(JSON.stringify({
+        chat_messages: [
+          null,
+          'not a message',
+          { sender: 'human', text: 'kept' },
+          { sender: 'assistant', content: 'not an array', text: 'from text' },
+          { sender: 'assistant', content: [null, { type: 'text', text: 42 }], text: 7 },
+          { sender: 'human', created_at: 12, text: 'numeric created_at' },
+        ],
+      })), [
+        ['user', 'kept'],
+        ['assistant', 'from text'],
+        ['user', 'numeric created_at'],
+      ]);
+    });
+  });
+
+  describe('ChatGPT JSON', () => {
+    const node = (parent: string | null, role: string, parts: unknown, createTime: unknown = null) => ({
+      parent,
+      message: { author: { role }, create_time: createTime, content: { content_type: 'text', parts } },
+    });
+
+    it('follows the thread from current_node back to the root', () => {
+      const transcript = parseTranscript(JSON.stringify({
+        title: 'Upload retries',
+        current_node: 'c',
+        mapping: {
+          root: { parent: null, message: null },
+          a: node('root', 'user', ['Why?'], 1749564180),
+          b: node('a', 'assistant', ['Abandoned branch']),
+          c: node('a', 'assistant', ['Because.']),
+        },
+      }));
+
+      assert.equal(transcript.format, 'chatgpt-json');
+      assert.deepEqual(transcript.turns.map(turn => [turn.role, turn.text, turn.timestamp]), [
+        ['user', 'Why?', '2025-06-10T14:03:00.000Z'],
+        ['assistant', 'Because.', undefined],
+      ]);
+    });
+
+    it('skips nodes and parts of the wrong shape instead of throwing', () => {
+      assert.deepEqual(summarize(JSON.stringify({
+        current_node: 'c',
+        mapping: {
+          junk: 'not a node',
+          a: node(null, 'user', 'parts as a string'),
+          b: { parent: 'a', message: 'not a message' },
+          c: node('b', 'assistant', ['kept', 3]),
+        },
+      })), [['assistant', 'kept']]);
+    });
+
+    it('rejects a mapping that is not an object, and a create_time that is not a number', () => {
+      assert.throws(() => parseTranscript('{"mapping": null}'), TranscriptParseError);
+      assert.throws(() => parseTranscript('{"mapping": []}'), TranscriptParseError);
+      assert.throws(
+        () => parseTranscript(JSON.stringify({ mapping: { a: node(null, 'user', ['hi'], 'yesterday') } })),
+        TranscriptParseError
+      );
+      assert.throws(
+        () => parseTranscript(JSON.stringify({ mapping: { a: node(null, 'user', ['hi'], 1e20) } })),
+        TranscriptParseError
+      );
+    });
+  });
+});
@@ -0,0 +1,40 @@
+export type TranscriptFormat =
+  | 'cursor-markdown'
+  | 'claude-markdown'
+  | 'claude-json'
+  | 'chatgpt-json'
+  | 'plain-text';
+
+export type TurnRole = 'user' | 'assistant' | 'system' | 'tool' | 'unknown';
+
+export interface CodeBlock {
+  language?: string;
+  code: string;
+}
+
+export interface Turn {
+  index: number;
+  role: TurnRole;
+  // ISO string when the export carries machine-readable times, otherwise the label as written
+  timestamp?: string;
+  text: string;
+  codeBlocks: CodeBlock[];
+  fileReferences: string[];
+}
+
+export interface Transcript {
+  format: TranscriptFormat;
+  title?: string;
+  turns: Turn[];
+}
+
+// Parsers produce raw turns; index, code blocks and file references are derived afterwards
+export type RawTurn = Pick<Turn, 'role' | 'timestamp' | 'text'>;
+
+// An export that claims a known format but cannot be read as one
+export class TranscriptParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptParseError';
+  }
+}
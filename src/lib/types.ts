@@ -0,0 +1,181 @@
+import { ExportedFile, ExportTarget } from './export-targets';
+import { UpstreamAttempt } from './providers';
+import { RedactionReport } from './redaction';
+import { StructuredHandoff } from './structured-handoff';
+import { QualityReport } from './verification';
+
+// A single generated document; 'update' revises a previous handoff with only the activity since it
+export type ArtifactType = 'summary' | 'cursor' | 'readme' | 'update';
+// 'package' generates the summary, cursor context and README in one request
+export type GenerationType = ArtifactType | 'package';
+
+export const ARTIFACT_TYPES: ArtifactType[] = ['summary', 'cursor', 'readme', 'update'];
+export const PACKAGE_ARTIFACT_TYPES: ArtifactType[] = ['summary', 'cursor', 'readme'];
+export const GENERATION_TYPES: GenerationType[] = [...ARTIFACT_TYPES, 'package'];
+
+// The artifacts a generation type produces
+export const artifactTypesOf = (type: GenerationType): ArtifactType[] =>
+  type === 'package' ? PACKAGE_ARTIFACT_TYPES : [type];
+
+// 'structured' asks for JSON matching StructuredHandoff (cursor context only) instead of free text
+export type OutputFormat = 'text' | 'structured';
+
+// 'bypass' skips the cached result for identical inputs and replaces it with a fresh generation
+export type CacheMode = 'default' | 'bypass';
+
+export interface CodeFile {
+  path: string;
+  content: string;
+}
+
+export interface CodeArchive {
+  name: string; // .zip, .tar, .tar.gz or .tgz
+  data: string; // base64
+}
+
+export interface SummaryRequest {
+  markdown: string;
+  // Single unnamed source file; kept for existing clients, prefer `files`
+  code?: string;
+  files?: CodeFile[];
+  archive?: CodeArchive;
+  // Unified diff, `git format-patch` output or `git log -p` output
+  history?: string;
+  // Extra regular expressions masked before prompting, on top of the built-in secret and PII rules
+  redactPatterns?: string[];
+  type?: GenerationType;
+  format?: OutputFormat;
+  // Team whose prompt templates are used (falls back to the shared default, then the built-in prompts)
+  team?: string;
+  // Available to templates as {{author}} and {{ticket}}
+  author?: string;
+  ticket?: string;
+  // Assistant context files to render from the cursor context (type 'cursor' or 'package')
+  targets?: ExportTarget[];
+  // type 'update': the handoff being revised, pasted as text or given as a stored handoff id. The transcript,
+  // code and history then only need to cover what happened since.
+  previous?: string;
+  previousId?: string;
+  // Optional per-request overrides of the server's provider configuration
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Respond with a text/event-stream of `delta` events followed by `done` (or `error`)
+  stream?: boolean;
+  cache?: CacheMode;
+}
+
+export interface SummaryResponse {
+  // Stored handoff id, for /handoff/[id] share links; a package stores one handoff per artifact
+  id?: string;
+  ids?: Partial<Record<ArtifactType, string>>;
+  readme?: string;
+  cursorLog?: string;
+  summary?: string;
+  update?: string;
+  // format: 'structured' – the validated object (cursorLog holds its markdown rendering) and how many replies needed repair
+  structured?: StructuredHandoff;
+  repairs?: number;
+  // The cursor context rendered for each requested export target
+  exports?: ExportedFile[];
+  provider?: string;
+  model?: string;
+  // Every upstream call, including retries, timeouts and fallbacks
+  attempts?: UpstreamAttempt[];
+  // Every artifact was served from the generation cache; cachedAt is when it was first generated
+  cached?: boolean;
+  cachedAt?: string;
+  // Template version each artifact was generated with, e.g. "acme/readme@v3" or "builtin/readme"
+  templateVersions?: Partial<Record<ArtifactType, string>>;
+  // Paths of the code files included in the prompt, and any that were left out
+  codeFiles?: string[];
+  skippedFiles?: { path: string; reason: string }[];
+  // Transcript chunks processed (1 unless the session had to be condensed with map-reduce)
+  chunks?: number;
+  estimatedPromptTokens?: number;
+  // Commits parsed from the history input
+  commits?: number;
+  // What was masked in the inputs before they were sent to the provider
+  redaction?: RedactionReport;
+  // Per artifact: claims that could not be found in the inputs, and transcript turns it never mentions
+  quality?: Partial<Record<ArtifactType, QualityReport>>;
+}
+
+// Which SummaryResponse field carries each artifact
+export const RESULT_FIELDS: Record<ArtifactType, 'summary' | 'cursorLog' | 'readme' | 'update'> = {
+  summary: 'summary',
+  cursor: 'cursorLog',
+  readme: 'readme',
+  update: 'update',
+};
+
+// POST /api/handoffs/[id]/ask: a follow-up question about a stored handoff, answered from its kept sources
+export interface AskMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AskRequest {
+  question: string;
+  // Earlier questions and answers, oldest first; the server keeps no conversation state
+  conversation?: AskMessage[];
+}
+
+export interface AskCitation {
+  kind: 'turn' | 'file';
+  // As written in the answer, e.g. "#12" or "src/lib/auth.ts:40-52"
+  text: string;
+  turn?: number;
+  path?: string;
+  startLine?: number;
+  endLine?: number;
+  // The cited turn or lines; absent when the citation matches nothing in the sources
+  excerpt?: string;
+}
+
+export interface AskResponse {
+  answer: string;
+  citations: AskCitation[];
+  // Transcript turns and code files left out because the sources did not fit the context window
+  omitted?: { turns: number; files: number };
+  provider: string;
+  model: string;
+  attempts: UpstreamAttempt[];
+}
+
+// POST /api/refine: rewrite one section of a generated document, e.g. after editing it in the browser
+export type RefineAction = 'expand' | 'shorten' | 'add-code' | 'fix';
+
+export const REFINE_ACTIONS: RefineAction[] = ['expand', 'shorten', 'add-code', 'fix'];
+
+export interface RefineRequest {
+  // The whole document as it is now, for context, and the part of it to rewrite
+  document: string;
+  section: string;
+  action: RefineAction;
+  // Extra direction for the rewrite, e.g. "mention the retry limit"
+  instructions?: string;
+  // The artifact the document is, for its generation settings (default 'readme')
+  type?: ArtifactType;
+  // The stored handoff the document was generated from; its kept transcript and code ground the rewrite
+  handoffId?: string;
+}
+
+export interface RefineResponse {
+  // The rewritten section only; the caller puts it in place of the original
+  section: string;
+  provider: string;
+  model: string;
+  attempts: UpstreamAttempt[];
+}
+
+// PUT /api/handoffs/[id]: store an edited document as a new handoff; the original stays as generated
+export interface EditHandoffRequest {
+  output: string;
+}
+
+export interface EditHandoffResponse {
+  // The new handoff, for share links and publishing
+  id: string;
+}
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseGitHistory } from './git-history';
+import { parseTranscript } from './transcript';
+import { verifyArtifact, VerificationSources } from './verification';
+
+const sources: VerificationSources = {
+  transcript: parseTranscript(JSON.stringify({
+    chat_messages: [
+      {
+        sender: 'human',
+        text: 'Uploads in src/lib/upload.ts fail with UploadError: request timed out after 30 seconds. Can you add retries?',
+        created_at: '2025-06-10T14:03:00Z',
+      },
+      { sender: 'assistant', text: 'Added retryUpload with exponential backoff.' },
+      { sender: 'human', text: 'thanks' },
+    ],
+  })),
+  files: [{ path: 'src/lib/upload.ts', content: 'export function retryUpload(file: File) {\n  return backoff.run(() => send(file));\n}' }],
+  history: parseGitHistory([
+    'commit 1111111111111111111111111111111111111111',
+    'Author: Dana <dana@example.com>',
+    'Date:   Tue Jun 10 15:30:00 2025 +0000',
+    '',
+    '    Retry uploads',
+    '',
+    'diff --git a/src/lib/send.ts b/src/lib/send.ts',
+    '--- a/src/lib/send.ts',
+    '+++ b/src/lib/send.ts',
+    '@@ -1 +1 @@',
+    '-export const send = () => {};',
+    '+export const send = async () => {};',
+  ].join('\n')),
+};
+
+const unsupportedOf = (output: string) => verifyArtifact('readme', output, sources).unsupported;
+
+describe('verifyArtifact', () => {
+  it('accepts claims found in the transcript, code and history', () => {
+    const output = [
+      '## Status',
+      '',
+      'Uploads in `upload.ts` and `src/lib/send.ts` now go through `retryUpload()` and `backoff.run`.',
+      'They used to fail with UploadError: request timed out after 30 seconds in production.',
+      'Reported on 2025-06-10 at 14:03, fixed at 15:30 [#1–#2].',
+      '',
+      '```ts',
+      'function retryUpload(file: File) {}',
+      '```',
+    ].join('\n');
+
+    const report = verifyArtifact('readme', output, sources);
+
+    assert.deepEqual(report.unsupported, []);
+    assert.ok(report.checkedClaims >= 8);
+  });
+
+  it('reports invented paths, identifiers, errors, times and turns exactly as written', () => {
+    const output = [
+      'See `src/lib/queue.ts`, which calls `scheduleRetry`.',
+      'It raised QuotaError: storage bucket is full and rejected.',
+      'Fixed on 2025-07-01 at 9:45 pm, as discussed in turn #7.',
+      '',
+      '```ts',
+      'const invented = 1;',
+      '```',
+    ].join('\n');
+
+    assert.deepEqual(unsupportedOf(output), [
+      { kind: 'file', text: 'src/lib/queue.ts' },
+      { kind: 'identifier', text: 'scheduleRetry' },
+      { kind: 'identifier', text: 'invented' },
+      { kind: 'identifier', text: 'QuotaError' },
+      { kind: 'error', text: 'storage bucket is full and rejected' },
+      { kind: 'timestamp', text: '2025-07-01' },
+      { kind: 'timestamp', text: '9:45 pm' },
+      { kind: 'turn', text: '#7' },
+    ]);
+  });
+
+  it('does not treat line and column positions as times', () => {
+    assert.deepEqual(unsupportedOf('Fails at upload.ts:12:30.'), []);
+  });
+
+  it('reports the substantive turns the output never mentions, except for summaries', () => {
+    const readme = verifyArtifact('readme', 'Retries were added.', sources);
+
+    assert.deepEqual(readme.coverage, {
+      turns: 1,
+      mentioned: 0,
+      unmentioned: [{
+        index: 1,
+        role: 'user',
+        preview: 'Uploads in src/lib/upload.ts fail with UploadError: request timed out after 30 …',
+      }],
+    });
+    assert.equal(verifyArtifact('readme', 'Retries were added to upload.ts.', sources).coverage?.mentioned, 1);
+    assert.equal(verifyArtifact('summary', 'Retries were added.', sources).coverage, undefined);
+  });
+});
@@ -0,0 +1,248 @@
+import { GitHistory } from './git-history';
+import { Transcript, TurnRole } from './transcript';
+import { extractFileReferences } from './transcript/extract';
+import { ArtifactType, CodeFile } from './types';
+
+// Post-generation checks: every file path, identifier, error message, timestamp and turn number the model wrote
+// is looked up in the inputs it was prompted with. Claims that cannot be found are reported, not removed.
+
+export type ClaimKind = 'file' | 'identifier' | 'error' | 'timestamp' | 'turn';
+
+export interface UnsupportedClaim {
+  kind: ClaimKind;
+  // Exactly as written in the output, so it can be highlighted in place
+  text: string;
+}
+
+export interface UnmentionedTurn {
+  index: number;
+  role: TurnRole;
+  preview: string;
+}
+
+export interface QualityReport {
+  checkedClaims: number;
+  unsupported: UnsupportedClaim[];
+  // Turns with a real request or code change that the output never cites. Not computed for the summary,
+  // which is too short to cite turns.
+  coverage?: {
+    turns: number;
+    mentioned: number;
+    unmentioned: UnmentionedTurn[];
+  };
+}
+
+export interface VerificationSources {
+  transcript: Transcript;
+  files: CodeFile[];
+  history?: GitHistory;
+  // The handoff an update revises
+  previous?: string;
+}
+
+const FENCE_PATTERN = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm;
+const INLINE_CODE_PATTERN = /`([^`\n]+)`/g;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/;
+const DECLARATION_PATTERN = /\b(?:function|class|def|interface|type|enum|const|let|var|fn|func)\s+([A-Za-z_$][\w$]*)/g;
+const ERROR_PATTERN = /\b([A-Z]\w*(?:Error|Exception))\b(?::[ \t]*([^\n`"']{4,}))?/g;
+const DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b/g;
+// Not preceded or followed by another colon, so line:column positions such as `app.ts:12:30` are skipped
+const TIME_PATTERN = /(?<![\w:.])(\d{1,2}):(\d{2})(?::\d{2})?(?:\s?([ap])\.?m\b\.?)?(?![\w:])/gi;
+const ISO_TIME_PATTERN = /\dT(\d{2}):(\d{2})/g;
+const TURN_PATTERN = /(?:\[|\(|\bturns?\s+)#(\d+)(?:\s*[-–]\s*#?(\d+))?/gi;
+
+// Inline code that is an expression or command rather than a name is not checked
+const MIN_IDENTIFIER_LENGTH = 3;
+// Turns shorter than this (thanks, ok, continue) are not expected to be mentioned
+const MIN_TURN_CHARS = 40;
+// Only the first words of an error message are compared, and models often add context after it
+const ERROR_MESSAGE_WORDS = 8;
+const MIN_ERROR_MESSAGE_WORDS = 4;
+const PREVIEW_CHARS = 80;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const minutesOfDay = (hours: number, minutes: number, meridiem?: string) => {
+  const hour = meridiem ? (hours % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0) : hours;
+  return hour * 60 + minutes;
+};
+
+// Times of day as written anywhere in the text, plus the UTC time of ISO timestamps
+const timesIn = (text: string) => {
+  const times = new Set<number>();
+  for (const match of text.matchAll(TIME_PATTERN)) {
+    times.add(minutesOfDay(Number(match[1]), Number(match[2]), match[3]));
+  }
+  for (const match of text.matchAll(ISO_TIME_PATTERN)) {
+    times.add(Number(match[1]) * 60 + Number(match[2]));
+  }
+  const parsed = Date.parse(text);
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text) && !Number.isNaN(parsed)) {
+    const date = new Date(parsed);
+    times.add(date.getUTCHours() * 60 + date.getUTCMinutes());
+  }
+  return times;
+};
+
+interface Corpus {
+  text: string;
+  normalized: string;
+  paths: string[];
+  times: Set<number>;
+  turnCount: number;
+}
+
+// Everything the prompt was built from, after parsing and redaction
+export const buildCorpus = ({ transcript, files, history, previous }: VerificationSources): Corpus => {
+  const parts: string[] = [];
+  const paths = new Set<string>();
+  const times = new Set<number>();
+
+  for (const turn of transcript.turns) {
+    parts.push(turn.text);
+    turn.fileReferences.forEach(file => paths.add(file));
+    if (turn.timestamp) {
+      parts.push(turn.timestamp);
+      timesIn(turn.timestamp).forEach(time => times.add(time));
+    }
+  }
+  for (const file of files) {
+    parts.push(file.path, file.content);
+    paths.add(file.path);
+  }
+  for (const commit of history?.commits ?? []) {
+    parts.push(commit.hash ?? '', commit.author ?? '', commit.date ?? '', commit.message);
+    if (commit.date) timesIn(commit.date).forEach(time => times.add(time));
+    for (const change of commit.files) {
+      paths.add(change.path);
+      if (change.oldPath) paths.add(change.oldPath);
+      parts.push(...change.hunks.flatMap(hunk => [hunk.header, ...hunk.lines]));
+    }
+  }
+
+  if (previous) {
+    parts.push(previous);
+    extractFileReferences(previous).forEach(file => paths.add(file));
+  }
+
+  const text = parts.join('\n');
+  timesIn(text).forEach(time => times.add(time));
+  return { text, normalized: normalize(text), paths: [...paths], times, turnCount: transcript.turns.length };
+};
+
+const containsWord = (corpus: Corpus, word: string) =>
+  new RegExp(`(?<![\\w$])${escapeRegExp(word)}(?![\\w$])`).test(corpus.text);
+
+// A path is supported when an input path ends with it, so `auth.ts` matches `src/lib/auth.ts`
+const isKnownPath = (corpus: Corpus, claimed: string) =>
+  corpus.paths.some(known => known === claimed || known.endsWith(`/${claimed}`)) || corpus.text.includes(claimed);
+
+const isKnownIdentifier = (corpus: Corpus, identifier: string) =>
+  containsWord(corpus, identifier) || identifier.split('.').every(part => containsWord(corpus, part));
+
+// Supported when most of its opening words appear verbatim, so "X failed in upload.ts" still matches "X failed"
+const isKnownMessage = (corpus: Corpus, message: string) => {
+  const words = normalize(message).split(' ').slice(0, ERROR_MESSAGE_WORDS);
+  const shortest = Math.max(Math.min(MIN_ERROR_MESSAGE_WORDS, words.length), Math.ceil(words.length * 0.6));
+  for (let count = words.length; count >= shortest; count--) {
+    if (corpus.normalized.includes(words.slice(0, count).join(' '))) return true;
+  }
+  return false;
+};
+
+const citedTurns = (output: string) => {
+  const cited = new Set<number>();
+  for (const match of output.matchAll(TURN_PATTERN)) {
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    for (let index = from; index <= Math.min(to, from + 500); index++) cited.add(index);
+  }
+  return cited;
+};
+
+const preview = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > PREVIEW_CHARS ? `${flat.slice(0, PREVIEW_CHARS - 1)}…` : flat;
+};
+
+export const verifyArtifact = (type: ArtifactType, output: string, sources: VerificationSources, corpus = buildCorpus(sources)): QualityReport => {
+  const claims = new Map<string, { kind: ClaimKind; supported: boolean }>();
+  const check = (kind: ClaimKind, text: string, supported: () => boolean) => {
+    const key = `${kind}:${text}`;
+    if (!claims.has(key)) claims.set(key, { kind, supported: supported() });
+  };
+
+  const prose = output.replace(FENCE_PATTERN, '');
+  const fences = output.match(FENCE_PATTERN) ?? [];
+
+  for (const file of extractFileReferences(output)) {
+    check('file', file, () => isKnownPath(corpus, file));
+  }
+
+  for (const match of prose.matchAll(INLINE_CODE_PATTERN)) {
+    const identifier = match[1].trim().replace(/\(\)$/, '');
+    if (identifier.length >= MIN_IDENTIFIER_LENGTH && IDENTIFIER_PATTERN.test(identifier) && !extractFileReferences(` ${identifier}`).length) {
+      check('identifier', identifier, () => isKnownIdentifier(corpus, identifier));
+    }
+  }
+
+  // Names a snippet declares must exist somewhere; the rest of a snippet may fairly be paraphrased
+  for (const fence of fences) {
+    for (const match of fence.matchAll(DECLARATION_PATTERN)) {
+      check('identifier', match[1], () => containsWord(corpus, match[1]));
+    }
+  }
+
+  for (const match of prose.matchAll(ERROR_PATTERN)) {
+    check('identifier', match[1], () => containsWord(corpus, match[1]));
+    const message = match[2]?.trim().replace(/[.,;:)]+$/, '');
+    if (message) {
+      check('error', message, () => isKnownMessage(corpus, message));
+    }
+  }
+
+  for (const match of prose.matchAll(DATE_PATTERN)) {
+    check('timestamp', match[0], () => corpus.text.includes(match[0]));
+  }
+  for (const match of prose.matchAll(TIME_PATTERN)) {
+    const minutes = minutesOfDay(Number(match[1]), Number(match[2]), match[3]);
+    // 24:00 and 9:75 are not times
+    if (minutes < 24 * 60 && Number(match[2]) < 60) {
+      check('timestamp', match[0], () => corpus.times.has(minutes));
+    }
+  }
+
+  const cited = citedTurns(output);
+  for (const index of cited) {
+    check('turn', `#${index}`, () => index >= 1 && index <= corpus.turnCount);
+  }
+
+  const unsupported = [...claims].filter(([, claim]) => !claim.supported).map(([key, { kind }]) => ({
+    kind,
+    text: key.slice(kind.length + 1),
+  }));
+  const report: QualityReport = { checkedClaims: claims.size, unsupported };
+
+  if (type !== 'summary') {
+    const outputText = normalize(output);
+    const outputTimes = timesIn(output);
+    const considered = sources.transcript.turns.filter(turn =>
+      turn.codeBlocks.length || (turn.role === 'user' && turn.text.length >= MIN_TURN_CHARS)
+    );
+    // A turn counts as mentioned when it is cited by number, or when a file it references or its time appears
+    const unmentioned = considered.filter(turn =>
+      !cited.has(turn.index) &&
+      !turn.fileReferences.some(file => outputText.includes(normalize(file.split('/').pop()!))) &&
+      !(turn.timestamp && [...timesIn(turn.timestamp)].some(time => outputTimes.has(time)))
+    );
+    report.coverage = {
+      turns: considered.length,
+      mentioned: considered.length - unmentioned.length,
+      unmentioned: unmentioned.map(turn => ({ index: turn.index, role: turn.role, preview: preview(turn.text) })),
+    };
+  }
+
+  return report;
+};